@@ -0,0 +1,301 @@
+import { AESCore } from "./aes"
+import { NUMBER_OF_ROUNDS, RCON } from "./constants"
+import { assertNotDisposed } from "./dispose"
+import { InvalidKeyLengthError, InvalidLengthError } from "./errors"
+import { ExpandedKey } from "./key-schedule"
+
+// Las funciones de este archivo operan sobre palabras de 32 bits que empaquetan 4 bytes independientes.
+// Ninguna indexa memoria con datos secretos ni ramifica según ellos: todo es aritmética y máscaras.
+
+// Multiplica por x (xtime) cada uno de los 4 bytes de la palabra.
+function xtime4(a: number): number {
+  return ((a & 0x7f7f7f7f) << 1) ^ Math.imul((a >>> 7) & 0x01010101, 0x1b)
+}
+
+// Multiplicación en GF(2^8) byte a byte de dos palabras empaquetadas.
+function gmul4(a: number, b: number): number {
+  let r = 0
+  for (let i = 0; i < 8; i++) {
+    // Máscara 0xff en cada byte cuyo bit i de `b` está activo.
+    r ^= a & Math.imul((b >>> i) & 0x01010101, 0xff)
+    a = xtime4(a)
+  }
+  return r
+}
+
+// Inverso multiplicativo byte a byte como x^254 (el 0 se mantiene en 0).
+function ginv4(x: number): number {
+  const x2 = gmul4(x, x)
+  const x3 = gmul4(x2, x)
+  const x6 = gmul4(x3, x3)
+  const x12 = gmul4(x6, x6)
+  const x15 = gmul4(x12, x3)
+  let x240 = x15
+  for (let i = 0; i < 4; i++) {
+    x240 = gmul4(x240, x240)
+  }
+  return gmul4(gmul4(x240, x12), x2)
+}
+
+// Rotación a la izquierda de `n` bits dentro de cada byte.
+function rotlBytes(b: number, n: number): number {
+  return ((b << n) & Math.imul((0xff << n) & 0xff, 0x01010101)) | ((b >>> (8 - n)) & Math.imul((1 << n) - 1, 0x01010101))
+}
+
+// Rotación a la izquierda de la palabra completa.
+function rotl32(w: number, n: number): number {
+  return (w << n) | (w >>> (32 - n))
+}
+
+// S-box aplicada a los 4 bytes: inversión seguida de la transformación afín.
+function subWord(w: number): number {
+  const b = ginv4(w)
+  return b ^ rotlBytes(b, 1) ^ rotlBytes(b, 2) ^ rotlBytes(b, 3) ^ rotlBytes(b, 4) ^ 0x63636363
+}
+
+// S-box inversa: transformación afín inversa seguida de la inversión.
+function invSubWord(w: number): number {
+  return ginv4(rotlBytes(w, 1) ^ rotlBytes(w, 3) ^ rotlBytes(w, 6) ^ 0x05050505)
+}
+
+// MixColumns sobre una columna (la fila 0 ocupa el byte más significativo).
+function mixColumn(u: number): number {
+  const r1 = rotl32(u, 8)
+  return xtime4(u ^ r1) ^ r1 ^ rotl32(u, 16) ^ rotl32(u, 24)
+}
+
+// InvMixColumns expresado como un preprocesado seguido de MixColumns.
+function invMixColumn(w: number): number {
+  return mixColumn(w ^ xtime4(xtime4(w ^ rotl32(w, 16))))
+}
+
+/**
+ * Expansión de clave sin tablas, con la misma disposición de claves de ronda que la de {@link AES}
+ * (cifrado inverso equivalente), por lo que el resultado sirve para cualquiera de los dos núcleos.
+ * @param key La clave de cifrado, de 16, 24 o 32 bytes.
+ */
+export function expandKeyConstantTime(key: Uint8Array): ExpandedKey {
+  const rounds = NUMBER_OF_ROUNDS[key.length]
+  if (rounds == null) {
+    throw new InvalidKeyLengthError("Tamaño de clave inválido (debe ser 16, 24 o 32 bytes)", { mode: "AESConstantTime", expected: [16, 24, 32], actual: key.length })
+  }
+  const Ke = new Uint32Array((rounds + 1) * 4)
+  const Kd = new Uint32Array((rounds + 1) * 4)
+
+  const roundKeyCount = (rounds + 1) * 4
+  const KC = key.length / 4
+  const tk = new Uint32Array(KC)
+  for (let i = 0; i < KC; i++) {
+    const j = i * 4
+    tk[i] = (key[j] << 24) | (key[j + 1] << 16) | (key[j + 2] << 8) | key[j + 3]
+  }
+
+  for (let i = 0; i < roundKeyCount; i++) {
+    if (i < KC) {
+      Ke[i] = tk[i]
+    } else {
+      let tt = Ke[i - 1]
+      if (i % KC === 0) {
+        tt = subWord(rotl32(tt, 8)) ^ (RCON[i / KC - 1] << 24)
+      } else if (KC === 8 && i % KC === 4) {
+        tt = subWord(tt)
+      }
+      Ke[i] = Ke[i - KC] ^ tt
+    }
+  }
+
+  // Claves de descifrado en orden inverso, con InvMixColumns en las rondas intermedias.
+  for (let r = 0; r <= rounds; r++) {
+    for (let c = 0; c < 4; c++) {
+      const w = Ke[(rounds - r) * 4 + c]
+      Kd[r * 4 + c] = r === 0 || r === rounds ? w : invMixColumn(w)
+    }
+  }
+
+  tk.fill(0)
+  return new ExpandedKey(Ke, Kd)
+}
+
+/**
+ * Núcleo AES de tiempo constante.
+ *
+ * A diferencia de {@link AES}, no utiliza las tablas T1–T8/U1–U4 ni la S-box tabulada: la sustitución se calcula
+ * como inversión en GF(2^8) y transformación afín, de modo que los accesos a memoria no dependen de la clave
+ * ni de los datos. Es notablemente más lento, pero adecuado para entornos compartidos donde los ataques
+ * de temporización por caché son una amenaza real.
+ *
+ * Mantiene la misma disposición de claves de ronda que {@link AES} (cifrado inverso equivalente). Si recibe una
+ * expansión ya calculada la usa tal cual, aunque proceda del núcleo de tablas.
+ */
+export class AESConstantTime implements AESCore {
+  public readonly blockSize = 16
+  public readonly expandedKey: ExpandedKey
+  // Falso si la expansión se recibió ya calculada: en ese caso es compartida y `dispose()` no la toca.
+  private readonly ownsExpandedKey: boolean
+  private readonly rounds: number
+  private readonly _Ke: Uint32Array
+  private readonly _Kd: Uint32Array
+  private disposed = false
+
+  /**
+   * @param key La clave de cifrado, de 16, 24 o 32 bytes, o una expansión ya calculada.
+   */
+  constructor(key: Uint8Array | ExpandedKey) {
+    this.ownsExpandedKey = !(key instanceof ExpandedKey)
+    this.expandedKey = key instanceof ExpandedKey ? key : expandKeyConstantTime(key)
+    this.rounds = this.expandedKey.rounds
+    this._Ke = this.expandedKey.encryptionRoundKeys
+    this._Kd = this.expandedKey.decryptionRoundKeys
+  }
+
+  public encrypt(plaintext: Uint8Array): Uint8Array<ArrayBuffer> {
+    if (plaintext.length !== 16) {
+      throw new InvalidLengthError("Tamaño de texto plano inválido (debe ser 16 bytes)", { mode: "AESConstantTime", parameter: "plaintext", expected: { min: 16, max: 16 }, actual: plaintext.length })
+    }
+
+    const result = new Uint8Array(16)
+    this.encryptBlockInto(plaintext, 0, result, 0)
+    return result
+  }
+
+  public decrypt(ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
+    if (ciphertext.length !== 16) {
+      throw new InvalidLengthError("Tamaño de texto cifrado inválido (debe ser 16 bytes)", { mode: "AESConstantTime", parameter: "ciphertext", expected: { min: 16, max: 16 }, actual: ciphertext.length })
+    }
+
+    const result = new Uint8Array(16)
+    this.decryptBlockInto(ciphertext, 0, result, 0)
+    return result
+  }
+
+  public encryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AESConstantTime")
+    const Ke = this._Ke
+    const rounds = this.rounds
+
+    let t0 = ((src[srcOffset] << 24) | (src[srcOffset + 1] << 16) | (src[srcOffset + 2] << 8) | src[srcOffset + 3]) ^ Ke[0]
+    let t1 = ((src[srcOffset + 4] << 24) | (src[srcOffset + 5] << 16) | (src[srcOffset + 6] << 8) | src[srcOffset + 7]) ^ Ke[1]
+    let t2 = ((src[srcOffset + 8] << 24) | (src[srcOffset + 9] << 16) | (src[srcOffset + 10] << 8) | src[srcOffset + 11]) ^ Ke[2]
+    let t3 = ((src[srcOffset + 12] << 24) | (src[srcOffset + 13] << 16) | (src[srcOffset + 14] << 8) | src[srcOffset + 15]) ^ Ke[3]
+
+    let k = 4
+    for (let r = 1; r <= rounds; r++) {
+      const s0 = subWord(t0)
+      const s1 = subWord(t1)
+      const s2 = subWord(t2)
+      const s3 = subWord(t3)
+
+      // ShiftRows: la fila i de la columna c procede de la columna (c + i) mod 4.
+      let u0 = (s0 & 0xff000000) | (s1 & 0x00ff0000) | (s2 & 0x0000ff00) | (s3 & 0x000000ff)
+      let u1 = (s1 & 0xff000000) | (s2 & 0x00ff0000) | (s3 & 0x0000ff00) | (s0 & 0x000000ff)
+      let u2 = (s2 & 0xff000000) | (s3 & 0x00ff0000) | (s0 & 0x0000ff00) | (s1 & 0x000000ff)
+      let u3 = (s3 & 0xff000000) | (s0 & 0x00ff0000) | (s1 & 0x0000ff00) | (s2 & 0x000000ff)
+
+      if (r < rounds) {
+        u0 = mixColumn(u0)
+        u1 = mixColumn(u1)
+        u2 = mixColumn(u2)
+        u3 = mixColumn(u3)
+      }
+
+      t0 = u0 ^ Ke[k]
+      t1 = u1 ^ Ke[k + 1]
+      t2 = u2 ^ Ke[k + 2]
+      t3 = u3 ^ Ke[k + 3]
+      k += 4
+    }
+
+    writeState(dst, dstOffset, t0, t1, t2, t3)
+  }
+
+  public decryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AESConstantTime")
+    const Kd = this._Kd
+    const rounds = this.rounds
+
+    let t0 = ((src[srcOffset] << 24) | (src[srcOffset + 1] << 16) | (src[srcOffset + 2] << 8) | src[srcOffset + 3]) ^ Kd[0]
+    let t1 = ((src[srcOffset + 4] << 24) | (src[srcOffset + 5] << 16) | (src[srcOffset + 6] << 8) | src[srcOffset + 7]) ^ Kd[1]
+    let t2 = ((src[srcOffset + 8] << 24) | (src[srcOffset + 9] << 16) | (src[srcOffset + 10] << 8) | src[srcOffset + 11]) ^ Kd[2]
+    let t3 = ((src[srcOffset + 12] << 24) | (src[srcOffset + 13] << 16) | (src[srcOffset + 14] << 8) | src[srcOffset + 15]) ^ Kd[3]
+
+    let k = 4
+    for (let r = 1; r <= rounds; r++) {
+      const s0 = invSubWord(t0)
+      const s1 = invSubWord(t1)
+      const s2 = invSubWord(t2)
+      const s3 = invSubWord(t3)
+
+      // InvShiftRows: la fila i de la columna c procede de la columna (c - i) mod 4.
+      let u0 = (s0 & 0xff000000) | (s3 & 0x00ff0000) | (s2 & 0x0000ff00) | (s1 & 0x000000ff)
+      let u1 = (s1 & 0xff000000) | (s0 & 0x00ff0000) | (s3 & 0x0000ff00) | (s2 & 0x000000ff)
+      let u2 = (s2 & 0xff000000) | (s1 & 0x00ff0000) | (s0 & 0x0000ff00) | (s3 & 0x000000ff)
+      let u3 = (s3 & 0xff000000) | (s2 & 0x00ff0000) | (s1 & 0x0000ff00) | (s0 & 0x000000ff)
+
+      if (r < rounds) {
+        u0 = invMixColumn(u0)
+        u1 = invMixColumn(u1)
+        u2 = invMixColumn(u2)
+        u3 = invMixColumn(u3)
+      }
+
+      t0 = u0 ^ Kd[k]
+      t1 = u1 ^ Kd[k + 1]
+      t2 = u2 ^ Kd[k + 2]
+      t3 = u3 ^ Kd[k + 3]
+      k += 4
+    }
+
+    writeState(dst, dstOffset, t0, t1, t2, t3)
+  }
+
+  public encryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AESConstantTime")
+    if (input.length < blockCount * 16 || output.length < blockCount * 16) {
+      throw new InvalidLengthError("Tamaño de búfer insuficiente para el número de bloques indicado", { mode: "AESConstantTime", parameter: "buffer", expected: { min: blockCount * 16 }, actual: Math.min(input.length, output.length) })
+    }
+    for (let i = 0; i < blockCount * 16; i += 16) {
+      this.encryptBlockInto(input, i, output, i)
+    }
+  }
+
+  public decryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AESConstantTime")
+    if (input.length < blockCount * 16 || output.length < blockCount * 16) {
+      throw new InvalidLengthError("Tamaño de búfer insuficiente para el número de bloques indicado", { mode: "AESConstantTime", parameter: "buffer", expected: { min: blockCount * 16 }, actual: Math.min(input.length, output.length) })
+    }
+    for (let i = 0; i < blockCount * 16; i += 16) {
+      this.decryptBlockInto(input, i, output, i)
+    }
+  }
+
+  public dispose(): void {
+    this.disposed = true
+    if (this.ownsExpandedKey) {
+      this.expandedKey.dispose()
+    }
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
+
+// Escribe las 4 columnas del estado como 16 bytes en orden big-endian.
+function writeState(dst: Uint8Array, offset: number, t0: number, t1: number, t2: number, t3: number): void {
+  dst[offset] = t0 >>> 24
+  dst[offset + 1] = t0 >>> 16
+  dst[offset + 2] = t0 >>> 8
+  dst[offset + 3] = t0
+  dst[offset + 4] = t1 >>> 24
+  dst[offset + 5] = t1 >>> 16
+  dst[offset + 6] = t1 >>> 8
+  dst[offset + 7] = t1
+  dst[offset + 8] = t2 >>> 24
+  dst[offset + 9] = t2 >>> 16
+  dst[offset + 10] = t2 >>> 8
+  dst[offset + 11] = t2
+  dst[offset + 12] = t3 >>> 24
+  dst[offset + 13] = t3 >>> 16
+  dst[offset + 14] = t3 >>> 8
+  dst[offset + 15] = t3
+}
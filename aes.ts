@@ -1,142 +1,534 @@
+import { AESConstantTime, expandKeyConstantTime } from "./aes-ct"
 import { NUMBER_OF_ROUNDS, RCON, S, SI, T1, T2, T3, T4, T5, T6, T7, T8, U1, U2, U3, U4 } from "./constants"
+import { assertNotDisposed } from "./dispose"
+import { InvalidKeyLengthError, InvalidLengthError, UnsupportedOperationError } from "./errors"
+import { ExpandedKey, KeyScheduleCache } from "./key-schedule"
+import { Rijndael } from "./rijndael"
 
-export class AES {
-  private readonly key: Uint8Array
-  private readonly _Ke: number[][] = []
-  private readonly _Kd: number[][] = []
+/**
+ * Operaciones por bloques comunes a los núcleos AES y a {@link Rijndael} con bloque variable.
+ */
+export interface BlockCipher {
+  /** Tamaño de bloque en bytes; 16 en todos los núcleos AES. */
+  readonly blockSize: number
+  encrypt(plaintext: Uint8Array): Uint8Array<ArrayBuffer>
+  decrypt(ciphertext: Uint8Array): Uint8Array<ArrayBuffer>
+  encryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void
+  decryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void
+  encryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void
+  decryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void
+  /** Borra la clave y las claves de ronda propias; cualquier uso posterior lanza un error. */
+  dispose(): void
+  [Symbol.dispose](): void
+}
+
+/**
+ * Superficie común de los núcleos de cifrado por bloques que usan los modos de operación.
+ */
+export interface AESCore extends BlockCipher {
+  /** Expansión de clave del núcleo; puede pasarse a otros núcleos o modos para no volver a expandir la clave. */
+  readonly expandedKey: ExpandedKey
+}
+
+/**
+ * Opciones de construcción aceptadas por todos los modos de operación.
+ * - `core`: `"table"` (por defecto) usa las tablas precalculadas, el más rápido; `"constant-time"` evita
+ *   accesos a memoria dependientes de la clave a costa de rendimiento.
+ * - `backend`: `"auto"` (por defecto) delega en `node:crypto` cuando existe, `"native"` lo exige y `"pure"`
+ *   fuerza la implementación en TypeScript. Solo afecta a los modos que OpenSSL implementa (ver `backend.ts`).
+ * - `keyCache`: caché de expansiones de clave compartida (ver `key-schedule.ts`). Sin ella, cada núcleo expande
+ *   su clave.
+ * - `blockSize`: tamaño de bloque en bytes (16, 20, 24, 28 o 32). Solo ECB y CBC admiten valores distintos de 16,
+ *   con los que usan {@link Rijndael}; el resto de modos lo rechaza.
+ */
+export interface AESOptions {
+  core?: "table" | "constant-time"
+  backend?: "auto" | "native" | "pure"
+  keyCache?: KeyScheduleCache
+  blockSize?: number
+}
 
-  constructor(key: Uint8Array) {
-    this.key = new Uint8Array(key)
-    this.prepare()
+/**
+ * Expande una clave con el núcleo indicado en las opciones. Si hay `keyCache`, la expansión se toma de la caché
+ * o se guarda en ella; si se recibe una expansión, se devuelve tal cual.
+ * Las expansiones nuevas sin caché pertenecen al llamador, que debe destruirlas con `dispose()`.
+ * @param key La clave de cifrado, de 16, 24 o 32 bytes, o una expansión ya calculada.
+ * @param options Opciones de construcción.
+ */
+export function expandKey(key: Uint8Array | ExpandedKey, options: AESOptions = {}): ExpandedKey {
+  if (key instanceof ExpandedKey) {
+    return key
+  }
+  const cached = options.keyCache?.get(key)
+  if (cached !== undefined) {
+    return cached
   }
 
-  private prepare(): void {
-    const rounds = NUMBER_OF_ROUNDS[this.key.length]
-    if (rounds == null) {
-      throw new Error("Tamaño de clave inválido (debe ser 16, 24 o 32 bytes)")
-    }
+  let expandedKey: ExpandedKey
+  switch (options.core ?? "table") {
+    case "table":
+      expandedKey = expandKeyTable(key)
+      break
+    case "constant-time":
+      expandedKey = expandKeyConstantTime(key)
+      break
+    default:
+      throw new UnsupportedOperationError(`Núcleo AES no soportado: ${options.core}`, { operation: "core" })
+  }
+  options.keyCache?.set(key, expandedKey)
+  return expandedKey
+}
 
-    for (let i = 0; i <= rounds; i++) {
-      this._Ke.push([0, 0, 0, 0])
-      this._Kd.push([0, 0, 0, 0])
-    }
+/**
+ * Crea el núcleo AES indicado en las opciones.
+ * @param key La clave de cifrado, de 16, 24 o 32 bytes, o una expansión ya calculada (que el núcleo no destruye).
+ * @param options Opciones de construcción.
+ */
+export function createAES(key: Uint8Array | ExpandedKey, options: AESOptions = {}): AESCore {
+  if ((options.blockSize ?? 16) !== 16) {
+    throw new UnsupportedOperationError("Este modo solo admite bloques de 16 bytes (AES); blockSize solo es válido en ECB y CBC", { operation: "blockSize" })
+  }
+  // Con caché, el núcleo recibe la expansión compartida en lugar de calcular la suya.
+  const source = options.keyCache ? expandKey(key, options) : key
+  switch (options.core ?? "table") {
+    case "table":
+      return new AES(source)
+    case "constant-time":
+      return new AESConstantTime(source)
+    default:
+      throw new UnsupportedOperationError(`Núcleo AES no soportado: ${options.core}`, { operation: "core" })
+  }
+}
 
-    const roundKeyCount = (rounds + 1) * 4
-    const KC = this.key.length / 4
-    const tk = this.convertToInt32(this.key)
+/**
+ * Crea el cifrador por bloques de los modos que admiten Rijndael con bloque variable (ECB y CBC).
+ * Con bloques de 16 bytes y claves AES equivale a `createAES()`; en otro caso devuelve un {@link Rijndael},
+ * que solo existe con núcleo de tablas.
+ * @param key La clave de cifrado, o una expansión ya calculada (solo con bloques de 16 bytes).
+ * @param options Opciones de construcción.
+ */
+export function createBlockCipher(key: Uint8Array | ExpandedKey, options: AESOptions = {}): BlockCipher {
+  const blockSize = options.blockSize ?? 16
+  if (key instanceof ExpandedKey || (blockSize === 16 && NUMBER_OF_ROUNDS[key.length] != null)) {
+    return createAES(key, options)
+  }
+  if (options.core === "constant-time") {
+    throw new UnsupportedOperationError("El núcleo de tiempo constante solo admite AES (bloques de 16 bytes y claves de 16, 24 o 32 bytes)", { operation: "core" })
+  }
+  return new Rijndael(key, blockSize)
+}
 
-    for (let i = 0; i < KC; i++) {
-      const index = i >> 2
-      this._Ke[index][i % 4] = tk[i]
-      this._Kd[rounds - index][i % 4] = tk[i]
-    }
+// Expansión de clave con las tablas S y U1–U4. El resultado usa el cifrado inverso equivalente para descifrar.
+function expandKeyTable(key: Uint8Array): ExpandedKey {
+  const rounds = NUMBER_OF_ROUNDS[key.length]
+  if (rounds == null) {
+    throw new InvalidKeyLengthError("Tamaño de clave inválido (debe ser 16, 24 o 32 bytes)", { mode: "AES", expected: [16, 24, 32], actual: key.length })
+  }
+  const Ke = new Uint32Array((rounds + 1) * 4)
+  const Kd = new Uint32Array((rounds + 1) * 4)
 
-    let rconPointer = 0
-    let t = KC
-    while (t < roundKeyCount) {
-      let tt = tk[KC - 1]
-      tk[0] ^= (S[(tt >> 16) & 0xff] << 24) ^ (S[(tt >> 8) & 0xff] << 16) ^ (S[tt & 0xff] << 8) ^ S[(tt >> 24) & 0xff] ^ (RCON[rconPointer++] << 24)
-
-      if (KC !== 8) {
-        for (let i = 1; i < KC; i++) {
-          tk[i] ^= tk[i - 1]
-        }
-      } else {
-        for (let i = 1; i < KC / 2; i++) {
-          tk[i] ^= tk[i - 1]
-        }
-        tt = tk[KC / 2 - 1]
-        tk[KC / 2] ^= S[tt & 0xff] ^ (S[(tt >> 8) & 0xff] << 8) ^ (S[(tt >> 16) & 0xff] << 16) ^ (S[(tt >> 24) & 0xff] << 24)
-        for (let i = KC / 2 + 1; i < KC; i++) {
-          tk[i] ^= tk[i - 1]
-        }
-      }
+  const roundKeyCount = (rounds + 1) * 4
+  const KC = key.length / 4
+  const tk = convertToInt32(key)
 
-      let i = 0
-      while (i < KC && t < roundKeyCount) {
-        const r = t >> 2
-        const c = t % 4
-        this._Ke[r][c] = tk[i]
-        this._Kd[rounds - r][c] = tk[i++]
-        t++
+  for (let i = 0; i < KC; i++) {
+    const index = i >> 2
+    Ke[i] = tk[i]
+    Kd[(rounds - index) * 4 + (i % 4)] = tk[i]
+  }
+
+  let rconPointer = 0
+  let t = KC
+  while (t < roundKeyCount) {
+    let tt = tk[KC - 1]
+    tk[0] ^= (S[(tt >> 16) & 0xff] << 24) ^ (S[(tt >> 8) & 0xff] << 16) ^ (S[tt & 0xff] << 8) ^ S[(tt >> 24) & 0xff] ^ (RCON[rconPointer++] << 24)
+
+    if (KC !== 8) {
+      for (let i = 1; i < KC; i++) {
+        tk[i] ^= tk[i - 1]
+      }
+    } else {
+      for (let i = 1; i < KC / 2; i++) {
+        tk[i] ^= tk[i - 1]
+      }
+      tt = tk[KC / 2 - 1]
+      tk[KC / 2] ^= S[tt & 0xff] ^ (S[(tt >> 8) & 0xff] << 8) ^ (S[(tt >> 16) & 0xff] << 16) ^ (S[(tt >> 24) & 0xff] << 24)
+      for (let i = KC / 2 + 1; i < KC; i++) {
+        tk[i] ^= tk[i - 1]
       }
     }
 
-    for (let r = 1; r < rounds; r++) {
-      for (let c = 0; c < 4; c++) {
-        const tt = this._Kd[r][c]
-        this._Kd[r][c] = U1[(tt >> 24) & 0xff] ^ U2[(tt >> 16) & 0xff] ^ U3[(tt >> 8) & 0xff] ^ U4[tt & 0xff]
-      }
+    let i = 0
+    while (i < KC && t < roundKeyCount) {
+      const r = t >> 2
+      const c = t % 4
+      Ke[t] = tk[i]
+      Kd[(rounds - r) * 4 + c] = tk[i++]
+      t++
     }
   }
 
-  private convertToInt32(bytes: Uint8Array): number[] {
-    const result: number[] = []
-    for (let i = 0; i < bytes.length; i += 4) {
-      result.push((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3])
-    }
-    return result
+  for (let i = 4; i < rounds * 4; i++) {
+    const tt = Kd[i]
+    Kd[i] = U1[(tt >>> 24) & 0xff] ^ U2[(tt >>> 16) & 0xff] ^ U3[(tt >>> 8) & 0xff] ^ U4[tt & 0xff]
+  }
+
+  tk.fill(0)
+  return new ExpandedKey(Ke, Kd)
+}
+
+function convertToInt32(bytes: Uint8Array): Uint32Array {
+  const result = new Uint32Array(bytes.length / 4)
+  for (let i = 0; i < bytes.length; i += 4) {
+    result[i >> 2] = (bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]
+  }
+  return result
+}
+
+export class AES implements AESCore {
+  public readonly blockSize = 16
+  public readonly expandedKey: ExpandedKey
+  // Solo se borra en `dispose()` la expansión calculada por este núcleo, nunca una recibida.
+  private readonly ownsExpandedKey: boolean
+  private readonly rounds: number
+  // Claves de ronda en palabras de 32 bits: la ronda r ocupa los índices [4r, 4r + 4).
+  private readonly _Ke: Uint32Array
+  private readonly _Kd: Uint32Array
+  private disposed = false
+
+  /**
+   * @param key La clave de cifrado, de 16, 24 o 32 bytes, o una expansión ya calculada.
+   */
+  constructor(key: Uint8Array | ExpandedKey) {
+    this.ownsExpandedKey = !(key instanceof ExpandedKey)
+    this.expandedKey = key instanceof ExpandedKey ? key : expandKeyTable(key)
+    this.rounds = this.expandedKey.rounds
+    this._Ke = this.expandedKey.encryptionRoundKeys
+    this._Kd = this.expandedKey.decryptionRoundKeys
   }
 
   public encrypt(plaintext: Uint8Array): Uint8Array<ArrayBuffer> {
     if (plaintext.length !== 16) {
-      throw new Error("Tamaño de texto plano inválido (debe ser 16 bytes)")
+      throw new InvalidLengthError("Tamaño de texto plano inválido (debe ser 16 bytes)", { mode: "AES", parameter: "plaintext", expected: { min: 16, max: 16 }, actual: plaintext.length })
     }
 
-    const rounds = this._Ke.length - 1
-    let t = this.convertToInt32(plaintext)
+    const result = new Uint8Array(16)
+    this.encryptBlockInto(plaintext, 0, result, 0)
+    return result
+  }
 
-    for (let i = 0; i < 4; i++) {
-      t[i] ^= this._Ke[0][i]
+  public decrypt(ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
+    if (ciphertext.length !== 16) {
+      throw new InvalidLengthError("Tamaño de texto cifrado inválido (debe ser 16 bytes)", { mode: "AES", parameter: "ciphertext", expected: { min: 16, max: 16 }, actual: ciphertext.length })
     }
 
+    const result = new Uint8Array(16)
+    this.decryptBlockInto(ciphertext, 0, result, 0)
+    return result
+  }
+
+  /**
+   * Cifra el bloque de 16 bytes que empieza en `src[srcOffset]` y escribe el resultado en `dst[dstOffset]`.
+   * No reserva memoria; `src` y `dst` pueden ser el mismo array (cifrado en el sitio).
+   * Los límites no se comprueban: el llamador garantiza que ambos rangos tienen 16 bytes.
+   */
+  public encryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AES")
+    const Ke = this._Ke
+    const rounds = this.rounds
+
+    let t0 = ((src[srcOffset] << 24) | (src[srcOffset + 1] << 16) | (src[srcOffset + 2] << 8) | src[srcOffset + 3]) ^ Ke[0]
+    let t1 = ((src[srcOffset + 4] << 24) | (src[srcOffset + 5] << 16) | (src[srcOffset + 6] << 8) | src[srcOffset + 7]) ^ Ke[1]
+    let t2 = ((src[srcOffset + 8] << 24) | (src[srcOffset + 9] << 16) | (src[srcOffset + 10] << 8) | src[srcOffset + 11]) ^ Ke[2]
+    let t3 = ((src[srcOffset + 12] << 24) | (src[srcOffset + 13] << 16) | (src[srcOffset + 14] << 8) | src[srcOffset + 15]) ^ Ke[3]
+
+    let k = 4
     for (let r = 1; r < rounds; r++) {
-      const a = [0, 0, 0, 0]
-      for (let i = 0; i < 4; i++) {
-        a[i] = T1[(t[i] >> 24) & 0xff] ^ T2[(t[(i + 1) % 4] >> 16) & 0xff] ^ T3[(t[(i + 2) % 4] >> 8) & 0xff] ^ T4[t[(i + 3) % 4] & 0xff] ^ this._Ke[r][i]
-      }
-      t = a
+      const a0 = T1[t0 >>> 24] ^ T2[(t1 >>> 16) & 0xff] ^ T3[(t2 >>> 8) & 0xff] ^ T4[t3 & 0xff] ^ Ke[k]
+      const a1 = T1[t1 >>> 24] ^ T2[(t2 >>> 16) & 0xff] ^ T3[(t3 >>> 8) & 0xff] ^ T4[t0 & 0xff] ^ Ke[k + 1]
+      const a2 = T1[t2 >>> 24] ^ T2[(t3 >>> 16) & 0xff] ^ T3[(t0 >>> 8) & 0xff] ^ T4[t1 & 0xff] ^ Ke[k + 2]
+      const a3 = T1[t3 >>> 24] ^ T2[(t0 >>> 16) & 0xff] ^ T3[(t1 >>> 8) & 0xff] ^ T4[t2 & 0xff] ^ Ke[k + 3]
+      t0 = a0
+      t1 = a1
+      t2 = a2
+      t3 = a3
+      k += 4
     }
 
-    const result = new Uint8Array(16)
-    for (let i = 0; i < 4; i++) {
-      const tt = this._Ke[rounds][i]
-      result[4 * i] = (S[(t[i] >> 24) & 0xff] ^ (tt >> 24)) & 0xff
-      result[4 * i + 1] = (S[(t[(i + 1) % 4] >> 16) & 0xff] ^ (tt >> 16)) & 0xff
-      result[4 * i + 2] = (S[(t[(i + 2) % 4] >> 8) & 0xff] ^ (tt >> 8)) & 0xff
-      result[4 * i + 3] = (S[t[(i + 3) % 4] & 0xff] ^ tt) & 0xff
+    let tt = Ke[k]
+    dst[dstOffset] = S[t0 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 1] = S[(t1 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 2] = S[(t2 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 3] = S[t3 & 0xff] ^ tt
+    tt = Ke[k + 1]
+    dst[dstOffset + 4] = S[t1 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 5] = S[(t2 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 6] = S[(t3 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 7] = S[t0 & 0xff] ^ tt
+    tt = Ke[k + 2]
+    dst[dstOffset + 8] = S[t2 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 9] = S[(t3 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 10] = S[(t0 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 11] = S[t1 & 0xff] ^ tt
+    tt = Ke[k + 3]
+    dst[dstOffset + 12] = S[t3 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 13] = S[(t0 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 14] = S[(t1 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 15] = S[t2 & 0xff] ^ tt
+  }
+
+  /**
+   * Descifra el bloque de 16 bytes que empieza en `src[srcOffset]` y escribe el resultado en `dst[dstOffset]`.
+   * Mismas garantías que {@link encryptBlockInto}: sin reservas de memoria y apto para operar en el sitio.
+   */
+  public decryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AES")
+    const Kd = this._Kd
+    const rounds = this.rounds
+
+    let t0 = ((src[srcOffset] << 24) | (src[srcOffset + 1] << 16) | (src[srcOffset + 2] << 8) | src[srcOffset + 3]) ^ Kd[0]
+    let t1 = ((src[srcOffset + 4] << 24) | (src[srcOffset + 5] << 16) | (src[srcOffset + 6] << 8) | src[srcOffset + 7]) ^ Kd[1]
+    let t2 = ((src[srcOffset + 8] << 24) | (src[srcOffset + 9] << 16) | (src[srcOffset + 10] << 8) | src[srcOffset + 11]) ^ Kd[2]
+    let t3 = ((src[srcOffset + 12] << 24) | (src[srcOffset + 13] << 16) | (src[srcOffset + 14] << 8) | src[srcOffset + 15]) ^ Kd[3]
+
+    let k = 4
+    for (let r = 1; r < rounds; r++) {
+      const a0 = T5[t0 >>> 24] ^ T6[(t3 >>> 16) & 0xff] ^ T7[(t2 >>> 8) & 0xff] ^ T8[t1 & 0xff] ^ Kd[k]
+      const a1 = T5[t1 >>> 24] ^ T6[(t0 >>> 16) & 0xff] ^ T7[(t3 >>> 8) & 0xff] ^ T8[t2 & 0xff] ^ Kd[k + 1]
+      const a2 = T5[t2 >>> 24] ^ T6[(t1 >>> 16) & 0xff] ^ T7[(t0 >>> 8) & 0xff] ^ T8[t3 & 0xff] ^ Kd[k + 2]
+      const a3 = T5[t3 >>> 24] ^ T6[(t2 >>> 16) & 0xff] ^ T7[(t1 >>> 8) & 0xff] ^ T8[t0 & 0xff] ^ Kd[k + 3]
+      t0 = a0
+      t1 = a1
+      t2 = a2
+      t3 = a3
+      k += 4
     }
-    return result
+
+    let tt = Kd[k]
+    dst[dstOffset] = SI[t0 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 1] = SI[(t3 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 2] = SI[(t2 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 3] = SI[t1 & 0xff] ^ tt
+    tt = Kd[k + 1]
+    dst[dstOffset + 4] = SI[t1 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 5] = SI[(t0 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 6] = SI[(t3 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 7] = SI[t2 & 0xff] ^ tt
+    tt = Kd[k + 2]
+    dst[dstOffset + 8] = SI[t2 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 9] = SI[(t1 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 10] = SI[(t0 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 11] = SI[t3 & 0xff] ^ tt
+    tt = Kd[k + 3]
+    dst[dstOffset + 12] = SI[t3 >>> 24] ^ (tt >>> 24)
+    dst[dstOffset + 13] = SI[(t2 >>> 16) & 0xff] ^ (tt >>> 16)
+    dst[dstOffset + 14] = SI[(t1 >>> 8) & 0xff] ^ (tt >>> 8)
+    dst[dstOffset + 15] = SI[t0 & 0xff] ^ tt
   }
 
-  public decrypt(ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
-    if (ciphertext.length !== 16) {
-      throw new Error("Tamaño de texto cifrado inválido (debe ser 16 bytes)")
+  /**
+   * Cifra `blockCount` bloques consecutivos de `input` y escribe el resultado en `output`.
+   * Procesa los bloques por parejas, intercalando sus rondas para aprovechar el paralelismo del procesador.
+   * `input` y `output` pueden ser el mismo array.
+   */
+  public encryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AES")
+    if (input.length < blockCount * 16 || output.length < blockCount * 16) {
+      throw new InvalidLengthError("Tamaño de búfer insuficiente para el número de bloques indicado", { mode: "AES", parameter: "buffer", expected: { min: blockCount * 16 }, actual: Math.min(input.length, output.length) })
     }
 
-    const rounds = this._Kd.length - 1
-    let t = this.convertToInt32(ciphertext)
+    const Ke = this._Ke
+    const rounds = this.rounds
+    let tt: number
 
-    for (let i = 0; i < 4; i++) {
-      t[i] ^= this._Kd[0][i]
+    let n = 0
+    for (; n + 1 < blockCount; n += 2) {
+      const i = n * 16
+      const j = i + 16
+      let a0 = ((input[i] << 24) | (input[i + 1] << 16) | (input[i + 2] << 8) | input[i + 3]) ^ Ke[0]
+      let a1 = ((input[i + 4] << 24) | (input[i + 5] << 16) | (input[i + 6] << 8) | input[i + 7]) ^ Ke[1]
+      let a2 = ((input[i + 8] << 24) | (input[i + 9] << 16) | (input[i + 10] << 8) | input[i + 11]) ^ Ke[2]
+      let a3 = ((input[i + 12] << 24) | (input[i + 13] << 16) | (input[i + 14] << 8) | input[i + 15]) ^ Ke[3]
+      let b0 = ((input[j] << 24) | (input[j + 1] << 16) | (input[j + 2] << 8) | input[j + 3]) ^ Ke[0]
+      let b1 = ((input[j + 4] << 24) | (input[j + 5] << 16) | (input[j + 6] << 8) | input[j + 7]) ^ Ke[1]
+      let b2 = ((input[j + 8] << 24) | (input[j + 9] << 16) | (input[j + 10] << 8) | input[j + 11]) ^ Ke[2]
+      let b3 = ((input[j + 12] << 24) | (input[j + 13] << 16) | (input[j + 14] << 8) | input[j + 15]) ^ Ke[3]
+
+      let k = 4
+      for (let r = 1; r < rounds; r++) {
+        const an0 = T1[a0 >>> 24] ^ T2[(a1 >>> 16) & 0xff] ^ T3[(a2 >>> 8) & 0xff] ^ T4[a3 & 0xff] ^ Ke[k]
+        const an1 = T1[a1 >>> 24] ^ T2[(a2 >>> 16) & 0xff] ^ T3[(a3 >>> 8) & 0xff] ^ T4[a0 & 0xff] ^ Ke[k + 1]
+        const an2 = T1[a2 >>> 24] ^ T2[(a3 >>> 16) & 0xff] ^ T3[(a0 >>> 8) & 0xff] ^ T4[a1 & 0xff] ^ Ke[k + 2]
+        const an3 = T1[a3 >>> 24] ^ T2[(a0 >>> 16) & 0xff] ^ T3[(a1 >>> 8) & 0xff] ^ T4[a2 & 0xff] ^ Ke[k + 3]
+        const bn0 = T1[b0 >>> 24] ^ T2[(b1 >>> 16) & 0xff] ^ T3[(b2 >>> 8) & 0xff] ^ T4[b3 & 0xff] ^ Ke[k]
+        const bn1 = T1[b1 >>> 24] ^ T2[(b2 >>> 16) & 0xff] ^ T3[(b3 >>> 8) & 0xff] ^ T4[b0 & 0xff] ^ Ke[k + 1]
+        const bn2 = T1[b2 >>> 24] ^ T2[(b3 >>> 16) & 0xff] ^ T3[(b0 >>> 8) & 0xff] ^ T4[b1 & 0xff] ^ Ke[k + 2]
+        const bn3 = T1[b3 >>> 24] ^ T2[(b0 >>> 16) & 0xff] ^ T3[(b1 >>> 8) & 0xff] ^ T4[b2 & 0xff] ^ Ke[k + 3]
+        a0 = an0
+        a1 = an1
+        a2 = an2
+        a3 = an3
+        b0 = bn0
+        b1 = bn1
+        b2 = bn2
+        b3 = bn3
+        k += 4
+      }
+
+      tt = Ke[k]
+      output[i] = S[a0 >>> 24] ^ (tt >>> 24)
+      output[i + 1] = S[(a1 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 2] = S[(a2 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 3] = S[a3 & 0xff] ^ tt
+      tt = Ke[k + 1]
+      output[i + 4] = S[a1 >>> 24] ^ (tt >>> 24)
+      output[i + 5] = S[(a2 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 6] = S[(a3 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 7] = S[a0 & 0xff] ^ tt
+      tt = Ke[k + 2]
+      output[i + 8] = S[a2 >>> 24] ^ (tt >>> 24)
+      output[i + 9] = S[(a3 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 10] = S[(a0 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 11] = S[a1 & 0xff] ^ tt
+      tt = Ke[k + 3]
+      output[i + 12] = S[a3 >>> 24] ^ (tt >>> 24)
+      output[i + 13] = S[(a0 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 14] = S[(a1 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 15] = S[a2 & 0xff] ^ tt
+      tt = Ke[k]
+      output[j] = S[b0 >>> 24] ^ (tt >>> 24)
+      output[j + 1] = S[(b1 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 2] = S[(b2 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 3] = S[b3 & 0xff] ^ tt
+      tt = Ke[k + 1]
+      output[j + 4] = S[b1 >>> 24] ^ (tt >>> 24)
+      output[j + 5] = S[(b2 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 6] = S[(b3 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 7] = S[b0 & 0xff] ^ tt
+      tt = Ke[k + 2]
+      output[j + 8] = S[b2 >>> 24] ^ (tt >>> 24)
+      output[j + 9] = S[(b3 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 10] = S[(b0 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 11] = S[b1 & 0xff] ^ tt
+      tt = Ke[k + 3]
+      output[j + 12] = S[b3 >>> 24] ^ (tt >>> 24)
+      output[j + 13] = S[(b0 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 14] = S[(b1 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 15] = S[b2 & 0xff] ^ tt
     }
 
-    for (let r = 1; r < rounds; r++) {
-      const a = [0, 0, 0, 0]
-      for (let i = 0; i < 4; i++) {
-        a[i] = T5[(t[i] >> 24) & 0xff] ^ T6[(t[(i + 3) % 4] >> 16) & 0xff] ^ T7[(t[(i + 2) % 4] >> 8) & 0xff] ^ T8[t[(i + 1) % 4] & 0xff] ^ this._Kd[r][i]
+    if (n < blockCount) {
+      this.encryptBlockInto(input, n * 16, output, n * 16)
+    }
+  }
+
+  /**
+   * Descifra `blockCount` bloques consecutivos de `input` y escribe el resultado en `output`.
+   * Contraparte de {@link encryptBlocks}, con las mismas garantías.
+   */
+  public decryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void {
+    assertNotDisposed(this.disposed || this.expandedKey.disposed, "AES")
+    if (input.length < blockCount * 16 || output.length < blockCount * 16) {
+      throw new InvalidLengthError("Tamaño de búfer insuficiente para el número de bloques indicado", { mode: "AES", parameter: "buffer", expected: { min: blockCount * 16 }, actual: Math.min(input.length, output.length) })
+    }
+
+    const Kd = this._Kd
+    const rounds = this.rounds
+    let tt: number
+
+    let n = 0
+    for (; n + 1 < blockCount; n += 2) {
+      const i = n * 16
+      const j = i + 16
+      let a0 = ((input[i] << 24) | (input[i + 1] << 16) | (input[i + 2] << 8) | input[i + 3]) ^ Kd[0]
+      let a1 = ((input[i + 4] << 24) | (input[i + 5] << 16) | (input[i + 6] << 8) | input[i + 7]) ^ Kd[1]
+      let a2 = ((input[i + 8] << 24) | (input[i + 9] << 16) | (input[i + 10] << 8) | input[i + 11]) ^ Kd[2]
+      let a3 = ((input[i + 12] << 24) | (input[i + 13] << 16) | (input[i + 14] << 8) | input[i + 15]) ^ Kd[3]
+      let b0 = ((input[j] << 24) | (input[j + 1] << 16) | (input[j + 2] << 8) | input[j + 3]) ^ Kd[0]
+      let b1 = ((input[j + 4] << 24) | (input[j + 5] << 16) | (input[j + 6] << 8) | input[j + 7]) ^ Kd[1]
+      let b2 = ((input[j + 8] << 24) | (input[j + 9] << 16) | (input[j + 10] << 8) | input[j + 11]) ^ Kd[2]
+      let b3 = ((input[j + 12] << 24) | (input[j + 13] << 16) | (input[j + 14] << 8) | input[j + 15]) ^ Kd[3]
+
+      let k = 4
+      for (let r = 1; r < rounds; r++) {
+        const an0 = T5[a0 >>> 24] ^ T6[(a3 >>> 16) & 0xff] ^ T7[(a2 >>> 8) & 0xff] ^ T8[a1 & 0xff] ^ Kd[k]
+        const an1 = T5[a1 >>> 24] ^ T6[(a0 >>> 16) & 0xff] ^ T7[(a3 >>> 8) & 0xff] ^ T8[a2 & 0xff] ^ Kd[k + 1]
+        const an2 = T5[a2 >>> 24] ^ T6[(a1 >>> 16) & 0xff] ^ T7[(a0 >>> 8) & 0xff] ^ T8[a3 & 0xff] ^ Kd[k + 2]
+        const an3 = T5[a3 >>> 24] ^ T6[(a2 >>> 16) & 0xff] ^ T7[(a1 >>> 8) & 0xff] ^ T8[a0 & 0xff] ^ Kd[k + 3]
+        const bn0 = T5[b0 >>> 24] ^ T6[(b3 >>> 16) & 0xff] ^ T7[(b2 >>> 8) & 0xff] ^ T8[b1 & 0xff] ^ Kd[k]
+        const bn1 = T5[b1 >>> 24] ^ T6[(b0 >>> 16) & 0xff] ^ T7[(b3 >>> 8) & 0xff] ^ T8[b2 & 0xff] ^ Kd[k + 1]
+        const bn2 = T5[b2 >>> 24] ^ T6[(b1 >>> 16) & 0xff] ^ T7[(b0 >>> 8) & 0xff] ^ T8[b3 & 0xff] ^ Kd[k + 2]
+        const bn3 = T5[b3 >>> 24] ^ T6[(b2 >>> 16) & 0xff] ^ T7[(b1 >>> 8) & 0xff] ^ T8[b0 & 0xff] ^ Kd[k + 3]
+        a0 = an0
+        a1 = an1
+        a2 = an2
+        a3 = an3
+        b0 = bn0
+        b1 = bn1
+        b2 = bn2
+        b3 = bn3
+        k += 4
       }
-      t = a
+
+      tt = Kd[k]
+      output[i] = SI[a0 >>> 24] ^ (tt >>> 24)
+      output[i + 1] = SI[(a3 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 2] = SI[(a2 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 3] = SI[a1 & 0xff] ^ tt
+      tt = Kd[k + 1]
+      output[i + 4] = SI[a1 >>> 24] ^ (tt >>> 24)
+      output[i + 5] = SI[(a0 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 6] = SI[(a3 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 7] = SI[a2 & 0xff] ^ tt
+      tt = Kd[k + 2]
+      output[i + 8] = SI[a2 >>> 24] ^ (tt >>> 24)
+      output[i + 9] = SI[(a1 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 10] = SI[(a0 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 11] = SI[a3 & 0xff] ^ tt
+      tt = Kd[k + 3]
+      output[i + 12] = SI[a3 >>> 24] ^ (tt >>> 24)
+      output[i + 13] = SI[(a2 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[i + 14] = SI[(a1 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[i + 15] = SI[a0 & 0xff] ^ tt
+      tt = Kd[k]
+      output[j] = SI[b0 >>> 24] ^ (tt >>> 24)
+      output[j + 1] = SI[(b3 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 2] = SI[(b2 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 3] = SI[b1 & 0xff] ^ tt
+      tt = Kd[k + 1]
+      output[j + 4] = SI[b1 >>> 24] ^ (tt >>> 24)
+      output[j + 5] = SI[(b0 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 6] = SI[(b3 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 7] = SI[b2 & 0xff] ^ tt
+      tt = Kd[k + 2]
+      output[j + 8] = SI[b2 >>> 24] ^ (tt >>> 24)
+      output[j + 9] = SI[(b1 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 10] = SI[(b0 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 11] = SI[b3 & 0xff] ^ tt
+      tt = Kd[k + 3]
+      output[j + 12] = SI[b3 >>> 24] ^ (tt >>> 24)
+      output[j + 13] = SI[(b2 >>> 16) & 0xff] ^ (tt >>> 16)
+      output[j + 14] = SI[(b1 >>> 8) & 0xff] ^ (tt >>> 8)
+      output[j + 15] = SI[b0 & 0xff] ^ tt
     }
 
-    const result = new Uint8Array(16)
-    for (let i = 0; i < 4; i++) {
-      const tt = this._Kd[rounds][i]
-      result[4 * i] = (SI[(t[i] >> 24) & 0xff] ^ (tt >> 24)) & 0xff
-      result[4 * i + 1] = (SI[(t[(i + 3) % 4] >> 16) & 0xff] ^ (tt >> 16)) & 0xff
-      result[4 * i + 2] = (SI[(t[(i + 2) % 4] >> 8) & 0xff] ^ (tt >> 8)) & 0xff
-      result[4 * i + 3] = (SI[t[(i + 1) % 4] & 0xff] ^ tt) & 0xff
+    if (n < blockCount) {
+      this.decryptBlockInto(input, n * 16, output, n * 16)
     }
-    return result
+  }
+
+  /**
+   * Sobrescribe con ceros las claves de ronda si la expansión es propia; una expansión compartida la destruye su
+   * dueño. A partir de aquí cualquier operación lanza un error. Llamar varias veces es seguro.
+   */
+  public dispose(): void {
+    this.disposed = true
+    if (this.ownsExpandedKey) {
+      this.expandedKey.dispose()
+    }
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
   }
 }
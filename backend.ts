@@ -0,0 +1,114 @@
+import { AESOptions } from "./aes"
+import { UnsupportedOperationError } from "./errors"
+
+// Este archivo contiene la capa de aceleración nativa opcional.
+//
+// Los modos que OpenSSL también implementa (ECB, CBC, CTR, CFB, OFB, GCM, CCM, OCB, KW y XTS) pueden delegar
+// el trabajo en `node:crypto` cuando está disponible (Node.js, Bun, Deno). La API WebCrypto de los navegadores
+// y entornos edge es exclusivamente asíncrona y no puede respaldar la interfaz síncrona de los modos, por lo que
+// allí se utiliza siempre la implementación pura en TypeScript. Ambos caminos producen exactamente los mismos bytes;
+// los formatos heredados (`legacyFormat`) no tienen equivalente nativo y usan siempre el camino puro.
+
+/**
+ * Subconjunto de un objeto `Cipher`/`Decipher` de `node:crypto` usado por los modos.
+ */
+export interface NativeCipher {
+  update(data: Uint8Array): Uint8Array
+  final(): Uint8Array
+  setAutoPadding(autoPadding?: boolean): NativeCipher
+  setAAD(buffer: Uint8Array, options?: { plaintextLength: number }): NativeCipher
+  getAuthTag(): Uint8Array
+  setAuthTag(tag: Uint8Array): NativeCipher
+}
+
+/**
+ * Subconjunto del módulo `node:crypto` usado por los modos.
+ */
+export interface NativeCrypto {
+  createCipheriv(algorithm: string, key: Uint8Array, iv: Uint8Array | null, options?: { authTagLength?: number }): NativeCipher
+  createDecipheriv(algorithm: string, key: Uint8Array, iv: Uint8Array | null, options?: { authTagLength?: number }): NativeCipher
+  getCiphers(): string[]
+}
+
+let nativeCrypto: NativeCrypto | null | undefined
+let nativeCiphers: Set<string> | undefined
+
+/**
+ * Detecta `node:crypto` mediante `process.getBuiltinModule`, sin importarlo estáticamente para que
+ * el mismo código funcione en navegadores. El resultado se cachea.
+ */
+function detectNativeCrypto(): NativeCrypto | null {
+  if (nativeCrypto !== undefined) {
+    return nativeCrypto
+  }
+
+  nativeCrypto = null
+  try {
+    const proc = (globalThis as { process?: { getBuiltinModule?: (id: string) => unknown } }).process
+    const mod = proc?.getBuiltinModule?.("node:crypto") as NativeCrypto | undefined
+    if (mod && typeof mod.createCipheriv === "function") {
+      nativeCrypto = mod
+      nativeCiphers = new Set(mod.getCiphers())
+    }
+  } catch {
+    nativeCrypto = null
+  }
+  return nativeCrypto
+}
+
+/**
+ * Indica si el entorno actual dispone del backend nativo.
+ */
+export function isNativeBackendAvailable(): boolean {
+  return detectNativeCrypto() !== null
+}
+
+/**
+ * Decide si un modo debe usar el backend nativo.
+ *
+ * - `backend: "pure"` nunca lo usa.
+ * - `backend: "native"` lo exige y lanza un error si el entorno o el algoritmo no lo permiten.
+ * - `backend: "auto"` (por defecto) lo usa cuando está disponible, salvo que se haya pedido `core: "constant-time"`,
+ *   ya que no podemos garantizar qué implementación de AES usa OpenSSL en la máquina.
+ *
+ * @param options Opciones de construcción del modo.
+ * @param algorithm Nombre OpenSSL del algoritmo (p. ej. `"aes-128-gcm"`), o `null` si la configuración
+ *   pedida no tiene equivalente nativo.
+ * @returns El módulo nativo a usar, o `null` para la implementación pura.
+ */
+export function resolveNativeBackend(options: AESOptions, algorithm: string | null): NativeCrypto | null {
+  const backend = options.backend ?? "auto"
+  if (backend === "pure") {
+    return null
+  }
+
+  const native = detectNativeCrypto()
+  const supported = native !== null && algorithm !== null && nativeCiphers!.has(algorithm)
+
+  if (backend === "native") {
+    if (!supported) {
+      throw new UnsupportedOperationError(`Backend nativo no disponible para ${algorithm ?? "esta configuración"}`, { operation: "backend" })
+    }
+    return native
+  }
+  if (backend !== "auto") {
+    throw new UnsupportedOperationError(`Backend no soportado: ${backend}`, { operation: "backend" })
+  }
+
+  if (options.core === "constant-time") {
+    return null
+  }
+  return supported ? native : null
+}
+
+/**
+ * Pasa `data` por un cifrador nativo ya configurado y devuelve la salida completa en un `Uint8Array` propio.
+ */
+export function runNativeCipher(cipher: NativeCipher, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const head = cipher.update(data)
+  const tail = cipher.final()
+  const output = new Uint8Array(head.length + tail.length)
+  output.set(head)
+  output.set(tail, head.length)
+  return output
+}
@@ -39,8 +39,8 @@ if (typeof crypto !== "undefined" && crypto.getRandomValues) {
   }
 }
 
-// IV de 12 bytes para CWC (requerido por el modo)
-const iv = new Uint8Array(12)
+// Nonce de 11 bytes (88 bits) para CWC (requerido por el modo)
+const iv = new Uint8Array(11)
 if (typeof crypto !== "undefined" && crypto.getRandomValues) {
   crypto.getRandomValues(iv)
 } else {
@@ -0,0 +1,78 @@
+import { HighLevelAES, AesMode } from "../high-level"
+
+// Función para medir el tiempo de ejecución
+function measureTime(fn: () => void): number {
+  const start = performance.now()
+  fn()
+  const end = performance.now()
+  return end - start
+}
+
+// Función para formatear el resultado
+function formatResult(mode: string, operation: string, timeMs: number, dataSize: number): string {
+  const seconds = timeMs / 1000
+  const megabytes = dataSize / (1024 * 1024)
+  const mbps = megabytes / seconds
+  return `${mode} ${operation}: ${mbps.toFixed(2)} MB/s (${megabytes.toFixed(2)} MB in ${seconds.toFixed(3)}s)`
+}
+
+// FF3-1 admite como máximo 56 dígitos, así que en lugar de una cadena larga se cifran muchos números de tarjeta
+// de 16 dígitos
+const CARD_COUNT = 10000
+const CARD_LENGTH = 16
+const TEST_DATA_LENGTH = CARD_COUNT * CARD_LENGTH
+const testData: string[] = []
+for (let i = 0; i < CARD_COUNT; i++) {
+  let card = ""
+  for (let j = 0; j < CARD_LENGTH; j++) {
+    card += Math.floor(Math.random() * 10)
+  }
+  testData.push(card)
+}
+
+// Clave de 256 bits
+const key = new Uint8Array(32)
+if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+  crypto.getRandomValues(key)
+} else {
+  for (let i = 0; i < key.length; i++) {
+    key[i] = Math.floor(Math.random() * 256)
+  }
+}
+
+// Tweak de 56 bits para FPE-FF3-1
+const tweak = new Uint8Array(7)
+if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+  crypto.getRandomValues(tweak)
+} else {
+  for (let i = 0; i < tweak.length; i++) {
+    tweak[i] = Math.floor(Math.random() * 256)
+  }
+}
+
+console.log(`Benchmarking FPE-FF3-1 mode with ${TEST_DATA_LENGTH} digits of data`)
+
+// Crear instancia de HighLevelAES para FPE-FF3-1
+// Nota: FPE-FF3-1 requiere un alfabeto, usaremos dígitos (0-9)
+const fpeCipher = new HighLevelAES(AesMode.FPE_FF3_1, key)
+
+// Benchmark de cifrado
+console.log("Running encryption benchmark...")
+const encryptTime = measureTime(() => {
+  const encrypted = testData.map(card => fpeCipher.encryptTextWithAlphabet(card, "0123456789", { tweak }))
+})
+
+console.log(`${"FPE-FF3-1"} ${"encryption"}: ${TEST_DATA_LENGTH} digits processed in ${(encryptTime / 1000).toFixed(3)}s`)
+
+// Usar los mismos datos cifrados para el benchmark de descifrado
+const encryptedData = testData.map(card => fpeCipher.encryptTextWithAlphabet(card, "0123456789", { tweak }))
+
+// Benchmark de descifrado
+console.log("Running decryption benchmark...")
+const decryptTime = measureTime(() => {
+  const decrypted = encryptedData.map(card => fpeCipher.decryptTextWithAlphabet(card, "0123456789", { tweak }))
+})
+
+console.log(`${"FPE-FF3-1"} ${"decryption"}: ${TEST_DATA_LENGTH} digits processed in ${(decryptTime / 1000).toFixed(3)}s`)
+
+console.log("FPE-FF3-1 benchmark completed.")
@@ -1,4 +1,5 @@
 import { HighLevelAES, AesMode } from "../high-level"
+import { ModeOfOperationGCM } from "../modes/gcm"
 
 // Función para medir el tiempo de ejecución
 function measureTime(fn: () => void): number {
@@ -62,8 +63,8 @@ const encryptTime = measureTime(() => {
 
 console.log(formatResult("GCM", "encryption", encryptTime, DATA_SIZE))
 
-// Usar los mismos datos cifrados para el benchmark de descifrado
-const encryptedData = gcmCipher.encrypt(testData, { iv })
+// Cifrar de nuevo para el benchmark de descifrado, con un IV aleatorio: repetir el anterior reutilizaría el nonce
+const encryptedData = gcmCipher.encrypt(testData)
 
 // Benchmark de descifrado
 console.log("Running decryption benchmark...")
@@ -76,4 +77,25 @@ const decryptTime = measureTime(() => {
 
 console.log(formatResult("GCM", "decryption", decryptTime, DATA_SIZE))
 
+// Implementación en TypeScript puro, donde GHASH sí pesa (con node:crypto lo calcula OpenSSL), con cada tamaño de tabla
+// y sin tablas (el valor por defecto con el núcleo de tiempo constante)
+for (const ghashTableBits of [8, 4, 0] as const) {
+  const gcm = new ModeOfOperationGCM(key, { backend: "pure", ghashTableBits })
+  const label = ghashTableBits === 0 ? "GCM (pure, table-free GHASH)" : `GCM (pure, ${ghashTableBits}-bit GHASH tables)`
+  const nonce = new Uint8Array(12)
+  crypto.getRandomValues(nonce)
+
+  let encrypted!: { ciphertext: Uint8Array; tag: Uint8Array }
+  const pureEncryptTime = measureTime(() => {
+    encrypted = gcm.encrypt(nonce, testData)
+  })
+  console.log(formatResult(label, "encryption", pureEncryptTime, DATA_SIZE))
+
+  const pureDecryptTime = measureTime(() => {
+    const decrypted = gcm.decrypt(nonce, encrypted.ciphertext, encrypted.tag)
+  })
+  console.log(formatResult(label, "decryption", pureDecryptTime, DATA_SIZE))
+  gcm.dispose()
+}
+
 console.log("GCM benchmark completed.")
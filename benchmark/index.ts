@@ -13,6 +13,7 @@ const modes = [
   "gcm",
   "ccm",
   "eax",
+  "eax-prime",
   "cwc",
   "gcm-siv",
   "ocb",
@@ -20,10 +21,12 @@ const modes = [
   "kw",
   "kwp",
   "fpe-ff1",
+  "fpe-ff3-1",
   "hybrid-ctr",
   "cbc-mac",
   "cmac",
-  "pmac-siv"
+  "pmac-siv",
+  "siv"
 ]
 
 async function runAllBenchmarks() {
@@ -0,0 +1,27 @@
+import { DisposedError } from "./errors"
+
+// Utilidades compartidas por el núcleo AES y los modos para destruir material de clave.
+//
+// Todas las clases que guardan claves o valores derivados de ellas exponen `dispose()` y `[Symbol.dispose]()`,
+// de modo que pueden usarse con `using`. Tras destruirse, sus buffers quedan a cero y cualquier operación
+// posterior lanza un error en lugar de trabajar con una clave nula.
+
+/**
+ * Sobrescribe con ceros los buffers indicados. Los valores `null` o `undefined` se ignoran.
+ */
+export function wipe(...buffers: Array<Uint8Array | Uint32Array | null | undefined>): void {
+  for (const buffer of buffers) {
+    buffer?.fill(0)
+  }
+}
+
+/**
+ * Lanza un `DisposedError` si la instancia ya fue destruida con `dispose()`.
+ * @param disposed Estado de la instancia.
+ * @param name Nombre del objeto destruido, para el mensaje de error.
+ */
+export function assertNotDisposed(disposed: boolean, name: string): void {
+  if (disposed) {
+    throw new DisposedError(name)
+  }
+}
@@ -0,0 +1,199 @@
+// Jerarquía de errores de la biblioteca.
+//
+// Todos los errores extienden `AESError`, que a su vez extiende `Error`, y llevan un `code` estable pensado para
+// comparaciones en código: los mensajes están en español y pueden cambiar, los códigos no. Los campos adicionales
+// de cada clase (longitudes esperadas y recibidas, modo, parámetro) permiten reaccionar sin analizar el mensaje.
+//
+// Los fallos de autenticación al descifrar siguen devolviendo `null` en los modos; solo `HighLevelAES` los
+// convierte en `AuthenticationError`. Quien prefiera no distinguir entre `null` y excepciones puede usar
+// `tryDecrypt()`, que devuelve un {@link DecryptResult} en ambos casos.
+
+/**
+ * Códigos de error estables.
+ */
+export type AESErrorCode =
+  | "INVALID_KEY_LENGTH"
+  | "INVALID_NONCE"
+  | "INVALID_LENGTH"
+  | "INVALID_PARAMETER"
+  | "AUTHENTICATION_FAILED"
+  | "INVALID_PADDING"
+  | "UNSUPPORTED_OPERATION"
+  | "DISPOSED"
+
+/**
+ * Restricción de longitud incumplida, en bytes salvo que el parámetro indique otra unidad.
+ * Los campos ausentes no forman parte de la restricción.
+ */
+export interface LengthRequirement {
+  min?: number
+  max?: number
+  multipleOf?: number
+}
+
+/**
+ * Clase base de todos los errores de la biblioteca.
+ */
+export abstract class AESError extends Error {
+  public abstract readonly code: AESErrorCode
+  /** Nombre del modo u objeto que lanzó el error (p. ej. `"gcm"`, `"AES"`), si aplica. */
+  public readonly mode?: string
+
+  constructor(message: string, mode?: string) {
+    super(message)
+    this.name = new.target.name
+    this.mode = mode
+  }
+}
+
+/**
+ * La clave no tiene una longitud admitida.
+ */
+export class InvalidKeyLengthError extends AESError {
+  public readonly code = "INVALID_KEY_LENGTH"
+  /** Longitudes admitidas, en bytes. */
+  public readonly expected: number[]
+  /** Longitud recibida, en bytes. */
+  public readonly actual: number
+
+  constructor(message: string, details: { mode?: string; expected: number[]; actual: number }) {
+    super(message, details.mode)
+    this.expected = details.expected
+    this.actual = details.actual
+  }
+}
+
+/**
+ * Falta el nonce, IV o tweak, o su longitud no es válida.
+ */
+export class InvalidNonceError extends AESError {
+  public readonly code = "INVALID_NONCE"
+  /** Parámetro afectado. */
+  public readonly parameter: "iv" | "nonce" | "tweak"
+  /** Longitudes admitidas, en bytes; vacío si el modo acepta cualquier longitud. */
+  public readonly expected: number[]
+  /** Longitud recibida, o `null` si no se proporcionó. */
+  public readonly actual: number | null
+
+  constructor(message: string, details: { mode?: string; parameter: "iv" | "nonce" | "tweak"; expected: number[]; actual: number | null }) {
+    super(message, details.mode)
+    this.parameter = details.parameter
+    this.expected = details.expected
+    this.actual = details.actual
+  }
+}
+
+/**
+ * Los datos o un tamaño configurable (etiqueta, segmento, búfer) no cumplen la longitud requerida.
+ */
+export class InvalidLengthError extends AESError {
+  public readonly code = "INVALID_LENGTH"
+  /** Parámetro afectado (p. ej. `"plaintext"`, `"ciphertext"`, `"tagSize"`). */
+  public readonly parameter: string
+  public readonly expected: LengthRequirement
+  public readonly actual: number
+
+  constructor(message: string, details: { mode?: string; parameter: string; expected: LengthRequirement; actual: number }) {
+    super(message, details.mode)
+    this.parameter = details.parameter
+    this.expected = details.expected
+    this.actual = details.actual
+  }
+}
+
+/**
+ * Un parámetro falta o tiene un valor no válido por motivos distintos de su longitud.
+ */
+export class InvalidParameterError extends AESError {
+  public readonly code = "INVALID_PARAMETER"
+  /** Parámetro afectado (p. ej. `"tag"`, `"alphabet"`, `"counter"`). */
+  public readonly parameter: string
+
+  constructor(message: string, details: { mode?: string; parameter: string }) {
+    super(message, details.mode)
+    this.parameter = details.parameter
+  }
+}
+
+/**
+ * La etiqueta de autenticación o la comprobación de integridad no coinciden.
+ */
+export class AuthenticationError extends AESError {
+  public readonly code = "AUTHENTICATION_FAILED"
+
+  constructor(message: string, details: { mode?: string } = {}) {
+    super(message, details.mode)
+  }
+}
+
+/**
+ * El relleno de los datos descifrados no es válido.
+ */
+export class InvalidPaddingError extends AESError {
+  public readonly code = "INVALID_PADDING"
+  /** Esquema de relleno comprobado. */
+  public readonly scheme: "pkcs7"
+  public readonly blockSize: number
+
+  constructor(message: string, details: { scheme: "pkcs7"; blockSize: number }) {
+    super(message)
+    this.scheme = details.scheme
+    this.blockSize = details.blockSize
+  }
+}
+
+/**
+ * La operación o configuración pedida no está disponible en este modo, núcleo o entorno.
+ */
+export class UnsupportedOperationError extends AESError {
+  public readonly code = "UNSUPPORTED_OPERATION"
+  /** Operación o configuración rechazada (p. ej. `"decrypt"`, `"backend"`, `"blockSize"`). */
+  public readonly operation: string
+
+  constructor(message: string, details: { mode?: string; operation: string }) {
+    super(message, details.mode)
+    this.operation = details.operation
+  }
+}
+
+/**
+ * Se intentó usar una instancia ya destruida con `dispose()`.
+ */
+export class DisposedError extends AESError {
+  public readonly code = "DISPOSED"
+
+  /**
+   * @param instance Nombre del objeto destruido, que se guarda también en `mode`.
+   */
+  constructor(instance: string) {
+    super(`La instancia de ${instance} ha sido destruida (disposed) y ya no puede usarse`, instance)
+  }
+}
+
+/**
+ * Resultado de `tryDecrypt()`: el texto plano, o el motivo del fallo si la autenticación, la comprobación de
+ * integridad o la validación de los parámetros no tuvieron éxito.
+ */
+export type DecryptResult = { ok: true; plaintext: Uint8Array } | { ok: false; reason: AESError }
+
+/**
+ * Ejecuta un descifrado de los que devuelven `null` o lanzan un `AESError` y lo convierte en un {@link DecryptResult}.
+ * Los errores que no son de la biblioteca se propagan.
+ * @param mode Nombre del modo, para el `AuthenticationError` que sustituye a `null`.
+ * @param message Mensaje del `AuthenticationError`.
+ * @param decrypt La operación de descifrado.
+ */
+export function toDecryptResult(mode: string, message: string, decrypt: () => Uint8Array | null): DecryptResult {
+  try {
+    const plaintext = decrypt()
+    if (plaintext === null) {
+      return { ok: false, reason: new AuthenticationError(message, { mode }) }
+    }
+    return { ok: true, plaintext }
+  } catch (error) {
+    if (error instanceof AESError) {
+      return { ok: false, reason: error }
+    }
+    throw error
+  }
+}
@@ -1,4 +1,6 @@
 import { HighLevelAES, AesMode } from "../high-level"
+import { ModeOfOperationGCM } from "../modes/gcm"
+import { InvalidNonceError } from "../errors"
 
 /**
  * Comprehensive examples demonstrating all AES modes with their specific properties
@@ -289,7 +291,7 @@ function exampleCWC() {
   console.log("=== CWC (Carter-Wegman Counter) Mode ===")
   
   const key = createTestKey(32) // 256-bit key
-  const iv = createTestNonce(12) // 12-byte IV (required by CWC)
+  const iv = createTestNonce(11) // 11-byte (88-bit) nonce, required by CWC
   const aad = createTestAAD() // Associated authenticated data
   const aes = new HighLevelAES(AesMode.CWC, key)
   
@@ -717,6 +719,132 @@ function exampleCMAC() {
   console.log()
 }
 
+// Example 21: SIV Mode (RFC 5297)
+function exampleSIV() {
+  console.log("=== SIV (Synthetic Initialization Vector, RFC 5297) Mode ===")
+  
+  const key = createTestKey(32) // 256-bit key: two 128-bit subkeys (S2V and CTR)
+  const aad = createTestAAD() // Associated authenticated data
+  const aes = new HighLevelAES(AesMode.SIV, key)
+  
+  const plaintext = createTestData(35) // Any length
+  console.log("Plaintext:", toHexString(plaintext))
+  console.log("AAD:", new TextDecoder().decode(aad))
+  
+  try {
+    // Without a nonce SIV is deterministic: the same input always gives the same output
+    const encrypted = aes.encrypt(plaintext, { aad })
+    const again = aes.encrypt(plaintext, { aad })
+    console.log("Ciphertext:", toHexString(encrypted.ciphertext))
+    console.log("Synthetic IV (tag):", toHexString(encrypted.tag!))
+    console.log("Deterministic:", toHexString(encrypted.tag!) === toHexString(again.tag!))
+    
+    const decrypted = aes.decrypt(encrypted.ciphertext, { tag: encrypted.tag, aad })
+    console.log("Decrypted:", toHexString(decrypted))
+    console.log("Match:", plaintext.every((value, index) => value === decrypted[index]))
+    
+    // With a nonce, it is added as the last associated data component
+    const nonce = createTestNonce(16)
+    const withNonce = aes.encrypt(plaintext, { nonce, aad })
+    console.log("Ciphertext with nonce:", toHexString(withNonce.ciphertext))
+    
+    const tampered = new Uint8Array(encrypted.ciphertext)
+    tampered[0] ^= 1
+    const result = aes.tryDecrypt(tampered, { tag: encrypted.tag, aad })
+    console.log("Tampered ciphertext rejected:", !result.ok)
+  } catch (error) {
+    console.error("SIV Error:", error)
+  }
+  
+  console.log()
+}
+
+// Example 22: EAX′ Mode (ANSI C12.22)
+function exampleEAXPrime() {
+  console.log("=== EAX′ (EAX-prime, ANSI C12.22) Mode ===")
+  
+  const key = createTestKey(16) // 128-bit key, dedicated to EAX′
+  const cleartext = new TextEncoder().encode("C12.22 ap-title 1.2.3 seq 0042") // Acts as the nonce; more than 16 bytes
+  const aes = new HighLevelAES(AesMode.EAX_PRIME, key) // Always a 4-byte tag
+  
+  const plaintext = createTestData(20)
+  console.log("Plaintext:", toHexString(plaintext))
+  console.log("Cleartext:", new TextDecoder().decode(cleartext))
+  
+  try {
+    const encrypted = aes.encrypt(plaintext, { aad: cleartext })
+    console.log("Ciphertext:", toHexString(encrypted.ciphertext))
+    console.log("Tag:", toHexString(encrypted.tag!))
+    
+    const decrypted = aes.decrypt(encrypted.ciphertext, { tag: encrypted.tag, aad: cleartext })
+    console.log("Decrypted:", toHexString(decrypted!))
+    console.log("Match:", plaintext.every((value, index) => value === decrypted![index]))
+    
+    // Short cleartexts are rejected: with 16 bytes or less, EAX′ tags can be forged
+    const result = aes.tryDecrypt(encrypted.ciphertext, { tag: encrypted.tag, aad: cleartext.subarray(0, 16) })
+    console.log("Short cleartext rejected:", !result.ok)
+  } catch (error) {
+    console.error("EAX′ Error:", error)
+  }
+  
+  console.log()
+}
+
+// Example 23: Streaming GCM
+function exampleGCMStream() {
+  console.log("=== GCM Streaming (updateAAD / update / final) ===")
+  
+  const key = createTestKey(32) // 256-bit key
+  const iv = createTestNonce(12) // 96-bit IV
+  const aad = createTestAAD()
+  const gcm = new ModeOfOperationGCM(key) // One instance per key; the nonce goes with each message
+  
+  const plaintext = createTestData(100)
+  console.log("Plaintext:", toHexString(plaintext))
+  
+  try {
+    // Chunks of any size: they don't need to line up with 16-byte blocks
+    const encryptor = gcm.createEncryptStream(iv)
+    encryptor.updateAAD(aad.subarray(0, 5))
+    encryptor.updateAAD(aad.subarray(5))
+    const parts = [encryptor.update(plaintext.subarray(0, 7)), encryptor.update(plaintext.subarray(7, 61)), encryptor.update(plaintext.subarray(61))]
+    const tag = encryptor.final()
+    const ciphertext = new Uint8Array(plaintext.length)
+    let offset = 0
+    for (const part of parts) {
+      ciphertext.set(part, offset)
+      offset += part.length
+    }
+    console.log("Ciphertext:", toHexString(ciphertext))
+    console.log("Tag:", toHexString(tag))
+    
+    // Same bytes as the one-shot API, on another instance: this one already encrypted with the nonce
+    const oneShot = new ModeOfOperationGCM(key).encrypt(iv, plaintext, aad)
+    console.log("Same as encrypt():", oneShot.tag.every((value, index) => value === tag[index]))
+    
+    // Reusing a nonce with the same instance is rejected
+    let reuseRejected = false
+    try {
+      gcm.encrypt(iv, plaintext, aad)
+    } catch (error) {
+      reuseRejected = error instanceof InvalidNonceError
+    }
+    console.log("Nonce reuse rejected:", reuseRejected)
+    
+    // Decrypted chunks are unauthenticated until finalVerify() returns true
+    const decryptor = gcm.createDecryptStream(iv)
+    decryptor.updateAAD(aad)
+    const decrypted = decryptor.update(ciphertext)
+    console.log("Authentic:", decryptor.finalVerify(tag))
+    console.log("Match:", plaintext.every((value, index) => value === decrypted[index]))
+  } catch (error) {
+    console.error("GCM Streaming Error:", error)
+  }
+  
+  gcm.dispose()
+  console.log()
+}
+
 // Run all examples
 function runAllExamples() {
   console.log("Starting comprehensive AES mode examples...\n")
@@ -741,6 +869,9 @@ function runAllExamples() {
   exampleTKW()
   exampleHybridCTR()
   exampleCMAC()
+  exampleSIV()
+  exampleEAXPrime()
+  exampleGCMStream()
   
   console.log("All examples completed!")
 }
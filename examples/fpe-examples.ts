@@ -1,7 +1,10 @@
 import { ModeOfOperationFPE_FF1 } from "../modes/fpe-ff1"
+import { ModeOfOperationFPE_FF3_1 } from "../modes/fpe-ff3-1"
+import { DIGITS, FPE_TEMPLATES, FPETemplateCipher } from "../fpe-templates"
+import { FPEIntegerCipher } from "../fpe-integer"
 
 /**
- * FPE-FF1 Mode Examples
+ * FPE-FF1 and FPE-FF3-1 Mode Examples
  * Demonstrating Format-Preserving Encryption capabilities
  */
 
@@ -143,16 +146,143 @@ function exampleVariableLength() {
   console.log()
 }
 
+// Example 5: FF3-1 Encryption
+function exampleFF3_1() {
+  console.log("=== FF3-1 Encryption ===")
+  
+  const key = createTestKey(16) // 128-bit key
+  const alphabet = "0123456789" // Numeric alphabet
+  const fpe = new ModeOfOperationFPE_FF3_1(key, alphabet)
+  
+  const cardNumber = "4000123456789010"
+  const tweak = createTestTweak(7) // FF3-1 requires a 56-bit tweak
+  
+  console.log("Original Card Number:", cardNumber)
+  console.log("Tweak:", Array.from(tweak).map(b => b.toString(16).padStart(2, '0')).join(''))
+  
+  try {
+    const encrypted = fpe.encrypt(cardNumber, tweak)
+    console.log("Encrypted Card Number:", encrypted)
+    
+    const decrypted = fpe.decrypt(encrypted, tweak)
+    console.log("Decrypted Card Number:", decrypted)
+    console.log("Match:", cardNumber === decrypted)
+  } catch (error) {
+    console.error("FF3-1 Error:", error)
+  }
+  
+  console.log()
+}
+
+// Example 6: Format Templates
+function exampleTemplates() {
+  console.log("=== Format Templates ===")
+  
+  const key = createTestKey(32) // 256-bit key
+  const tweak = createTestTweak(8)
+  const samples: [string, FPETemplateCipher, string][] = [
+    ["PAN (BIN and last 4 kept)", new FPETemplateCipher(key, FPE_TEMPLATES.PAN), "4111-1111-1111-1111"],
+    ["PAN (Luhn recomputed)", new FPETemplateCipher(key, FPE_TEMPLATES.PAN_LUHN), "4111 1111 1111 1111"],
+    ["SSN", new FPETemplateCipher(key, FPE_TEMPLATES.SSN), "123-45-6789"],
+    ["IBAN", new FPETemplateCipher(key, FPE_TEMPLATES.IBAN), "DE89 3704 0044 0532 0130 00"],
+    ["Phone", new FPETemplateCipher(key, FPE_TEMPLATES.PHONE), "+1 (555) 123-4567"],
+    ["Custom mask", new FPETemplateCipher(key, { alphabet: DIGITS, mask: "####-####-####-####", preserveTrailing: 4 }), "4532-1234-5678-9012"],
+  ]
+  
+  samples.forEach(([label, cipher, value]) => {
+    try {
+      const encrypted = cipher.encrypt(value, tweak)
+      const decrypted = cipher.decrypt(encrypted, tweak)
+      console.log(`${label}: ${value} -> ${encrypted} (match: ${value === decrypted})`)
+    } catch (error) {
+      console.error(`${label} Template Error:`, error)
+    } finally {
+      cipher.dispose()
+    }
+  })
+  
+  console.log()
+}
+
+// Example 7: Unicode Alphabets
+function exampleUnicode() {
+  console.log("=== Unicode Alphabets ===")
+  
+  const key = createTestKey(32) // 256-bit key
+  const tweak = createTestTweak(8)
+  
+  // Astral characters count as a single symbol
+  const emoji = new ModeOfOperationFPE_FF1(key, "😀😁😂🤣😃😄😅😆😉😊")
+  // Accented letters match whether they arrive precomposed or decomposed
+  const names = new ModeOfOperationFPE_FF1(key, "abcdefghijklmnñopqrstuvwxyzáéíóúü", { normalization: "NFC" })
+  // Skin tone variants are full grapheme clusters
+  const graphemes = new ModeOfOperationFPE_FF1(key, "👍👍🏻👍🏼👍🏽👍🏾👍🏿", { segmentation: "grapheme" })
+  
+  const samples: [string, ModeOfOperationFPE_FF1, string][] = [
+    ["Emoji", emoji, "😀😂😃😅😉😊"],
+    ["Name (decomposed input)", names, "nun\u0303ez".normalize("NFD")],
+    ["Graphemes", graphemes, "👍🏽👍👍🏿👍🏻👍🏼👍🏾👍👍🏽"],
+  ]
+  
+  samples.forEach(([label, fpe, value]) => {
+    try {
+      const encrypted = fpe.encrypt(value, tweak)
+      const decrypted = fpe.decrypt(encrypted, tweak)
+      console.log(`${label}: ${value} -> ${encrypted} -> ${decrypted}`)
+    } catch (error) {
+      console.error(`${label} Unicode Error:`, error)
+    } finally {
+      fpe.dispose()
+    }
+  })
+  
+  console.log()
+}
+
+// Example 8: Integer Ranges and Dates
+function exampleIntegerRanges() {
+  console.log("=== Integer Ranges and Dates ===")
+  
+  const key = createTestKey(32) // 256-bit key
+  const tweak = createTestTweak(8)
+  const fpe = new FPEIntegerCipher(key)
+  
+  try {
+    const domainSize = 37_000_000n // Account IDs below 37,000,000
+    const accountId = 1234567n
+    const encryptedId = fpe.encryptInteger(accountId, domainSize, tweak)
+    console.log(`Account ID: ${accountId} -> ${encryptedId} -> ${fpe.decryptInteger(encryptedId, domainSize, tweak)}`)
+    console.log("In Range:", encryptedId >= 0n && encryptedId < domainSize)
+    
+    const min = new Date("1900-01-01")
+    const max = new Date("2024-12-31")
+    const birthDate = new Date("1985-06-15")
+    const encryptedDate = fpe.encryptDate(birthDate, min, max, tweak, "day")
+    const decryptedDate = fpe.decryptDate(encryptedDate, min, max, tweak, "day")
+    console.log(`Birth Date: ${birthDate.toISOString().slice(0, 10)} -> ${encryptedDate.toISOString().slice(0, 10)} -> ${decryptedDate.toISOString().slice(0, 10)}`)
+  } catch (error) {
+    console.error("Integer Range FPE Error:", error)
+  } finally {
+    fpe.dispose()
+  }
+  
+  console.log()
+}
+
 // Run all FPE examples
 function runFPEExamples() {
-  console.log("Starting FPE-FF1 mode examples...\n")
+  console.log("Starting FPE mode examples...\n")
   
   exampleCreditCard()
   exampleAlphanumeric()
   exampleCustomAlphabet()
   exampleVariableLength()
+  exampleFF3_1()
+  exampleTemplates()
+  exampleUnicode()
+  exampleIntegerRanges()
   
-  console.log("All FPE-FF1 examples completed!")
+  console.log("All FPE examples completed!")
 }
 
 // Execute the examples
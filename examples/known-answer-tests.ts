@@ -0,0 +1,232 @@
+import { ModeOfOperationCWC } from "../modes/cwc"
+import { ModeOfOperationEAX } from "../modes/eax"
+import { ModeOfOperationSIV } from "../modes/siv"
+import { ModeOfOperationFPE_FF3_1 } from "../modes/fpe-ff3-1"
+import { ModeOfOperationGCM_SIV } from "../modes/gcm-siv"
+
+/**
+ * Known-answer checks for the modes that follow a published specification (SIV, EAX, FF3-1, GCM-SIV and CWC).
+ * Every case encrypts the vector's input, compares with the expected output, decrypts it back
+ * and, for the authenticated modes, makes sure a modified tag is rejected.
+ */
+
+let checks = 0
+let failures = 0
+
+// Utility function to parse hex strings (whitespace is ignored)
+function fromHex(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, "")
+  const bytes = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16)
+  }
+  return bytes
+}
+
+// Utility function to format bytes as lowercase hex
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function check(name: string, actual: string | null, expected: string | null) {
+  checks++
+  if (actual !== expected) {
+    failures++
+    console.log(`FAIL ${name}\n  expected: ${expected}\n  actual:   ${actual}`)
+  }
+}
+
+function checkRejected(name: string, result: Uint8Array | null) {
+  check(name, result === null ? "rejected" : "accepted", "rejected")
+}
+
+function flipFirstBit(bytes: Uint8Array): Uint8Array {
+  const copy = bytes.slice()
+  copy[0] ^= 1
+  return copy
+}
+
+// SIV: RFC 5297, Appendix A.1 (deterministic) and A.2 (nonce-based)
+function checkSIV() {
+  console.log("=== SIV (RFC 5297, Appendix A) ===")
+
+  const vectors = [
+    {
+      name: "A.1",
+      key: "fffefdfc fbfaf9f8 f7f6f5f4 f3f2f1f0 f0f1f2f3 f4f5f6f7 f8f9fafb fcfdfeff",
+      headers: ["10111213 14151617 18191a1b 1c1d1e1f 20212223 24252627"],
+      plaintext: "11223344 55667788 99aabbcc ddee",
+      output: "85632d07 c6e8f37f 950acd32 0a2ecc93 40c02b96 90c4dc04 daef7f6a fe5c",
+    },
+    {
+      name: "A.2",
+      key: "7f7e7d7c 7b7a7978 77767574 73727170 40414243 44454647 48494a4b 4c4d4e4f",
+      headers: [
+        "00112233 44556677 8899aabb ccddeeff deaddada deaddada ffeeddcc bbaa9988 77665544 33221100",
+        "10203040 50607080 90a0",
+        "09f91102 9d74e35b d84156c5 635688c0",
+      ],
+      plaintext: "74686973 20697320 736f6d65 20706c61 696e7465 78742074 6f20656e 63727970 74207573 696e6720 5349562d 414553",
+      output: "7bdb6e3b 432667eb 06f4d14b ff2fbd0f cb900f2f ddbe4043 26601965 c889bf17 dba77ceb 094fa663 b7a3f748 ba8af829 ea64ad54 4a272e9c 485b62a3 fd5c0d",
+    },
+  ]
+
+  for (const vector of vectors) {
+    const siv = new ModeOfOperationSIV(fromHex(vector.key))
+    const headers = vector.headers.map(fromHex)
+    const plaintext = fromHex(vector.plaintext)
+
+    // RFC 5297 prints the synthetic IV (the tag) followed by the ciphertext
+    const { ciphertext, tag } = siv.encrypt(plaintext, headers)
+    check(`SIV ${vector.name} encrypt`, toHex(tag) + toHex(ciphertext), toHex(fromHex(vector.output)))
+    const decrypted = siv.decrypt(ciphertext, tag, headers)
+    check(`SIV ${vector.name} decrypt`, decrypted && toHex(decrypted), toHex(plaintext))
+    checkRejected(`SIV ${vector.name} tampered tag`, siv.decrypt(ciphertext, flipFirstBit(tag), headers))
+    siv.dispose()
+  }
+
+  console.log()
+}
+
+// EAX: test vectors from Bellare, Rogaway and Wagner, "The EAX Mode of Operation", Appendix
+function checkEAX() {
+  console.log("=== EAX (Bellare, Rogaway and Wagner) ===")
+
+  // [message, key, nonce, header, ciphertext, tag]
+  const vectors = [
+    ["", "233952DEE4D5ED5F9B9C6D6FF80FF478", "62EC67F9C3A4A407FCB2A8C49031A8B3", "6BFB914FD07EAE6B", "", "E037830E8389F27B025A2D6527E79D01"],
+    ["F7FB", "91945D3F4DCBEE0BF45EF52255F095A4", "BECAF043B0A23D843194BA972C66DEBD", "FA3BFD4806EB53FA", "19DD", "5C4C9331049D0BDAB0277408F67967E5"],
+    ["1A47CB4933", "01F74AD64077F2E704C0F60ADA3DD523", "70C3DB4F0D26368400A10ED05D2BFF5E", "234A3463C1264AC6", "D851D5BAE0", "3A59F238A23E39199DC9266626C40F80"],
+    ["481C9E39B1", "D07CF6CBB7F313BDDE66B727AFD3C5E8", "8408DFFF3C1A2B1292DC199E46B7D617", "33CCE2EABFF5A79D", "632A9D131A", "D4C168A4225D8E1FF755939974A7BEDE"],
+    ["40D0C07DA5E4", "35B6D0580005BBC12B0587124557D2C2", "FDB6B06676EEDC5C61D74276E1F8E816", "AEB96EAEBE2970E9", "071DFE16C675", "CB0677E536F73AFE6A14B74EE49844DD"],
+    ["4DE3B35C3FC039245BD1FB7D", "BD8E6E11475E60B268784C38C62FEB22", "6EAC5C93072D8E8513F750935E46DA1B", "D4482D1CA78DCE0F", "835BB4F15D743E350E728414", "ABB8644FD6CCB86947C5E10590210A4F"],
+    ["8B0A79306C9CE7ED99DAE4F87F8DD61636", "7C77D6E813BED5AC98BAA417477A2E7D", "1A8C98DCD73D38393B2BF1569DEEFC19", "65D2017990D62528", "02083E3979DA014812F59F11D52630DA30", "137327D10649B0AA6E1C181DB617D7F2"],
+    ["1BDA122BCE8A8DBAF1877D962B8592DD2D56", "5FFF20CAFAB119CA2FC73549E20F5B0D", "DDE59B97D722156D4D9AFF2BC7559826", "54B9F04E6A09189A", "2EC47B2C4954A489AFC7BA4897EDCDAE8CC3", "3B60450599BD02C96382902AEF7F832A"],
+    ["6CF36720872B8513F6EAB1A8A44438D5EF11", "A4A4782BCFFD3EC5E7EF6D8C34A56123", "B781FCF2F75FA5A8DE97A9CA48E522EC", "899A175897561D7E", "0DE18FD0FDD91E7AF19F1D8EE8733938B1E8", "E7F6D2231618102FDB7FE55FF1991700"],
+    ["CA40D7446E545FFAED3BD12A740A659FFBBB3CEAB7", "8395FCF1E95BEBD697BD010BC766AAC3", "22E7ADD93CFC6393C57EC0B3C17D6B44", "126735FCC320D25A", "CB8920F87A6C75CFF39627B56E3ED197C552D295A7", "CFC46AFC253B4652B1AF3795B124AB6E"],
+  ]
+
+  vectors.forEach(([message, key, nonce, header, expectedCiphertext, expectedTag], i) => {
+    const eax = new ModeOfOperationEAX(fromHex(key), 16)
+    const { ciphertext, tag } = eax.encrypt(fromHex(message), fromHex(nonce), fromHex(header))
+    check(`EAX vector ${i + 1} ciphertext`, toHex(ciphertext), expectedCiphertext.toLowerCase())
+    check(`EAX vector ${i + 1} tag`, toHex(tag), expectedTag.toLowerCase())
+    const decrypted = eax.decrypt(ciphertext, tag, fromHex(nonce), fromHex(header))
+    check(`EAX vector ${i + 1} decrypt`, decrypted && toHex(decrypted), message.toLowerCase())
+    checkRejected(`EAX vector ${i + 1} tampered tag`, eax.decrypt(ciphertext, flipFirstBit(tag), fromHex(nonce), fromHex(header)))
+    eax.dispose()
+  })
+
+  console.log()
+}
+
+// FF3-1: NIST ACVP sample vectors (56-bit tweaks, radix 10)
+function checkFF3_1() {
+  console.log("=== FPE-FF3-1 (NIST ACVP samples) ===")
+
+  const vectors = [
+    {
+      key: "2DE79D232DF5585D68CE47882AE256D6",
+      tweak: "CBD09280979564",
+      plaintext: "3992520240",
+      ciphertext: "8901801106",
+    },
+    {
+      key: "01C63017111438F7FC8E24EB16C71AB5",
+      tweak: "C4E822DCD09F27",
+      plaintext: "60761757463116869318437658042297305934914824457484538562",
+      ciphertext: "35637144092473838892796702739628394376915177448290847293",
+    },
+  ]
+
+  vectors.forEach((vector, i) => {
+    const ff3 = new ModeOfOperationFPE_FF3_1(fromHex(vector.key), "0123456789")
+    const tweak = fromHex(vector.tweak)
+    check(`FF3-1 sample ${i + 1} encrypt`, ff3.encrypt(vector.plaintext, tweak), vector.ciphertext)
+    check(`FF3-1 sample ${i + 1} decrypt`, ff3.decrypt(vector.ciphertext, tweak), vector.plaintext)
+    ff3.dispose()
+  })
+
+  console.log()
+}
+
+// GCM-SIV: RFC 8452, Appendix C.1 (AES-128) and C.2 (AES-256)
+function checkGCM_SIV() {
+  console.log("=== GCM-SIV (RFC 8452, Appendix C) ===")
+
+  const key128 = "01000000000000000000000000000000"
+  const key256 = "0100000000000000000000000000000000000000000000000000000000000000"
+  const nonce = "030000000000000000000000"
+  // [key, plaintext, associated data, ciphertext || tag]
+  const vectors = [
+    [key128, "", "", "dc20e2d83f25705bb49e439eca56de25"],
+    [key128, "0100000000000000", "", "b5d839330ac7b786578782fff6013b815b287c22493a364c"],
+    [key128, "0200000000000000", "01", "1e6daba35669f4273b0a1a2560969cdf790d99759abd1508"],
+    [key128, "0200000000000000000000000000000003000000000000000000000000000000", "01", "620048ef3c1e73e57e02bb8562c416a319e73e4caac8e96a1ecb2933145a1d71e6af6a7f87287da059a71684ed3498e1"],
+    [key256, "", "", "07f5f4169bbf55a8400cd47ea6fd400f"],
+    [key256, "0100000000000000", "", "c2ef328e5c71c83b843122130f7364b761e0b97427e3df28"],
+  ]
+
+  vectors.forEach(([key, plaintext, aad, expected], i) => {
+    const gcmSiv = new ModeOfOperationGCM_SIV(fromHex(key))
+    const { ciphertext, tag } = gcmSiv.encrypt(fromHex(plaintext), fromHex(nonce), fromHex(aad))
+    check(`GCM-SIV vector ${i + 1} encrypt`, toHex(ciphertext) + toHex(tag), expected)
+    const decrypted = gcmSiv.decrypt(ciphertext, tag, fromHex(nonce), fromHex(aad))
+    check(`GCM-SIV vector ${i + 1} decrypt`, decrypted && toHex(decrypted), plaintext)
+    checkRejected(`GCM-SIV vector ${i + 1} tampered tag`, gcmSiv.decrypt(ciphertext, flipFirstBit(tag), fromHex(nonce), fromHex(aad)))
+    gcmSiv.dispose()
+  })
+
+  console.log()
+}
+
+// CWC: the appendix vectors of the paper are not included, so these are not published answers and do
+// not confirm the construction against the reference implementation. They were computed with an
+// independent BigInt implementation of the specification (counters 0x80 || N || [i]_32, Carter-Wegman
+// hash over 96-bit chunks modulo 2^127 - 1, tag E_K(R) xor E_K(0x80 || N || 0^32)) and pin the
+// output so that any change to the construction is caught.
+function checkCWC() {
+  console.log("=== CWC (Kohno, Viega and Whiting) ===")
+
+  // [key, nonce, associated data, plaintext, ciphertext, tag]
+  const vectors = [
+    ["000102030405060708090a0b0c0d0e0f", "101112131415161718191a", "", "", "", "f63d2e91e4b45f2366dfa2b9b59618b2"],
+    ["000102030405060708090a0b0c0d0e0f", "101112131415161718191a", "2021222324", "404142434445464748494a4b4c", "d5f735131d4fb148e4daad0712", "25aa4c815c06db6674cdcecaef8f105a"],
+    ["000102030405060708090a0b0c0d0e0f1011121314151617", "101112131415161718191a", "202122232425262728292a2b", "404142434445464748494a4b4c4d4e4f505152535455565758595a5b5c5d5e5f", "cd772c852c4c1d187e4459ce7b55003913064bab0c9beacef45638af134aa7cb", "d3a06309d9e90ea17e7bd0ff2cf36a5f"],
+    ["000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f", "101112131415161718191a", "202122232425262728292a2b2c2d2e2f30313233", "404142434445464748494a4b4c4d4e4f505152535455565758595a5b5c5d5e5f606162636465666768696a6b6c", "729994cf6b045cb9785bd0ceb0fd1b1d08f79e59912310780d8f83cd1f00c6df5936fa26e178be6e6c59fabca0", "e699d818009fb89a37717202e3e6d4c3"],
+  ]
+
+  vectors.forEach(([key, nonce, aad, plaintext, expectedCiphertext, expectedTag], i) => {
+    const cwc = new ModeOfOperationCWC(fromHex(key))
+    const { ciphertext, tag } = cwc.encrypt(fromHex(plaintext), fromHex(nonce), fromHex(aad))
+    check(`CWC case ${i + 1} ciphertext`, toHex(ciphertext), expectedCiphertext)
+    check(`CWC case ${i + 1} tag`, toHex(tag), expectedTag)
+    const decrypted = cwc.decrypt(ciphertext, tag, fromHex(nonce), fromHex(aad))
+    check(`CWC case ${i + 1} decrypt`, decrypted && toHex(decrypted), plaintext)
+    checkRejected(`CWC case ${i + 1} tampered tag`, cwc.decrypt(ciphertext, flipFirstBit(tag), fromHex(nonce), fromHex(aad)))
+    cwc.dispose()
+  })
+
+  console.log()
+}
+
+// Run all checks
+function runAllChecks() {
+  console.log("Running known-answer checks...\n")
+
+  checkSIV()
+  checkEAX()
+  checkFF3_1()
+  checkGCM_SIV()
+  checkCWC()
+
+  if (failures > 0) {
+    console.log(`${failures} of ${checks} known-answer checks did not match`)
+    process.exitCode = 1
+  } else {
+    console.log(`All ${checks} known-answer checks passed`)
+  }
+}
+
+// Execute the checks
+runAllChecks()
@@ -0,0 +1,171 @@
+import { assertNotDisposed } from "./dispose"
+import { InvalidParameterError } from "./errors"
+import { ExpandedKey } from "./key-schedule"
+import { FF1Options, ModeOfOperationFPE_FF1 } from "./modes/fpe-ff1"
+
+// FF1 con alfabeto binario exige al menos 20 símbolos (2^20 ≥ 10^6, el dominio mínimo de NIST SP 800-38G Rev. 1).
+const MIN_BITS = 20
+
+// Tamaño mínimo del dominio: con N ≥ 2^14, el cycle-walking sobre 2^20 valores hace como mucho 64 cifrados de media.
+const MIN_DOMAIN_SIZE = 2n ** 14n
+
+// Duración en milisegundos de cada unidad de fecha admitida.
+const DATE_UNITS = {
+  millisecond: 1n,
+  second: 1000n,
+  minute: 60_000n,
+  hour: 3_600_000n,
+  day: 86_400_000n,
+}
+
+/**
+ * Unidad con la que se cifran las fechas. Todo lo que quede por debajo de la unidad se descarta: con `"day"`, la hora
+ * de la fecha original se pierde y el resultado cae siempre al mismo instante del día que `min`.
+ */
+export type FPEDateUnit = keyof typeof DATE_UNITS
+
+/**
+ * Cifrado con preservación de formato de enteros en un rango arbitrario `[0, N)`, sobre AES-FPE FF1.
+ *
+ * FF1 cifra cadenas de longitud fija, es decir, dominios de tamaño radix^n. Para un N cualquiera (p. ej. identificadores
+ * menores que 37.000.000) se usa *cycle-walking*: el entero se cifra como cadena binaria de ⌈log2 N⌉ bits y, si el
+ * resultado cae fuera del rango, se vuelve a cifrar hasta que cae dentro. Como el dominio binario es menor que 2N, el
+ * número medio de cifrados por valor es inferior a 2.
+ *
+ * Los dominios de menos de 2^20 valores se amplían hasta 20 bits, el mínimo de FF1, por lo que el número medio de
+ * cifrados crece a 2^20/N. Para que ese coste quede acotado, los dominios de menos de 2^14 (16.384) valores se
+ * rechazan; para fechas, basta con usar una unidad menor o un rango más amplio. Además, NIST no recomienda FPE para
+ * dominios de menos de un millón de valores, en los que un atacante puede tabular la permutación completa.
+ *
+ * @example
+ * ```typescript
+ * const key = new Uint8Array(32); // Clave de 256 bits
+ * const fpe = new FPEIntegerCipher(key);
+ *
+ * const id = fpe.encryptInteger(1234567n, 37_000_000n); // Siempre en [0, 37000000)
+ * const original = fpe.decryptInteger(id, 37_000_000n);
+ *
+ * const min = new Date("1900-01-01"), max = new Date("2024-12-31");
+ * const birthDate = fpe.encryptDate(new Date("1985-06-15"), min, max, new Uint8Array(0), "day");
+ * ```
+ */
+export class FPEIntegerCipher {
+  public readonly description = "Format-Preserving Encryption of integer ranges (FF1 with cycle-walking)"
+  public readonly name = "fpe-integer"
+
+  private readonly ff1: ModeOfOperationFPE_FF1
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
+  /**
+   * Inicializa el cifrador con una clave maestra.
+   * @param key La clave maestra AES, o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ legacyPBlock: true }` para descifrar valores de versiones anteriores).
+   */
+  constructor(key: Uint8Array | ExpandedKey, options: FF1Options = {}) {
+    this.ff1 = new ModeOfOperationFPE_FF1(key, "01", options)
+  }
+
+  /**
+   * Cifra un entero del rango `[0, domainSize)` en otro entero del mismo rango.
+   * @param value El entero a cifrar.
+   * @param domainSize El tamaño del dominio N (al menos 2^14).
+   * @param tweak El tweak de FF1. Por defecto, vacío.
+   * @returns El entero cifrado, en `[0, domainSize)`.
+   * @throws InvalidParameterError si `domainSize` es menor que 2^14 o `value` está fuera del rango.
+   */
+  public encryptInteger(value: bigint, domainSize: bigint, tweak: Uint8Array = new Uint8Array(0)): bigint {
+    assertNotDisposed(this.disposed, this.name)
+    return this._cycleWalk(value, domainSize, tweak, true)
+  }
+
+  /**
+   * Descifra un entero cifrado con {@link encryptInteger} usando el mismo dominio y el mismo tweak.
+   * @param value El entero cifrado.
+   * @param domainSize El tamaño del dominio N usado al cifrar.
+   * @param tweak El tweak de FF1 usado al cifrar.
+   * @returns El entero original.
+   */
+  public decryptInteger(value: bigint, domainSize: bigint, tweak: Uint8Array = new Uint8Array(0)): bigint {
+    assertNotDisposed(this.disposed, this.name)
+    return this._cycleWalk(value, domainSize, tweak, false)
+  }
+
+  /**
+   * Cifra una fecha del rango `[min, max]` en otra fecha del mismo rango.
+   * @param date La fecha a cifrar.
+   * @param min La fecha mínima del rango (incluida).
+   * @param max La fecha máxima del rango (incluida).
+   * @param tweak El tweak de FF1. Por defecto, vacío.
+   * @param unit La unidad de cifrado. Por defecto, `"millisecond"`.
+   * @returns La fecha cifrada, alineada con `min` en la unidad indicada.
+   * @throws InvalidParameterError si alguna fecha no es válida, `min` es posterior a `max`, `date` está fuera del rango o
+   *   el rango tiene menos de 2^14 unidades.
+   */
+  public encryptDate(date: Date, min: Date, max: Date, tweak: Uint8Array = new Uint8Array(0), unit: FPEDateUnit = "millisecond"): Date {
+    assertNotDisposed(this.disposed, this.name)
+    return this._dateWalk(date, min, max, tweak, unit, true)
+  }
+
+  /**
+   * Descifra una fecha cifrada con {@link encryptDate} usando el mismo rango, tweak y unidad.
+   * @returns La fecha original, truncada a la unidad indicada.
+   */
+  public decryptDate(date: Date, min: Date, max: Date, tweak: Uint8Array = new Uint8Array(0), unit: FPEDateUnit = "millisecond"): Date {
+    assertNotDisposed(this.disposed, this.name)
+    return this._dateWalk(date, min, max, tweak, unit, false)
+  }
+
+  private _cycleWalk(value: bigint, domainSize: bigint, tweak: Uint8Array, isEncrypt: boolean): bigint {
+    if (domainSize < MIN_DOMAIN_SIZE) {
+      throw new InvalidParameterError(`El tamaño del dominio debe ser al menos ${MIN_DOMAIN_SIZE}; con menos valores, el cycle-walking necesita de media más de 64 cifrados FF1.`, { mode: this.name, parameter: "domainSize" })
+    }
+    if (value < 0n || value >= domainSize) {
+      throw new InvalidParameterError(`El valor debe estar en el rango [0, ${domainSize}).`, { mode: this.name, parameter: "value" })
+    }
+
+    const bits = Math.max(MIN_BITS, (domainSize - 1n).toString(2).length)
+    let current = value
+    do {
+      const text = current.toString(2).padStart(bits, "0")
+      current = BigInt("0b" + (isEncrypt ? this.ff1.encrypt(text, tweak) : this.ff1.decrypt(text, tweak)))
+    } while (current >= domainSize)
+    return current
+  }
+
+  private _dateWalk(date: Date, min: Date, max: Date, tweak: Uint8Array, unit: FPEDateUnit, isEncrypt: boolean): Date {
+    const [time, start, end] = [date, min, max].map(d => d.getTime())
+    if (Number.isNaN(time) || Number.isNaN(start) || Number.isNaN(end)) {
+      throw new InvalidParameterError("Fecha inválida.", { mode: this.name, parameter: "date" })
+    }
+    if (start > end) {
+      throw new InvalidParameterError("La fecha mínima no puede ser posterior a la máxima.", { mode: this.name, parameter: "min" })
+    }
+    if (time < start || time > end) {
+      throw new InvalidParameterError("La fecha está fuera del rango [min, max].", { mode: this.name, parameter: "date" })
+    }
+
+    const unitMs = DATE_UNITS[unit]
+    const domainSize = (BigInt(end) - BigInt(start)) / unitMs + 1n
+    if (domainSize < MIN_DOMAIN_SIZE) {
+      throw new InvalidParameterError(`El rango de fechas debe abarcar al menos ${MIN_DOMAIN_SIZE} unidades; use una unidad menor o un rango más amplio.`, { mode: this.name, parameter: "unit" })
+    }
+    const offset = (BigInt(time) - BigInt(start)) / unitMs
+    const result = this._cycleWalk(offset, domainSize, tweak, isEncrypt)
+    return new Date(Number(BigInt(start) + result * unitMs))
+  }
+
+  /**
+   * Destruye el núcleo FF1 interno, borrando la clave y sus claves de ronda.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  public dispose(): void {
+    this.disposed = true
+    this.ff1.dispose()
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
@@ -0,0 +1,271 @@
+import { assertNotDisposed } from "./dispose"
+import { InvalidLengthError, InvalidParameterError } from "./errors"
+import { ExpandedKey } from "./key-schedule"
+import { FF1Options, ModeOfOperationFPE_FF1 } from "./modes/fpe-ff1"
+import { FPEOptions, splitSymbols } from "./modes/utils/alphabet"
+
+// Carácter de la máscara que marca una posición del alfabeto; cualquier otro carácter es un literal.
+const MASK_PLACEHOLDER = "#"
+
+export const DIGITS = "0123456789"
+
+/**
+ * Dígito de control que se recalcula tras cifrar o descifrar.
+ * - `"luhn"`: el último símbolo es el dígito de Luhn (números de tarjeta).
+ * - `"iban"`: los dos primeros dígitos son los dígitos de control ISO 7064 MOD 97-10 del IBAN.
+ */
+export type FPEChecksum = "luhn" | "iban"
+
+/**
+ * Describe el formato de un dato para cifrarlo con FPE conservando separadores, segmentos en claro y dígitos de control.
+ *
+ * Las posiciones cifrables son las que la máscara marca con `#` o, sin máscara, todos los símbolos que pertenecen al
+ * alfabeto; el resto se copia tal cual. Las posiciones se cuentan en símbolos (puntos de código o grafemas, según las
+ * opciones del cifrador), no en unidades UTF-16. `preserveLeading` y `preserveTrailing` se cuentan sobre esas posiciones.
+ */
+export interface FPETemplate {
+  /** Alfabeto de las posiciones cifrables. */
+  alphabet: string
+  /** Máscara opcional, p. ej. `"###-##-####"`. Si se indica, la entrada debe coincidir con ella carácter a carácter. */
+  mask?: string
+  /** Número de posiciones iniciales que se conservan en claro (p. ej. el BIN de una tarjeta). */
+  preserveLeading?: number
+  /** Número de posiciones finales que se conservan en claro (p. ej. los últimos 4 dígitos). */
+  preserveTrailing?: number
+  /** Dígito de control que se excluye del cifrado y se recalcula sobre el resultado. Requiere el alfabeto `DIGITS`. */
+  checksum?: FPEChecksum
+}
+
+/**
+ * Plantillas predefinidas para los formatos más habituales. Todas cifran solo dígitos y respetan cualquier separador.
+ * - `PAN`: número de tarjeta con el BIN (6 dígitos) y los últimos 4 dígitos en claro.
+ * - `PAN_LUHN`: número de tarjeta con el BIN en claro y el dígito de Luhn recalculado, para que el resultado siga
+ *   pasando las validaciones de Luhn.
+ * - `SSN`: número de la seguridad social estadounidense con el formato `###-##-####`.
+ * - `IBAN`: se conservan el código de país y las letras del BBAN y se recalculan los dígitos de control.
+ * - `PHONE`: número de teléfono en cualquier formato.
+ *
+ * FF1 exige al menos 6 dígitos cifrables, por lo que `PAN` requiere números de 16 dígitos o más.
+ */
+export const FPE_TEMPLATES: Readonly<Record<"PAN" | "PAN_LUHN" | "SSN" | "IBAN" | "PHONE", FPETemplate>> = {
+  PAN: { alphabet: DIGITS, preserveLeading: 6, preserveTrailing: 4 },
+  PAN_LUHN: { alphabet: DIGITS, preserveLeading: 6, checksum: "luhn" },
+  SSN: { alphabet: DIGITS, mask: "###-##-####" },
+  IBAN: { alphabet: DIGITS, checksum: "iban" },
+  PHONE: { alphabet: DIGITS },
+}
+
+/**
+ * Capa de plantillas sobre AES-FPE FF1 para cifrar datos con formato, como tarjetas, SSN, IBAN o teléfonos.
+ *
+ * FF1 exige que toda la entrada pertenezca al alfabeto; esta clase extrae las posiciones cifrables según la plantilla,
+ * cifra solo las que no se conservan en claro y vuelve a colocar el resultado entre los separadores originales. Si la
+ * plantilla declara un dígito de control, se excluye del cifrado y se recalcula al final, de modo que el descifrado
+ * devuelve el valor original siempre que su dígito de control fuera válido (por eso `encrypt` lo comprueba).
+ *
+ * @example
+ * ```typescript
+ * const key = new Uint8Array(32); // Clave de 256 bits
+ * const pan = new FPETemplateCipher(key, FPE_TEMPLATES.PAN_LUHN);
+ *
+ * const token = pan.encrypt("4111-1111-1111-1111"); // "411111-..." con el mismo formato y Luhn válido
+ * const original = pan.decrypt(token);
+ *
+ * const custom = new FPETemplateCipher(key, { alphabet: DIGITS, mask: "####-####-####-####", preserveTrailing: 4 });
+ * ```
+ */
+export class FPETemplateCipher {
+  public readonly description = "Format-Preserving Encryption with templates (FF1)"
+  public readonly name = "fpe-template"
+
+  private readonly ff1: ModeOfOperationFPE_FF1
+  private readonly template: FPETemplate
+  private readonly symbols: Set<string>
+  private readonly mask: string[] | undefined
+  private readonly fpeOptions: FPEOptions
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
+  /**
+   * Inicializa el cifrador con una clave y una plantilla.
+   * @param key La clave maestra AES, o su expansión (`ExpandedKey`).
+   * @param template La plantilla que describe el formato del dato (ver {@link FPE_TEMPLATES}).
+   * @param options Opciones de construcción, las mismas que acepta {@link ModeOfOperationFPE_FF1}.
+   */
+  constructor(key: Uint8Array | ExpandedKey, template: FPETemplate, options: FF1Options = {}) {
+    const { preserveLeading = 0, preserveTrailing = 0 } = template
+    if (!Number.isInteger(preserveLeading) || preserveLeading < 0) {
+      throw new InvalidParameterError("preserveLeading debe ser un entero no negativo.", { mode: this.name, parameter: "preserveLeading" })
+    }
+    if (!Number.isInteger(preserveTrailing) || preserveTrailing < 0) {
+      throw new InvalidParameterError("preserveTrailing debe ser un entero no negativo.", { mode: this.name, parameter: "preserveTrailing" })
+    }
+    if (template.mask !== undefined && !template.mask.includes(MASK_PLACEHOLDER)) {
+      throw new InvalidParameterError("La máscara debe contener al menos una posición '#'.", { mode: this.name, parameter: "mask" })
+    }
+    if (template.checksum !== undefined && template.alphabet !== DIGITS) {
+      throw new InvalidParameterError("El dígito de control solo es compatible con el alfabeto de dígitos decimales.", { mode: this.name, parameter: "checksum" })
+    }
+    if (template.checksum === "luhn" && preserveTrailing > 0) {
+      // El dígito de Luhn es la última posición: no puede conservarse en claro y recalcularse a la vez
+      throw new InvalidParameterError("El dígito de Luhn no es compatible con preserveTrailing.", { mode: this.name, parameter: "checksum" })
+    }
+
+    this.ff1 = new ModeOfOperationFPE_FF1(key, template.alphabet, options)
+    this.template = template
+    this.symbols = new Set(splitSymbols(template.alphabet, options))
+    this.mask = template.mask === undefined ? undefined : splitSymbols(template.mask, options)
+    this.fpeOptions = options
+  }
+
+  /**
+   * Cifra un valor conservando su formato.
+   * @param value El valor a cifrar, p. ej. `"4111-1111-1111-1111"`.
+   * @param tweak El tweak de FF1. Por defecto, vacío.
+   * @returns El valor cifrado, con los mismos separadores y segmentos en claro.
+   * @throws InvalidParameterError si el valor no encaja en la plantilla o su dígito de control no es válido.
+   * @throws InvalidLengthError si quedan menos posiciones cifrables de las que admite FF1.
+   */
+  public encrypt(value: string, tweak: Uint8Array = new Uint8Array(0)): string {
+    assertNotDisposed(this.disposed, this.name)
+    return this._apply(value, tweak, true)
+  }
+
+  /**
+   * Descifra un valor cifrado con {@link encrypt} usando la misma plantilla y el mismo tweak.
+   * @param value El valor cifrado.
+   * @param tweak El tweak de FF1 usado al cifrar.
+   * @returns El valor original.
+   */
+  public decrypt(value: string, tweak: Uint8Array = new Uint8Array(0)): string {
+    assertNotDisposed(this.disposed, this.name)
+    return this._apply(value, tweak, false)
+  }
+
+  private _apply(value: string, tweak: Uint8Array, isEncrypt: boolean): string {
+    const chars = splitSymbols(value, this.fpeOptions)
+    const positions = this._symbolPositions(chars)
+    const { preserveLeading = 0, preserveTrailing = 0, checksum } = this.template
+
+    if (preserveLeading + preserveTrailing > positions.length) {
+      throw new InvalidLengthError(`El valor tiene ${positions.length} posiciones cifrables, menos de las que se conservan en claro.`, { mode: this.name, parameter: "text", expected: { min: preserveLeading + preserveTrailing }, actual: positions.length })
+    }
+
+    const checksumPositions = this._checksumPositions(positions)
+    if (isEncrypt && checksum !== undefined && !this._isChecksumValid(chars, positions)) {
+      throw new InvalidParameterError(`El dígito de control (${checksum}) del valor no es válido.`, { mode: this.name, parameter: "text" })
+    }
+
+    const cipherPositions = positions
+      .slice(preserveLeading, positions.length - preserveTrailing)
+      .filter(position => !checksumPositions.includes(position))
+
+    const segment = cipherPositions.map(position => chars[position]).join("")
+    const transformed = splitSymbols(isEncrypt ? this.ff1.encrypt(segment, tweak) : this.ff1.decrypt(segment, tweak), this.fpeOptions)
+
+    cipherPositions.forEach((position, i) => {
+      chars[position] = transformed[i]
+    })
+    if (checksum !== undefined) {
+      this._fixChecksum(chars, positions)
+    }
+    return chars.join("")
+  }
+
+  // Índices de `value` que ocupan símbolos del alfabeto, validando la máscara si la hay.
+  private _symbolPositions(value: string[]): number[] {
+    const { mask } = this
+    const positions: number[] = []
+
+    if (mask !== undefined && value.length !== mask.length) {
+      throw new InvalidParameterError(`El valor no coincide con la máscara '${this.template.mask}'.`, { mode: this.name, parameter: "text" })
+    }
+
+    for (let i = 0; i < value.length; i++) {
+      const isSymbol = this.symbols.has(value[i])
+      if (mask === undefined) {
+        if (isSymbol) positions.push(i)
+      } else if (mask[i] === MASK_PLACEHOLDER) {
+        if (!isSymbol) throw new InvalidParameterError(`El carácter '${value[i]}' no se encuentra en el alfabeto.`, { mode: this.name, parameter: "text" })
+        positions.push(i)
+      } else if (value[i] !== mask[i]) {
+        throw new InvalidParameterError(`El valor no coincide con la máscara '${this.template.mask}'.`, { mode: this.name, parameter: "text" })
+      }
+    }
+    return positions
+  }
+
+  private _checksumPositions(positions: number[]): number[] {
+    switch (this.template.checksum) {
+      case "luhn":
+        return positions.slice(-1)
+      case "iban":
+        return positions.slice(0, 2)
+      default:
+        return []
+    }
+  }
+
+  private _isChecksumValid(chars: string[], positions: number[]): boolean {
+    const fixed = [...chars]
+    this._fixChecksum(fixed, positions)
+    return fixed.every((char, i) => char === chars[i])
+  }
+
+  // Sustituye el dígito de control de `chars` por el que corresponde al resto del valor.
+  private _fixChecksum(chars: string[], positions: number[]): void {
+    if (this.template.checksum === "luhn") {
+      const digits = positions.slice(0, -1).map(position => chars[position])
+      chars[positions[positions.length - 1]] = luhnCheckDigit(digits)
+      return
+    }
+
+    // IBAN: las dos primeras posiciones son los dígitos de control, que siguen al código de país
+    const isAlphanumeric = (char: string) => /[0-9A-Za-z]/.test(char)
+    const compact = chars.filter(isAlphanumeric).join("").toUpperCase()
+    const checkOffset = positions.length < 2 ? -1 : chars.slice(0, positions[0]).filter(isAlphanumeric).length
+    if (!/^[A-Z]{2}[0-9]{2}/.test(compact) || checkOffset !== 2) {
+      throw new InvalidParameterError("El valor no tiene el formato de un IBAN.", { mode: this.name, parameter: "text" })
+    }
+    const check = ibanCheckDigits(compact.substring(0, 2), compact.substring(4))
+    chars[positions[0]] = check[0]
+    chars[positions[1]] = check[1]
+  }
+
+  /**
+   * Destruye el núcleo FF1 interno, borrando la clave y sus claves de ronda.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  public dispose(): void {
+    this.disposed = true
+    this.ff1.dispose()
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
+
+// Dígito de Luhn para la secuencia de dígitos dada: se duplica cada segundo dígito empezando por el de la derecha.
+function luhnCheckDigit(digits: string[]): string {
+  let sum = 0
+  for (let i = digits.length - 1, double = true; i >= 0; i--, double = !double) {
+    let digit = Number(digits[i])
+    if (double) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return String((10 - (sum % 10)) % 10)
+}
+
+// Dígitos de control ISO 7064 MOD 97-10: 98 - (BBAN || país || "00" mod 97), con las letras convertidas a 10..35.
+function ibanCheckDigits(country: string, bban: string): string {
+  let remainder = 0
+  for (const char of bban + country + "00") {
+    const value = parseInt(char, 36)
+    remainder = value > 9 ? (remainder * 100 + value) % 97 : (remainder * 10 + value) % 97
+  }
+  return String(98 - remainder).padStart(2, "0")
+}
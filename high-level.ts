@@ -1,4 +1,5 @@
-import { AES } from "./aes"
+import { assertNotDisposed, wipe } from "./dispose"
+import { AuthenticationError, DecryptResult, InvalidKeyLengthError, InvalidNonceError, InvalidParameterError, toDecryptResult, UnsupportedOperationError } from "./errors"
 import { ModeOfOperationECB } from "./modes/ecb"
 import { ModeOfOperationCBC } from "./modes/cbc"
 import { ModeOfOperationCTR } from "./modes/ctr"
@@ -6,20 +7,25 @@ import { ModeOfOperationCFB } from "./modes/cfb"
 import { ModeOfOperationOFB } from "./modes/ofb"
 import { ModeOfOperationGCM } from "./modes/gcm"
 import { ModeOfOperationCCM } from "./modes/ccm"
-import { ModeOfOperationEAX } from "./modes/eax"
-import { ModeOfOperationCWC } from "./modes/cwc"
+import { ModeOfOperationEAX, ModeOfOperationEAXPrime } from "./modes/eax"
+import { ModeOfOperationCWC, ModeOfOperationCWCLegacy } from "./modes/cwc"
 import { ModeOfOperationGCM_SIV } from "./modes/gcm-siv"
 import { ModeOfOperationOCB } from "./modes/ocb"
 import { ModeOfOperationXTS } from "./modes/xts"
 import { ModeOfOperationKW } from "./modes/kw"
 import { ModeOfOperationKWP } from "./modes/kwp"
 import { ModeOfOperationFPE_FF1 } from "./modes/fpe-ff1"
+import { ModeOfOperationFPE_FF3_1 } from "./modes/fpe-ff3-1"
 import { ModeOfOperationCBC_MAC } from "./modes/cbc-mac"
 import { ModeOfOperationPMAC_SIV } from "./modes/pmac-siv"
 import { ModeOfOperationTKW } from "./modes/tkw"
 import { ModeOfOperationCMAC } from "./modes/cmac"
+import { ModeOfOperationSIV } from "./modes/siv"
 
 import { ModeOfOperationHybridCTR } from "./modes/hybrid-ctr"
+import { pkcs7pad, pkcs7strip } from "./padding"
+import { FPETemplate, FPETemplateCipher } from "./fpe-templates"
+import { FPEOptions } from "./modes/utils/alphabet"
 
 /**
  * Enumeración que representa los diferentes modos de operación AES disponibles.
@@ -31,20 +37,30 @@ export enum AesMode {
   CFB = "cfb",
   OFB = "ofb",
   GCM = "gcm",
+  GCM_LEGACY = "gcm-legacy",
   CCM = "ccm",
   EAX = "eax",
+  EAX_LEGACY = "eax-legacy",
+  EAX_PRIME = "eax-prime",
   CWC = "cwc",
+  CWC_LEGACY = "cwc-legacy",
   GCM_SIV = "gcm-siv",
+  GCM_SIV_LEGACY = "gcm-siv-legacy",
   OCB = "ocb",
+  OCB_LEGACY = "ocb-legacy",
   XTS = "xts",
+  XTS_LEGACY = "xts-legacy",
   KW = "kw",
   KWP = "kwp",
   FPE_FF1 = "fpe-ff1",
+  FPE_FF1_LEGACY = "fpe-ff1-legacy",
+  FPE_FF3_1 = "fpe-ff3-1",
   CBC_MAC = "cbc-mac",
   CMAC = "cmac",
   PMAC_SIV = "pmac-siv",
   TKW = "tkw",
-  HYBRID_CTR = "hybrid-ctr"
+  HYBRID_CTR = "hybrid-ctr",
+  SIV = "siv"
 }
 
 /**
@@ -102,26 +118,40 @@ export class HighLevelAES {
   private readonly mode: AesMode
   private readonly key: Uint8Array
   private readonly tagSize?: number
+  private readonly aesOptions: FPEOptions
+  // Instancia GCM compartida por las operaciones con IV explícito, para que recuerde los nonces con los que ha cifrado.
+  private gcm: ModeOfOperationGCM | null = null
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Crea una nueva instancia de HighLevelAES.
    * @param mode El modo de operación AES a utilizar
-   * @param key La clave de cifrado (debe ser de 16, 24 o 32 bytes para la mayoría de los modos, 32 o 64 bytes para XTS)
-   * @param tagSize El tamaño de la etiqueta de autenticación (para modos autenticados)
+   * @param key La clave de cifrado (debe ser de 16, 24 o 32 bytes para la mayoría de los modos, 32 o 64 bytes para XTS
+   *   y 32, 48 o 64 bytes para SIV)
+   * @param tagSize El tamaño de la etiqueta de autenticación (para modos autenticados; en GCM, 16, 15, 14, 13, 12, 8 o 4)
+   * @param aesOptions Opciones de construcción que se pasan a cada modo (p. ej. `{ core: "constant-time" }`). Los modos FPE
+   *   admiten además `segmentation` y `normalization` para alfabetos Unicode.
    */
-  constructor(mode: AesMode, key: Uint8Array, tagSize?: number) {
+  constructor(mode: AesMode, key: Uint8Array, tagSize?: number, aesOptions: FPEOptions = {}) {
     // XTS mode requires special key length handling (32 or 64 bytes)
-    if (mode === AesMode.XTS) {
+    if (mode === AesMode.XTS || mode === AesMode.XTS_LEGACY) {
       if (![32, 64].includes(key.length)) {
-        throw new Error("Key for XTS mode must be 32 or 64 bytes long")
+        throw new InvalidKeyLengthError("Tamaño de clave inválido para XTS (debe ser 32 o 64 bytes)", { mode, expected: [32, 64], actual: key.length })
+      }
+    } else if (mode === AesMode.SIV) {
+      // SIV divide la clave en dos mitades (S2V y CTR)
+      if (![32, 48, 64].includes(key.length)) {
+        throw new InvalidKeyLengthError("Tamaño de clave inválido para SIV (debe ser 32, 48 o 64 bytes)", { mode, expected: [32, 48, 64], actual: key.length })
       }
     } else if (![16, 24, 32].includes(key.length)) {
-      throw new Error("Key must be 16, 24, or 32 bytes long")
+      throw new InvalidKeyLengthError("Tamaño de clave inválido (debe ser 16, 24 o 32 bytes)", { mode, expected: [16, 24, 32], actual: key.length })
     }
     
     this.mode = mode
-    this.key = key
+    this.key = new Uint8Array(key)
     this.tagSize = tagSize
+    this.aesOptions = aesOptions
   }
 
   /**
@@ -136,6 +166,7 @@ export class HighLevelAES {
     nonce?: Uint8Array,
     tweak?: Uint8Array
   }): EncryptionResult {
+    assertNotDisposed(this.disposed, "HighLevelAES")
     switch (this.mode) {
       case AesMode.ECB:
         return this.encryptECB(plaintext)
@@ -155,27 +186,48 @@ export class HighLevelAES {
       case AesMode.GCM:
         return this.encryptGCM(plaintext, options?.iv, options?.aad)
       
+      case AesMode.GCM_LEGACY:
+        throw new UnsupportedOperationError("GCM_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.GCM", { mode: this.mode, operation: "encrypt" })
+      
       case AesMode.CCM:
         return this.encryptCCM(plaintext, options?.nonce || options?.iv, options?.aad)
       
       case AesMode.EAX:
         return this.encryptEAX(plaintext, options?.nonce || options?.iv, options?.aad)
       
+      case AesMode.EAX_LEGACY:
+        throw new UnsupportedOperationError("EAX_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.EAX", { mode: this.mode, operation: "encrypt" })
+      
+      case AesMode.EAX_PRIME:
+        return this.encryptEAXPrime(plaintext, options?.aad)
+      
       case AesMode.CWC:
         return this.encryptCWC(plaintext, options?.iv, options?.aad)
       
+      case AesMode.CWC_LEGACY:
+        throw new UnsupportedOperationError("CWC_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.CWC", { mode: this.mode, operation: "encrypt" })
+      
       case AesMode.GCM_SIV:
         return this.encryptGCM_SIV(plaintext, options?.nonce || options?.iv, options?.aad)
       
+      case AesMode.GCM_SIV_LEGACY:
+        throw new UnsupportedOperationError("GCM_SIV_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.GCM_SIV", { mode: this.mode, operation: "encrypt" })
+      
       case AesMode.OCB:
         return this.encryptOCB(plaintext, options?.nonce || options?.iv, options?.aad)
       
+      case AesMode.OCB_LEGACY:
+        throw new UnsupportedOperationError("OCB_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.OCB", { mode: this.mode, operation: "encrypt" })
+      
       case AesMode.XTS:
         if (!options?.tweak) {
-          throw new Error("XTS mode requires a tweak")
+          throw new InvalidNonceError("El modo XTS requiere un tweak", { mode: this.mode, parameter: "tweak", expected: [16], actual: null })
         }
         return this.encryptXTS(plaintext, options.tweak)
       
+      case AesMode.XTS_LEGACY:
+        throw new UnsupportedOperationError("XTS_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.XTS", { mode: this.mode, operation: "encrypt" })
+      
       case AesMode.KW:
         return this.encryptKW(plaintext)
       
@@ -193,15 +245,18 @@ export class HighLevelAES {
       
       case AesMode.TKW:
         if (!options?.tweak) {
-          throw new Error("TKW mode requires a tweak")
+          throw new InvalidNonceError("El modo TKW requiere un tweak", { mode: this.mode, parameter: "tweak", expected: [], actual: null })
         }
         return this.encryptTKW(plaintext, options.tweak)
       
       case AesMode.HYBRID_CTR:
         return this.encryptHybridCTR(plaintext, options?.nonce || options?.iv, options?.aad, options?.tweak)
       
+      case AesMode.SIV:
+        return this.encryptSIV(plaintext, options?.nonce || options?.iv, options?.aad)
+      
       default:
-        throw new Error(`Encryption not implemented for mode: ${this.mode}`)
+        throw new UnsupportedOperationError(`Cifrado no implementado para el modo: ${this.mode}`, { mode: this.mode, operation: "encrypt" })
     }
   }
 
@@ -218,6 +273,7 @@ export class HighLevelAES {
     nonce?: Uint8Array,
     tweak?: Uint8Array
   }): Uint8Array {
+    assertNotDisposed(this.disposed, "HighLevelAES")
     switch (this.mode) {
       case AesMode.ECB:
         return this.decryptECB(ciphertext)
@@ -235,105 +291,144 @@ export class HighLevelAES {
         return this.decryptOFB(ciphertext, options?.iv)
       
       case AesMode.GCM:
+      case AesMode.GCM_LEGACY:
         if (!options?.tag) {
-          throw new Error("GCM mode requires an authentication tag")
+          throw new InvalidParameterError("El modo GCM requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         return this.decryptGCM(ciphertext, options.tag, options.iv, options?.aad) || 
-               this.handleDecryptionFailure("GCM authentication failed")
+               this.handleDecryptionFailure("Fallo de autenticación en GCM")
       
       case AesMode.CCM:
         if (!options?.tag) {
-          throw new Error("CCM mode requires an authentication tag")
+          throw new InvalidParameterError("El modo CCM requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         return this.decryptCCM(ciphertext, options.tag, options.nonce || options.iv, options?.aad) || 
-               this.handleDecryptionFailure("CCM authentication failed")
+               this.handleDecryptionFailure("Fallo de autenticación en CCM")
       
       case AesMode.EAX:
+      case AesMode.EAX_LEGACY:
         if (!options?.tag) {
-          throw new Error("EAX mode requires an authentication tag")
+          throw new InvalidParameterError("El modo EAX requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         return this.decryptEAX(ciphertext, options.tag, options.nonce || options.iv, options?.aad) || 
-               this.handleDecryptionFailure("EAX authentication failed")
+               this.handleDecryptionFailure("Fallo de autenticación en EAX")
+      
+      case AesMode.EAX_PRIME:
+        if (!options?.tag) {
+          throw new InvalidParameterError("El modo EAX′ requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
+        }
+        return this.decryptEAXPrime(ciphertext, options.tag, options?.aad) ||
+               this.handleDecryptionFailure("Fallo de autenticación en EAX′")
       
       case AesMode.CWC:
+      case AesMode.CWC_LEGACY:
         if (!options?.tag) {
-          throw new Error("CWC mode requires an authentication tag")
+          throw new InvalidParameterError("El modo CWC requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         return this.decryptCWC(ciphertext, options.tag, options.iv, options?.aad) || 
-               this.handleDecryptionFailure("CWC authentication failed")
+               this.handleDecryptionFailure("Fallo de autenticación en CWC")
       
       case AesMode.GCM_SIV:
+      case AesMode.GCM_SIV_LEGACY:
         if (!options?.tag) {
-          throw new Error("GCM-SIV mode requires an authentication tag")
+          throw new InvalidParameterError("El modo GCM-SIV requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         return this.decryptGCM_SIV(ciphertext, options.tag, options.nonce || options.iv, options?.aad) || 
-               this.handleDecryptionFailure("GCM-SIV authentication failed")
+               this.handleDecryptionFailure("Fallo de autenticación en GCM-SIV")
       
       case AesMode.OCB:
+      case AesMode.OCB_LEGACY:
         if (!options?.tag) {
-          throw new Error("OCB mode requires an authentication tag")
+          throw new InvalidParameterError("El modo OCB requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         return this.decryptOCB(ciphertext, options.tag, options.nonce || options.iv, options?.aad) || 
-               this.handleDecryptionFailure("OCB authentication failed")
+               this.handleDecryptionFailure("Fallo de autenticación en OCB")
       
       case AesMode.XTS:
+      case AesMode.XTS_LEGACY:
         if (!options?.tweak) {
-          throw new Error("XTS mode requires a tweak")
+          throw new InvalidNonceError("El modo XTS requiere un tweak", { mode: this.mode, parameter: "tweak", expected: [16], actual: null })
         }
         return this.decryptXTS(ciphertext, options.tweak)
       
       case AesMode.KW:
         return this.decryptKW(ciphertext) || 
-               this.handleDecryptionFailure("KW decryption failed")
+               this.handleDecryptionFailure("Fallo de integridad al desenvolver la clave en KW")
       
       case AesMode.KWP:
         return this.decryptKWP(ciphertext) || 
-               this.handleDecryptionFailure("KWP decryption failed")
+               this.handleDecryptionFailure("Fallo de integridad al desenvolver la clave en KWP")
       
       case AesMode.CBC_MAC:
-        throw new Error("CBC-MAC is a MAC-only mode and does not support decryption")
+        throw new UnsupportedOperationError("CBC-MAC solo genera etiquetas de autenticación y no admite descifrado", { mode: this.mode, operation: "decrypt" })
       
       case AesMode.CMAC:
-        throw new Error("CMAC is a MAC-only mode and does not support decryption")
+        throw new UnsupportedOperationError("CMAC solo genera etiquetas de autenticación y no admite descifrado", { mode: this.mode, operation: "decrypt" })
       
       case AesMode.PMAC_SIV:
         if (!options?.tag) {
-          throw new Error("PMAC-SIV mode requires an authentication tag")
+          throw new InvalidParameterError("El modo PMAC-SIV requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         const pmacSivResult = this.decryptPMAC_SIV(ciphertext, options.tag, options.nonce || options.iv, options?.aad)
         if (pmacSivResult === null) {
-          return this.handleDecryptionFailure("PMAC-SIV authentication failed")
+          return this.handleDecryptionFailure("Fallo de autenticación en PMAC-SIV")
         }
         return pmacSivResult
       
       case AesMode.TKW:
         if (!options?.tweak) {
-          throw new Error("TKW mode requires a tweak")
+          throw new InvalidNonceError("El modo TKW requiere un tweak", { mode: this.mode, parameter: "tweak", expected: [], actual: null })
         }
         const tkwResult = this.decryptTKW(ciphertext, options.tweak)
         if (tkwResult === null) {
-          return this.handleDecryptionFailure("TKW decryption failed")
+          return this.handleDecryptionFailure("Fallo de integridad al desenvolver la clave en TKW")
         }
         return tkwResult
       
       case AesMode.HYBRID_CTR:
         if (!options?.tag) {
-          throw new Error("HybridCTR mode requires an authentication tag")
+          throw new InvalidParameterError("El modo HybridCTR requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
         }
         if (!options?.nonce) {
-          throw new Error("HybridCTR mode requires a nonce")
+          throw new InvalidNonceError("El modo HybridCTR requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [], actual: null })
         }
         const hybridCtrResult = this.decryptHybridCTR(ciphertext, options.tag, options.nonce, options?.aad, options?.tweak)
         if (hybridCtrResult === null) {
-          return this.handleDecryptionFailure("HybridCTR authentication failed")
+          return this.handleDecryptionFailure("Fallo de autenticación en HybridCTR")
         }
         return hybridCtrResult
       
+      case AesMode.SIV:
+        if (!options?.tag) {
+          throw new InvalidParameterError("El modo SIV requiere una etiqueta de autenticación", { mode: this.mode, parameter: "tag" })
+        }
+        return this.decryptSIV(ciphertext, options.tag, options.nonce || options.iv, options?.aad) ||
+               this.handleDecryptionFailure("Fallo de autenticación en SIV")
+      
       default:
-        throw new Error(`Decryption not implemented for mode: ${this.mode}`)
+        throw new UnsupportedOperationError(`Descifrado no implementado para el modo: ${this.mode}`, { mode: this.mode, operation: "decrypt" })
     }
   }
 
+  /**
+   * Descifra datos binarios igual que {@link decrypt}, pero sin lanzar errores de la biblioteca: devuelve
+   * `{ ok: true, plaintext }` o `{ ok: false, reason }`, donde `reason` es el error que habría lanzado `decrypt`
+   * (`AuthenticationError` si la etiqueta o la comprobación de integridad fallan, `InvalidPaddingError` si el
+   * relleno PKCS#7 de ECB o CBC no es válido).
+   * @param ciphertext Los datos a descifrar
+   * @param options Opciones adicionales como IV, etiqueta, AAD, etc.
+   * @returns Resultado del descifrado
+   */
+  public tryDecrypt(ciphertext: Uint8Array, options?: {
+    iv?: Uint8Array,
+    tag?: Uint8Array,
+    aad?: Uint8Array,
+    nonce?: Uint8Array,
+    tweak?: Uint8Array
+  }): DecryptResult {
+    return toDecryptResult(this.mode, "Fallo de autenticación", () => this.decrypt(ciphertext, options))
+  }
+
   /**
    * Cifra datos de texto.
    * @param plaintext El texto a cifrar
@@ -388,12 +483,25 @@ export class HighLevelAES {
     nonce?: Uint8Array,
     tweak?: Uint8Array
   }): string {
+    assertNotDisposed(this.disposed, "HighLevelAES")
+    if (this.mode === AesMode.FPE_FF1_LEGACY) {
+      throw new UnsupportedOperationError("FPE_FF1_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.FPE_FF1", { mode: this.mode, operation: "encryptTextWithAlphabet" });
+    }
     if (this.mode === AesMode.FPE_FF1) {
-      const fpe = new ModeOfOperationFPE_FF1(this.key, alphabet);
+      const fpe = new ModeOfOperationFPE_FF1(this.key, alphabet, this.aesOptions);
       const tweak = options?.tweak || new Uint8Array(0);
-      return fpe.encrypt(plaintext, tweak);
+      const result = fpe.encrypt(plaintext, tweak);
+      fpe.dispose();
+      return result;
     }
-    throw new Error("Alphabet-based encryption only supported for FPE-FF1 mode");
+    if (this.mode === AesMode.FPE_FF3_1) {
+      // FF3-1 exige un tweak de 7 bytes; sin tweak se usan ceros
+      const fpe = new ModeOfOperationFPE_FF3_1(this.key, alphabet, this.aesOptions);
+      const result = fpe.encrypt(plaintext, options?.tweak);
+      fpe.dispose();
+      return result;
+    }
+    throw new UnsupportedOperationError("El cifrado con alfabeto solo está disponible en los modos FPE-FF1 y FPE-FF3-1", { mode: this.mode, operation: "encryptTextWithAlphabet" });
   }
 
   /**
@@ -410,12 +518,66 @@ export class HighLevelAES {
     nonce?: Uint8Array,
     tweak?: Uint8Array
   }): string {
-    if (this.mode === AesMode.FPE_FF1) {
-      const fpe = new ModeOfOperationFPE_FF1(this.key, alphabet);
+    assertNotDisposed(this.disposed, "HighLevelAES")
+    if (this.mode === AesMode.FPE_FF1 || this.mode === AesMode.FPE_FF1_LEGACY) {
+      const fpe = new ModeOfOperationFPE_FF1(this.key, alphabet, { ...this.aesOptions, legacyPBlock: this.mode === AesMode.FPE_FF1_LEGACY });
       const tweak = options?.tweak || new Uint8Array(0);
-      return fpe.decrypt(ciphertext, tweak);
+      const result = fpe.decrypt(ciphertext, tweak);
+      fpe.dispose();
+      return result;
     }
-    throw new Error("Alphabet-based decryption only supported for FPE-FF1 mode");
+    if (this.mode === AesMode.FPE_FF3_1) {
+      // FF3-1 exige un tweak de 7 bytes; sin tweak se usan ceros
+      const fpe = new ModeOfOperationFPE_FF3_1(this.key, alphabet, this.aesOptions);
+      const result = fpe.decrypt(ciphertext, options?.tweak);
+      fpe.dispose();
+      return result;
+    }
+    throw new UnsupportedOperationError("El descifrado con alfabeto solo está disponible en los modos FPE-FF1 y FPE-FF3-1", { mode: this.mode, operation: "decryptTextWithAlphabet" });
+  }
+
+  /**
+   * Cifra un dato con formato (tarjeta, SSN, IBAN, teléfono...) según una plantilla FPE (solo en modo FPE-FF1).
+   * Los separadores y los segmentos en claro se conservan y el dígito de control, si la plantilla lo declara, se recalcula.
+   * @param value El valor a cifrar, p. ej. "4111-1111-1111-1111"
+   * @param template La plantilla, p. ej. `FPE_TEMPLATES.PAN`
+   * @param options Opciones adicionales como el tweak
+   * @returns El valor cifrado con el mismo formato
+   */
+  public encryptTextWithTemplate(value: string, template: FPETemplate, options?: {
+    tweak?: Uint8Array
+  }): string {
+    assertNotDisposed(this.disposed, "HighLevelAES")
+    if (this.mode === AesMode.FPE_FF1_LEGACY) {
+      throw new UnsupportedOperationError("FPE_FF1_LEGACY solo permite descifrar datos antiguos; cifre con AesMode.FPE_FF1", { mode: this.mode, operation: "encryptTextWithTemplate" });
+    }
+    if (this.mode !== AesMode.FPE_FF1) {
+      throw new UnsupportedOperationError("El cifrado con plantilla solo está disponible en el modo FPE-FF1", { mode: this.mode, operation: "encryptTextWithTemplate" });
+    }
+    const cipher = new FPETemplateCipher(this.key, template, this.aesOptions);
+    const result = cipher.encrypt(value, options?.tweak);
+    cipher.dispose();
+    return result;
+  }
+
+  /**
+   * Descifra un dato cifrado con {@link encryptTextWithTemplate} usando la misma plantilla y el mismo tweak.
+   * @param value El valor cifrado
+   * @param template La plantilla usada al cifrar
+   * @param options Opciones adicionales como el tweak
+   * @returns El valor original
+   */
+  public decryptTextWithTemplate(value: string, template: FPETemplate, options?: {
+    tweak?: Uint8Array
+  }): string {
+    assertNotDisposed(this.disposed, "HighLevelAES")
+    if (this.mode !== AesMode.FPE_FF1 && this.mode !== AesMode.FPE_FF1_LEGACY) {
+      throw new UnsupportedOperationError("El descifrado con plantilla solo está disponible en el modo FPE-FF1", { mode: this.mode, operation: "decryptTextWithTemplate" });
+    }
+    const cipher = new FPETemplateCipher(this.key, template, { ...this.aesOptions, legacyPBlock: this.mode === AesMode.FPE_FF1_LEGACY });
+    const result = cipher.decrypt(value, options?.tweak);
+    cipher.dispose();
+    return result;
   }
 
   /**
@@ -449,10 +611,26 @@ export class HighLevelAES {
     return this.decrypt(fileData, options)
   }
 
+  /**
+   * Borra la copia de la clave y destruye la instancia GCM compartida. Las demás instancias de modo se crean en cada
+   * operación y se destruyen al terminarla, por lo que no queda material de clave fuera de esta instancia.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  public dispose(): void {
+    this.disposed = true
+    this.gcm?.dispose()
+    this.gcm = null
+    wipe(this.key)
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
+
   // --- Private implementation methods ---
 
   private handleDecryptionFailure(message: string): never {
-    throw new Error(message)
+    throw new AuthenticationError(message, { mode: this.mode })
   }
 
   private arrayBufferToBase64(buffer: Uint8Array): string {
@@ -478,297 +656,389 @@ export class HighLevelAES {
 
   private encryptECB(plaintext: Uint8Array): EncryptionResult {
     // Pad plaintext to multiple of 16 bytes
-    const paddedPlaintext = this.padPkcs7(plaintext)
-    const ecb = new ModeOfOperationECB(this.key)
+    const paddedPlaintext = pkcs7pad(plaintext)
+    const ecb = new ModeOfOperationECB(this.key, this.aesOptions)
     const ciphertext = ecb.encrypt(paddedPlaintext)
+    ecb.dispose()
     return { ciphertext }
   }
 
   private decryptECB(ciphertext: Uint8Array): Uint8Array {
-    const ecb = new ModeOfOperationECB(this.key)
+    const ecb = new ModeOfOperationECB(this.key, this.aesOptions)
     const plaintext = ecb.decrypt(ciphertext)
-    return this.unpadPkcs7(plaintext)
+    ecb.dispose()
+    return pkcs7strip(plaintext)
   }
 
   private encryptCBC(plaintext: Uint8Array, iv?: Uint8Array): EncryptionResult {
     const actualIv = iv || this.generateRandomIv()
     // Pad plaintext to multiple of 16 bytes
-    const paddedPlaintext = this.padPkcs7(plaintext)
-    const cbc = new ModeOfOperationCBC(this.key, actualIv)
+    const paddedPlaintext = pkcs7pad(plaintext)
+    const cbc = new ModeOfOperationCBC(this.key, actualIv, this.aesOptions)
     const ciphertext = cbc.encrypt(paddedPlaintext)
+    cbc.dispose()
     return { ciphertext, iv: actualIv }
   }
 
   private decryptCBC(ciphertext: Uint8Array, iv?: Uint8Array): Uint8Array {
     if (!iv) {
-      throw new Error("CBC mode requires an IV")
+      throw new InvalidNonceError("El modo CBC requiere un IV", { mode: this.mode, parameter: "iv", expected: [16], actual: null })
     }
-    const cbc = new ModeOfOperationCBC(this.key, iv)
+    const cbc = new ModeOfOperationCBC(this.key, iv, this.aesOptions)
     const plaintext = cbc.decrypt(ciphertext)
-    return this.unpadPkcs7(plaintext)
+    cbc.dispose()
+    return pkcs7strip(plaintext)
   }
 
   private encryptCTR(plaintext: Uint8Array, iv?: Uint8Array): EncryptionResult {
     const actualIv = iv || this.generateRandomIv()
-    const ctr = new ModeOfOperationCTR(this.key, actualIv)
+    const ctr = new ModeOfOperationCTR(this.key, actualIv, this.aesOptions)
     const ciphertext = ctr.encrypt(plaintext)
+    ctr.dispose()
     return { ciphertext, iv: actualIv }
   }
 
   private decryptCTR(ciphertext: Uint8Array, iv?: Uint8Array): Uint8Array {
     if (!iv) {
-      throw new Error("CTR mode requires an IV")
+      throw new InvalidNonceError("El modo CTR requiere un IV", { mode: this.mode, parameter: "iv", expected: [16], actual: null })
     }
-    const ctr = new ModeOfOperationCTR(this.key, iv)
-    return ctr.decrypt(ciphertext)
+    const ctr = new ModeOfOperationCTR(this.key, iv, this.aesOptions)
+    const result = ctr.decrypt(ciphertext)
+    ctr.dispose()
+    return result
   }
 
   private encryptCFB(plaintext: Uint8Array, iv?: Uint8Array): EncryptionResult {
     const actualIv = iv || this.generateRandomIv()
-    const cfb = new ModeOfOperationCFB(this.key, actualIv)
+    const cfb = new ModeOfOperationCFB(this.key, actualIv, undefined, this.aesOptions)
     const ciphertext = cfb.encrypt(plaintext)
+    cfb.dispose()
     return { ciphertext, iv: actualIv }
   }
 
   private decryptCFB(ciphertext: Uint8Array, iv?: Uint8Array): Uint8Array {
     if (!iv) {
-      throw new Error("CFB mode requires an IV")
+      throw new InvalidNonceError("El modo CFB requiere un IV", { mode: this.mode, parameter: "iv", expected: [16], actual: null })
     }
-    const cfb = new ModeOfOperationCFB(this.key, iv)
-    return cfb.decrypt(ciphertext)
+    const cfb = new ModeOfOperationCFB(this.key, iv, undefined, this.aesOptions)
+    const result = cfb.decrypt(ciphertext)
+    cfb.dispose()
+    return result
   }
 
   private encryptOFB(plaintext: Uint8Array, iv?: Uint8Array): EncryptionResult {
     const actualIv = iv || this.generateRandomIv()
-    const ofb = new ModeOfOperationOFB(this.key, actualIv)
+    const ofb = new ModeOfOperationOFB(this.key, actualIv, this.aesOptions)
     const ciphertext = ofb.encrypt(plaintext)
+    ofb.dispose()
     return { ciphertext, iv: actualIv }
   }
 
   private decryptOFB(ciphertext: Uint8Array, iv?: Uint8Array): Uint8Array {
     if (!iv) {
-      throw new Error("OFB mode requires an IV")
+      throw new InvalidNonceError("El modo OFB requiere un IV", { mode: this.mode, parameter: "iv", expected: [16], actual: null })
+    }
+    const ofb = new ModeOfOperationOFB(this.key, iv, this.aesOptions)
+    const result = ofb.decrypt(ciphertext)
+    ofb.dispose()
+    return result
+  }
+
+  // A diferencia de los demás modos, la instancia GCM se crea en el primer uso y se conserva entre operaciones: así el
+  // mismo IV explícito en dos cifrados lanza `InvalidNonceError`.
+  private getGCM(): ModeOfOperationGCM {
+    if (!this.gcm) {
+      // La longitud de la etiqueta sale de tagSize y no de la etiqueta recibida: si no, un atacante podría recortarla.
+      this.gcm = new ModeOfOperationGCM(this.key, { ...this.aesOptions, tagLength: this.tagSize || 16, legacyFormat: this.mode === AesMode.GCM_LEGACY })
     }
-    const ofb = new ModeOfOperationOFB(this.key, iv)
-    return ofb.decrypt(ciphertext)
+    return this.gcm
   }
 
   private encryptGCM(plaintext: Uint8Array, iv?: Uint8Array, aad?: Uint8Array): EncryptionResult {
-    const actualIv = iv || this.generateRandomIv(12) // GCM typically uses 12-byte IV
-    const gcm = new ModeOfOperationGCM(this.key, actualIv)
-    const result = gcm.encrypt(plaintext, aad)
+    if (iv) {
+      const result = this.getGCM().encrypt(iv, plaintext, aad)
+      return { ciphertext: result.ciphertext, tag: result.tag, iv }
+    }
+    // Los IV aleatorios de 96 bits no se registran: solo se repiten con una probabilidad despreciable y, si se
+    // guardaran, la instancia compartida acumularía uno por cada cifrado.
+    const actualIv = this.generateRandomIv(12)
+    const gcm = new ModeOfOperationGCM(this.key, { ...this.aesOptions, tagLength: this.tagSize || 16 })
+    const result = gcm.encrypt(actualIv, plaintext, aad)
+    gcm.dispose()
     return { ciphertext: result.ciphertext, tag: result.tag, iv: actualIv }
   }
 
   private decryptGCM(ciphertext: Uint8Array, tag: Uint8Array, iv?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
     if (!iv) {
-      throw new Error("GCM mode requires an IV")
+      throw new InvalidNonceError("El modo GCM requiere un IV", { mode: this.mode, parameter: "iv", expected: [], actual: null })
     }
-    const gcm = new ModeOfOperationGCM(this.key, iv)
-    return gcm.decrypt(ciphertext, tag, aad)
+    return this.getGCM().decrypt(iv, ciphertext, tag, aad)
   }
 
   private encryptCCM(plaintext: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): EncryptionResult {
     if (!nonce) {
-      throw new Error("CCM mode requires a nonce")
+      throw new InvalidNonceError("El modo CCM requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [7, 8, 9, 10, 11, 12, 13], actual: null })
     }
-    const ccm = new ModeOfOperationCCM(this.key, this.tagSize || 16)
+    const ccm = new ModeOfOperationCCM(this.key, this.tagSize || 16, undefined, this.aesOptions)
     const result = ccm.encrypt(plaintext, nonce, aad || new Uint8Array(0))
+    ccm.dispose()
     return { ciphertext: result.ciphertext, tag: result.tag, iv: nonce }
   }
 
   private decryptCCM(ciphertext: Uint8Array, tag: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
     if (!nonce) {
-      throw new Error("CCM mode requires a nonce")
+      throw new InvalidNonceError("El modo CCM requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [7, 8, 9, 10, 11, 12, 13], actual: null })
     }
-    const ccm = new ModeOfOperationCCM(this.key, tag.length)
-    return ccm.decrypt(ciphertext, nonce, tag, aad || new Uint8Array(0))
+    const ccm = new ModeOfOperationCCM(this.key, tag.length, undefined, this.aesOptions)
+    const result = ccm.decrypt(ciphertext, nonce, tag, aad || new Uint8Array(0))
+    ccm.dispose()
+    return result
   }
 
   private encryptEAX(plaintext: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): EncryptionResult {
     const actualNonce = nonce || this.generateRandomIv()
-    const eax = new ModeOfOperationEAX(this.key, this.tagSize || 16)
+    const eax = new ModeOfOperationEAX(this.key, this.tagSize || 16, this.aesOptions)
     const result = eax.encrypt(plaintext, actualNonce, aad || new Uint8Array(0))
+    eax.dispose()
     return { ciphertext: result.ciphertext, tag: result.tag, iv: actualNonce }
   }
 
   private decryptEAX(ciphertext: Uint8Array, tag: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
     if (!nonce) {
-      throw new Error("EAX mode requires a nonce")
+      throw new InvalidNonceError("El modo EAX requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [], actual: null })
+    }
+    const eax = new ModeOfOperationEAX(this.key, tag.length, { ...this.aesOptions, legacyDomain: this.mode === AesMode.EAX_LEGACY })
+    const result = eax.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    eax.dispose()
+    return result
+  }
+
+  // EAX′ no tiene nonce propio: el cleartext (las cabeceras C12.22, en `aad`) hace de nonce, así que no se genera ninguno.
+  private encryptEAXPrime(plaintext: Uint8Array, cleartext?: Uint8Array): EncryptionResult {
+    if (!cleartext) {
+      throw new InvalidParameterError("El modo EAX′ requiere el cleartext en `aad`", { mode: this.mode, parameter: "aad" })
+    }
+    const eaxPrime = new ModeOfOperationEAXPrime(this.key, this.aesOptions)
+    const result = eaxPrime.encrypt(plaintext, cleartext)
+    eaxPrime.dispose()
+    return { ciphertext: result.ciphertext, tag: result.tag }
+  }
+
+  private decryptEAXPrime(ciphertext: Uint8Array, tag: Uint8Array, cleartext?: Uint8Array): Uint8Array | null {
+    if (!cleartext) {
+      throw new InvalidParameterError("El modo EAX′ requiere el cleartext en `aad`", { mode: this.mode, parameter: "aad" })
     }
-    const eax = new ModeOfOperationEAX(this.key, tag.length)
-    return eax.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    const eaxPrime = new ModeOfOperationEAXPrime(this.key, this.aesOptions)
+    const result = eaxPrime.decrypt(ciphertext, tag, cleartext)
+    eaxPrime.dispose()
+    return result
   }
 
   private encryptCWC(plaintext: Uint8Array, iv?: Uint8Array, aad?: Uint8Array): EncryptionResult {
-    const actualIv = iv || this.generateRandomIv()
-    const cwc = new ModeOfOperationCWC(this.key)
+    const actualIv = iv || this.generateRandomIv(11)
+    const cwc = new ModeOfOperationCWC(this.key, this.aesOptions)
     const result = cwc.encrypt(plaintext, actualIv, aad || new Uint8Array(0))
+    cwc.dispose()
     return { ciphertext: result.ciphertext, tag: result.tag, iv: actualIv }
   }
 
   private decryptCWC(ciphertext: Uint8Array, tag: Uint8Array, iv?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
     if (!iv) {
-      throw new Error("CWC mode requires an IV")
+      throw new InvalidNonceError("El modo CWC requiere un IV", { mode: this.mode, parameter: "iv", expected: [this.mode === AesMode.CWC_LEGACY ? 12 : 11], actual: null })
     }
-    const cwc = new ModeOfOperationCWC(this.key)
-    return cwc.decrypt(ciphertext, tag, iv, aad || new Uint8Array(0))
+    const cwc = this.mode === AesMode.CWC_LEGACY
+      ? new ModeOfOperationCWCLegacy(this.key, this.aesOptions)
+      : new ModeOfOperationCWC(this.key, this.aesOptions)
+    const result = cwc.decrypt(ciphertext, tag, iv, aad || new Uint8Array(0))
+    cwc.dispose()
+    return result
   }
 
   private encryptGCM_SIV(plaintext: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): EncryptionResult {
     if (!nonce) {
-      throw new Error("GCM-SIV mode requires a nonce")
+      throw new InvalidNonceError("El modo GCM-SIV requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [12], actual: null })
     }
-    const gcmSiv = new ModeOfOperationGCM_SIV(this.key)
+    const gcmSiv = new ModeOfOperationGCM_SIV(this.key, this.aesOptions)
     const result = gcmSiv.encrypt(plaintext, nonce, aad || new Uint8Array(0))
+    gcmSiv.dispose()
     return { ciphertext: result.ciphertext, tag: result.tag, iv: nonce }
   }
 
   private decryptGCM_SIV(ciphertext: Uint8Array, tag: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
     if (!nonce) {
-      throw new Error("GCM-SIV mode requires a nonce")
+      throw new InvalidNonceError("El modo GCM-SIV requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [12], actual: null })
     }
-    const gcmSiv = new ModeOfOperationGCM_SIV(this.key)
-    return gcmSiv.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    const gcmSiv = new ModeOfOperationGCM_SIV(this.key, { ...this.aesOptions, legacyFormat: this.mode === AesMode.GCM_SIV_LEGACY })
+    const result = gcmSiv.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    gcmSiv.dispose()
+    return result
   }
 
   private encryptOCB(plaintext: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): EncryptionResult {
     if (!nonce) {
-      throw new Error("OCB mode requires a nonce")
+      throw new InvalidNonceError("El modo OCB requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], actual: null })
     }
-    const ocb = new ModeOfOperationOCB(this.key, this.tagSize || 16)
+    const ocb = new ModeOfOperationOCB(this.key, this.tagSize || 16, this.aesOptions)
     const result = ocb.encrypt(plaintext, nonce, aad || new Uint8Array(0))
+    ocb.dispose()
     return { ciphertext: result.ciphertext, tag: result.tag, iv: nonce }
   }
 
   private decryptOCB(ciphertext: Uint8Array, tag: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
     if (!nonce) {
-      throw new Error("OCB mode requires a nonce")
+      throw new InvalidNonceError("El modo OCB requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], actual: null })
     }
-    const ocb = new ModeOfOperationOCB(this.key, tag.length)
-    return ocb.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    const ocb = new ModeOfOperationOCB(this.key, tag.length, { ...this.aesOptions, legacyFormat: this.mode === AesMode.OCB_LEGACY })
+    const result = ocb.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    ocb.dispose()
+    return result
   }
 
   private encryptXTS(plaintext: Uint8Array, tweak: Uint8Array): EncryptionResult {
-    const xts = new ModeOfOperationXTS(this.key)
+    const xts = new ModeOfOperationXTS(this.key, this.aesOptions)
     const ciphertext = xts.encrypt(plaintext, tweak)
+    xts.dispose()
     return { ciphertext }
   }
 
   private decryptXTS(ciphertext: Uint8Array, tweak: Uint8Array): Uint8Array {
-    const xts = new ModeOfOperationXTS(this.key)
-    return xts.decrypt(ciphertext, tweak)
+    const xts = new ModeOfOperationXTS(this.key, { ...this.aesOptions, legacyFormat: this.mode === AesMode.XTS_LEGACY })
+    const result = xts.decrypt(ciphertext, tweak)
+    xts.dispose()
+    return result
   }
 
   private encryptKW(plaintext: Uint8Array): EncryptionResult {
-    const kw = new ModeOfOperationKW(this.key)
+    const kw = new ModeOfOperationKW(this.key, this.aesOptions)
     const ciphertext = kw.wrap(plaintext)
+    kw.dispose()
     return { ciphertext }
   }
 
   private decryptKW(ciphertext: Uint8Array): Uint8Array | null {
-    const kw = new ModeOfOperationKW(this.key)
-    return kw.unwrap(ciphertext)
+    const kw = new ModeOfOperationKW(this.key, this.aesOptions)
+    const result = kw.unwrap(ciphertext)
+    kw.dispose()
+    return result
   }
 
   private encryptKWP(plaintext: Uint8Array): EncryptionResult {
-    const kwp = new ModeOfOperationKWP(this.key)
+    const kwp = new ModeOfOperationKWP(this.key, this.aesOptions)
     const ciphertext = kwp.wrap(plaintext)
+    kwp.dispose()
     return { ciphertext }
   }
 
   private decryptKWP(ciphertext: Uint8Array): Uint8Array | null {
-    const kwp = new ModeOfOperationKWP(this.key)
-    return kwp.unwrap(ciphertext)
+    const kwp = new ModeOfOperationKWP(this.key, this.aesOptions)
+    const result = kwp.unwrap(ciphertext)
+    kwp.dispose()
+    return result
   }
 
   private encryptFPE_FF1(plaintext: string, tweak?: Uint8Array): EncryptionResult {
     // FPE-FF1 works differently - it encrypts strings and returns strings
     // This is a special case that doesn't fit the standard binary encryption model
-    throw new Error("FPE-FF1 requires alphabet specification, use encryptTextWithAlphabet method instead");
+    throw new UnsupportedOperationError("FPE-FF1 requiere un alfabeto: usar encryptTextWithAlphabet", { mode: this.mode, operation: "encrypt" });
   }
 
   private decryptFPE_FF1(ciphertext: string, tweak?: Uint8Array): string {
     // FPE-FF1 works differently - it decrypts strings and returns strings
     // This is a special case that doesn't fit the standard binary encryption model
-    throw new Error("FPE-FF1 requires alphabet specification, use decryptTextWithAlphabet method instead");
+    throw new UnsupportedOperationError("FPE-FF1 requiere un alfabeto: usar decryptTextWithAlphabet", { mode: this.mode, operation: "decrypt" });
   }
 
   private generateCBC_MAC(plaintext: Uint8Array, tagSize?: number): EncryptionResult {
-    const cbcMac = new ModeOfOperationCBC_MAC(this.key)
+    const cbcMac = new ModeOfOperationCBC_MAC(this.key, this.aesOptions)
     const tag = cbcMac.generateTag(plaintext, tagSize || 16)
+    cbcMac.dispose()
     return { ciphertext: new Uint8Array(0), tag }
   }
 
   private generateCMAC(plaintext: Uint8Array, tagSize?: number): EncryptionResult {
-    const cmac = new ModeOfOperationCMAC(this.key)
+    const cmac = new ModeOfOperationCMAC(this.key, this.aesOptions)
     const tag = cmac.generateTag(plaintext, tagSize || 16)
+    cmac.dispose()
     return { ciphertext: new Uint8Array(0), tag }
   }
 
   private verifyCMAC(plaintext: Uint8Array, tag: Uint8Array): boolean {
-    const cmac = new ModeOfOperationCMAC(this.key)
-    return cmac.verifyTag(plaintext, tag)
+    const cmac = new ModeOfOperationCMAC(this.key, this.aesOptions)
+    const result = cmac.verifyTag(plaintext, tag)
+    cmac.dispose()
+    return result
   }
 
   private encryptPMAC_SIV(plaintext: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): EncryptionResult {
     const actualNonce = nonce || this.generateRandomIv()
-    const pmacSiv = new ModeOfOperationPMAC_SIV(this.key, this.tagSize || 16)
+    const pmacSiv = new ModeOfOperationPMAC_SIV(this.key, this.tagSize || 16, this.aesOptions)
     const result = pmacSiv.encrypt(plaintext, actualNonce, aad || new Uint8Array(0))
+    pmacSiv.dispose()
     return { ciphertext: result.ciphertext, tag: result.iv_tag, iv: actualNonce }
   }
 
   private decryptPMAC_SIV(ciphertext: Uint8Array, tag: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
     if (!nonce) {
-      throw new Error("PMAC-SIV mode requires a nonce")
+      throw new InvalidNonceError("El modo PMAC-SIV requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [], actual: null })
     }
-    const pmacSiv = new ModeOfOperationPMAC_SIV(this.key, tag.length)
-    return pmacSiv.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    const pmacSiv = new ModeOfOperationPMAC_SIV(this.key, tag.length, this.aesOptions)
+    const result = pmacSiv.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0))
+    pmacSiv.dispose()
+    return result
   }
 
+  // TKW envuelve siempre en formato v2 y desenvuelve v1 y v2, detectando el formato por el ICV.
   private encryptTKW(plaintext: Uint8Array, tweak: Uint8Array): EncryptionResult {
-    const tkw = new ModeOfOperationTKW(this.key)
+    const tkw = new ModeOfOperationTKW(this.key, this.aesOptions)
     const ciphertext = tkw.wrap(plaintext, tweak)
+    tkw.dispose()
     return { ciphertext }
   }
 
   private decryptTKW(ciphertext: Uint8Array, tweak: Uint8Array): Uint8Array | null {
-    const tkw = new ModeOfOperationTKW(this.key)
-    return tkw.unwrap(ciphertext, tweak)
+    const tkw = new ModeOfOperationTKW(this.key, this.aesOptions)
+    const result = tkw.unwrap(ciphertext, tweak)
+    tkw.dispose()
+    return result
   }
 
   private encryptHybridCTR(plaintext: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array, tweak?: Uint8Array): EncryptionResult {
-    const hybridCtr = new ModeOfOperationHybridCTR(this.key, this.tagSize || 16)
+    const hybridCtr = new ModeOfOperationHybridCTR(this.key, this.tagSize || 16, this.aesOptions)
     const result = hybridCtr.encrypt(plaintext, nonce, aad || new Uint8Array(0), tweak || new Uint8Array(16))
+    hybridCtr.dispose()
     return { ciphertext: result.ciphertext, tag: result.tag, iv: result.nonce }
   }
 
   private decryptHybridCTR(ciphertext: Uint8Array, tag: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array, tweak?: Uint8Array): Uint8Array | null {
     if (!nonce) {
-      throw new Error("HybridCTR mode requires a nonce")
+      throw new InvalidNonceError("El modo HybridCTR requiere un nonce", { mode: this.mode, parameter: "nonce", expected: [], actual: null })
     }
-    const hybridCtr = new ModeOfOperationHybridCTR(this.key, tag.length)
-    return hybridCtr.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0), tweak || new Uint8Array(16))
+    const hybridCtr = new ModeOfOperationHybridCTR(this.key, tag.length, this.aesOptions)
+    const result = hybridCtr.decrypt(ciphertext, tag, nonce, aad || new Uint8Array(0), tweak || new Uint8Array(16))
+    hybridCtr.dispose()
+    return result
   }
 
-  // --- Padding methods ---
+  // SIV es determinista: el nonce es opcional y, si se indica, va como último componente de los datos asociados
+  private sivAssociatedData(nonce?: Uint8Array, aad?: Uint8Array): Uint8Array[] {
+    const components: Uint8Array[] = []
+    if (aad) components.push(aad)
+    if (nonce) components.push(nonce)
+    return components
+  }
 
-  private padPkcs7(data: Uint8Array): Uint8Array {
-    const blockSize = 16
-    const padding = blockSize - (data.length % blockSize)
-    const paddedData = new Uint8Array(data.length + padding)
-    paddedData.set(data)
-    for (let i = data.length; i < paddedData.length; i++) {
-      paddedData[i] = padding
-    }
-    return paddedData
+  private encryptSIV(plaintext: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): EncryptionResult {
+    const siv = new ModeOfOperationSIV(this.key, this.aesOptions)
+    const result = siv.encrypt(plaintext, this.sivAssociatedData(nonce, aad))
+    siv.dispose()
+    return { ciphertext: result.ciphertext, tag: result.tag, iv: nonce }
   }
 
-  private unpadPkcs7(data: Uint8Array): Uint8Array {
-    if (data.length === 0) return data
-    const padding = data[data.length - 1]
-    if (padding > 16) return data
-    return data.slice(0, data.length - padding)
+  private decryptSIV(ciphertext: Uint8Array, tag: Uint8Array, nonce?: Uint8Array, aad?: Uint8Array): Uint8Array | null {
+    const siv = new ModeOfOperationSIV(this.key, this.aesOptions)
+    const result = siv.decrypt(ciphertext, tag, this.sivAssociatedData(nonce, aad))
+    siv.dispose()
+    return result
   }
 
   // --- Utility methods ---
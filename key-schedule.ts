@@ -0,0 +1,218 @@
+import { NUMBER_OF_ROUNDS } from "./constants"
+import { assertNotDisposed, wipe } from "./dispose"
+import { InvalidParameterError } from "./errors"
+
+// Expansión de clave reutilizable y caché de expansiones.
+//
+// La expansión de clave es la parte cara de construir un núcleo AES. Un `ExpandedKey` la calcula una vez y puede
+// compartirse entre núcleos y modos de operación, exportarse como palabras de 32 bits e importarse más tarde.
+// `KeyScheduleCache` guarda las expansiones más recientes para que los servicios que reciben la misma clave
+// una y otra vez no la expandan en cada petición.
+
+/**
+ * Claves de ronda en palabras de 32 bits, formato de exportación e importación de {@link ExpandedKey}.
+ * En ambos arrays la ronda r ocupa los índices [4r, 4r + 4).
+ * - `encryption`: claves de ronda de cifrado.
+ * - `decryption`: claves de ronda de descifrado (cifrado inverso equivalente, en orden inverso).
+ */
+export interface RoundKeyWords {
+  encryption: Uint32Array
+  decryption: Uint32Array
+}
+
+/**
+ * Clave AES ya expandida en claves de ronda.
+ *
+ * Se obtiene con `expandKey()` (ver `aes.ts`), a partir de una caché o con {@link ExpandedKey.import}, y se puede
+ * pasar en lugar de la clave a `createAES()`, a los núcleos y a los modos de operación. Quien la crea es su dueño:
+ * los núcleos que la reciben ya expandida no la borran en su `dispose()`, así que puede compartirse sin riesgo.
+ */
+export class ExpandedKey {
+  public readonly rounds: number
+  // Claves de ronda que usan los núcleos directamente; no deben modificarse.
+  public readonly encryptionRoundKeys: Uint32Array
+  public readonly decryptionRoundKeys: Uint32Array
+  private _disposed = false
+
+  /**
+   * Envuelve claves de ronda ya calculadas, sin copiarlas. Para datos externos, usar {@link ExpandedKey.import}.
+   * @param encryptionRoundKeys Claves de ronda de cifrado.
+   * @param decryptionRoundKeys Claves de ronda de descifrado.
+   */
+  constructor(encryptionRoundKeys: Uint32Array, decryptionRoundKeys: Uint32Array) {
+    const rounds = encryptionRoundKeys.length / 4 - 1
+    if (NUMBER_OF_ROUNDS[(rounds - 6) * 4] !== rounds || decryptionRoundKeys.length !== encryptionRoundKeys.length) {
+      throw new InvalidParameterError("Claves de ronda inválidas (deben ser 44, 52 o 60 palabras para cifrado y descifrado)", { mode: "ExpandedKey", parameter: "roundKeys" })
+    }
+    this.rounds = rounds
+    this.encryptionRoundKeys = encryptionRoundKeys
+    this.decryptionRoundKeys = decryptionRoundKeys
+  }
+
+  /**
+   * Reconstruye una expansión exportada con {@link ExpandedKey.export}. Las palabras se copian.
+   * @param words Claves de ronda de cifrado y descifrado.
+   */
+  public static import(words: RoundKeyWords): ExpandedKey {
+    return new ExpandedKey(new Uint32Array(words.encryption), new Uint32Array(words.decryption))
+  }
+
+  /**
+   * Exporta una copia de las claves de ronda. Son material de clave: deben protegerse igual que la propia clave.
+   */
+  public export(): RoundKeyWords {
+    assertNotDisposed(this._disposed, "ExpandedKey")
+    return { encryption: new Uint32Array(this.encryptionRoundKeys), decryption: new Uint32Array(this.decryptionRoundKeys) }
+  }
+
+  /** Tamaño en bytes de la clave original (16, 24 o 32). */
+  public get keyLength(): number {
+    return (this.rounds - 6) * 4
+  }
+
+  /** Indica si la expansión fue destruida con `dispose()`. */
+  public get disposed(): boolean {
+    return this._disposed
+  }
+
+  /**
+   * Devuelve una copia de la clave original. Las primeras palabras de las claves de ronda de cifrado son la propia
+   * clave, así que no hace falta guardarla aparte. La usan los modos que delegan en el backend nativo.
+   */
+  public keyBytes(): Uint8Array<ArrayBuffer> {
+    assertNotDisposed(this._disposed, "ExpandedKey")
+    const Ke = this.encryptionRoundKeys
+    const key = new Uint8Array(this.keyLength)
+    for (let i = 0; i < key.length; i += 4) {
+      const w = Ke[i >> 2]
+      key[i] = w >>> 24
+      key[i + 1] = w >>> 16
+      key[i + 2] = w >>> 8
+      key[i + 3] = w
+    }
+    return key
+  }
+
+  /**
+   * Comprueba si esta expansión corresponde a `key`. Recorre la clave completa sin salir antes de tiempo.
+   * @param key Clave candidata.
+   */
+  public matches(key: Uint8Array): boolean {
+    if (this._disposed || key.length !== this.keyLength) {
+      return false
+    }
+    const Ke = this.encryptionRoundKeys
+    let diff = 0
+    for (let i = 0; i < key.length; i += 4) {
+      diff |= Ke[i >> 2] ^ ((key[i] << 24) | (key[i + 1] << 16) | (key[i + 2] << 8) | key[i + 3])
+    }
+    return diff === 0
+  }
+
+  /**
+   * Sobrescribe con ceros las claves de ronda. Afecta a todos los núcleos y modos que la comparten, que a partir de
+   * aquí lanzan un error. Llamar varias veces es seguro.
+   */
+  public dispose(): void {
+    this._disposed = true
+    wipe(this.encryptionRoundKeys, this.decryptionRoundKeys)
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
+
+/**
+ * Devuelve una copia de los bytes de la clave, tanto si se recibe en bruto como ya expandida.
+ * @param key Clave en bytes o expansión de clave.
+ */
+export function copyKeyBytes(key: Uint8Array | ExpandedKey): Uint8Array<ArrayBuffer> {
+  return key instanceof ExpandedKey ? key.keyBytes() : new Uint8Array(key)
+}
+
+// Huella FNV-1a de 32 bits de la clave. Solo sirve para localizar la entrada: la coincidencia se confirma
+// comparando la clave completa.
+function fingerprint(key: Uint8Array): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key[i], 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Caché LRU acotada de expansiones de clave, indexada por la huella de la clave.
+ *
+ * Se activa pasando la caché en `AESOptions.keyCache`; todos los núcleos creados con esas opciones reutilizan la
+ * misma expansión para la misma clave. La caché es dueña de sus entradas pero no las borra al desalojarlas, porque
+ * puede haber instancias usándolas todavía; `clear()` tampoco lo hace. Una entrada destruida con `dispose()` se
+ * descarta en la siguiente consulta.
+ *
+ * @example
+ * ```typescript
+ * const keyCache = new KeyScheduleCache(256);
+ * // La clave solo se expande la primera vez
+ * const gcm = new ModeOfOperationGCM(key, { keyCache });
+ * const ctr = new ModeOfOperationCTR(key, counter, { keyCache });
+ * ```
+ */
+export class KeyScheduleCache {
+  // El orden de inserción del Map es el orden de uso: la primera entrada es la menos usada recientemente.
+  private readonly entries = new Map<number, ExpandedKey>()
+  public readonly maxEntries: number
+
+  /**
+   * @param maxEntries Número máximo de expansiones guardadas (por defecto, 128).
+   */
+  constructor(maxEntries: number = 128) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new InvalidParameterError("Tamaño de caché inválido (debe ser un entero positivo)", { mode: "KeyScheduleCache", parameter: "maxEntries" })
+    }
+    this.maxEntries = maxEntries
+  }
+
+  /** Número de expansiones guardadas. */
+  public get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Busca la expansión de `key` y la marca como usada recientemente.
+   * @param key La clave, de 16, 24 o 32 bytes.
+   * @returns La expansión, o `undefined` si no está en la caché.
+   */
+  public get(key: Uint8Array): ExpandedKey | undefined {
+    const id = fingerprint(key)
+    const expandedKey = this.entries.get(id)
+    if (expandedKey === undefined || !expandedKey.matches(key)) {
+      return undefined
+    }
+    this.entries.delete(id)
+    this.entries.set(id, expandedKey)
+    return expandedKey
+  }
+
+  /**
+   * Guarda la expansión de `key`, desalojando la menos usada si se supera `maxEntries`. Si otra clave con la misma
+   * huella ocupaba la entrada, se sustituye.
+   * @param key La clave de la que procede la expansión.
+   * @param expandedKey Su expansión.
+   */
+  public set(key: Uint8Array, expandedKey: ExpandedKey): void {
+    if (!expandedKey.matches(key)) {
+      throw new InvalidParameterError("La expansión de clave no corresponde a la clave indicada", { mode: "KeyScheduleCache", parameter: "expandedKey" })
+    }
+    const id = fingerprint(key)
+    this.entries.delete(id)
+    this.entries.set(id, expandedKey)
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  /** Vacía la caché sin borrar las expansiones, que pueden seguir en uso. */
+  public clear(): void {
+    this.entries.clear()
+  }
+}
@@ -1,4 +1,7 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed } from "../dispose"
+import { InvalidLengthError } from "../errors"
+import { ExpandedKey } from "../key-schedule"
 import { xor } from "./utils/xor"
 
 /**
@@ -38,14 +41,17 @@ export class ModeOfOperationCBC_MAC {
   public readonly description = "CBC Message Authentication Code"
   public readonly name = "cbc-mac"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación CBC-MAC con una clave.
-   * @param key La clave de autenticación, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de autenticación, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array) {
-    this.aes = new AES(key)
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
+    this.aes = createAES(key, options)
   }
 
   /**
@@ -70,8 +76,9 @@ export class ModeOfOperationCBC_MAC {
    * @returns La etiqueta de autenticación (MAC).
    */
   generateTag(message: Uint8Array, tagSize: number = 16): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
     if (tagSize > 16) {
-      throw new Error("El tamaño de la etiqueta no puede ser mayor de 16 bytes.")
+      throw new InvalidLengthError("El tamaño de la etiqueta no puede ser mayor de 16 bytes.", { mode: this.name, parameter: "tagSize", expected: { max: 16 }, actual: tagSize })
     }
 
     // CBC-MAC requiere relleno si el mensaje no es un múltiplo de 16.
@@ -96,6 +103,7 @@ export class ModeOfOperationCBC_MAC {
    * @returns `true` si la etiqueta es válida, `false` en caso contrario.
    */
   verifyTag(message: Uint8Array, tag: Uint8Array): boolean {
+    assertNotDisposed(this.disposed, this.name)
     const expectedTag = this.generateTag(message, tag.length)
 
     // Comparación en tiempo constante para evitar ataques de temporización.
@@ -110,4 +118,17 @@ export class ModeOfOperationCBC_MAC {
 
     return mismatch === 0
   }
+
+  /**
+   * Destruye el núcleo AES interno, borrando la clave y sus claves de ronda.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { AES } from "../aes"
+import { AESOptions, BlockCipher, createBlockCipher } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidLengthError, InvalidNonceError } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
 
 /**
  * Implementación del modo de operación AES-CBC (Cipher Block Chaining).
@@ -41,60 +45,93 @@ export class ModeOfOperationCBC {
   public readonly description = "Cipher Block Chaining"
   public readonly name = "cbc"
   private lastCipherblock: Uint8Array
-  private readonly aes: AES
+  private readonly aes: BlockCipher
+  // 16 bytes salvo con Rijndael de bloque variable (`options.blockSize`); el IV tiene este mismo tamaño.
+  private readonly blockSize: number
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación CBC con una clave y un vector de inicialización opcional.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
-   * @param iv El vector de inicialización de 16 bytes. Si no se proporciona, se usa un bloque de ceros.
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits; Rijndael admite también 20 y 28),
+   *   o su expansión (`ExpandedKey`, solo con bloques de 16 bytes).
+   * @param iv El vector de inicialización, del tamaño de bloque (16 bytes en AES). Si no se proporciona, se usa un bloque de ceros.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ blockSize: 32 }` para Rijndael con bloque de 256 bits).
    */
-  constructor(key: Uint8Array, iv?: Uint8Array) {
-    if (iv && iv.length !== 16) {
-      throw new Error("Tamaño de vector de inicialización inválido (debe ser 16 bytes)")
+  constructor(key: Uint8Array | ExpandedKey, iv?: Uint8Array, options: AESOptions = {}) {
+    this.aes = createBlockCipher(key, options)
+    this.blockSize = this.aes.blockSize
+    if (iv && iv.length !== this.blockSize) {
+      throw new InvalidNonceError(`Tamaño de vector de inicialización inválido (debe ser ${this.blockSize} bytes)`, { mode: this.name, parameter: "iv", expected: [this.blockSize], actual: iv.length })
     }
-    this.lastCipherblock = iv ? new Uint8Array(iv) : new Uint8Array(16)
-    this.aes = new AES(key)
+    this.lastCipherblock = iv ? new Uint8Array(iv) : new Uint8Array(this.blockSize)
+    this.key = copyKeyBytes(key)
+    this.nativeAlgorithm = `aes-${this.key.length * 8}-cbc`
+    this.native = resolveNativeBackend(options, this.blockSize === 16 ? this.nativeAlgorithm : null)
   }
 
   /**
    * Cifra un bloque o múltiples bloques de datos en modo CBC.
-   * @param plaintext El texto plano a cifrar. Debe ser múltiplo de 16 bytes.
+   * @param plaintext El texto plano a cifrar. Debe ser múltiplo del tamaño de bloque (16 bytes en AES).
    * @returns El texto cifrado del mismo tamaño que el texto plano.
-   * @throws Error si el tamaño del texto plano no es múltiplo de 16 bytes.
+   * @throws InvalidLengthError si el tamaño del texto plano no es múltiplo del tamaño de bloque.
    */
   encrypt(plaintext: Uint8Array): Uint8Array {
-    if (plaintext.length % 16 !== 0) {
-      throw new Error("Tamaño de texto plano inválido (debe ser múltiplo de 16 bytes)")
+    assertNotDisposed(this.disposed, this.name)
+    if (plaintext.length % this.blockSize !== 0) {
+      throw new InvalidLengthError(`Tamaño de texto plano inválido (debe ser múltiplo de ${this.blockSize} bytes)`, { mode: this.name, parameter: "plaintext", expected: { multipleOf: this.blockSize }, actual: plaintext.length })
     }
 
+    if (this.native && plaintext.length > 0) {
+      const cipher = this.native.createCipheriv(this.nativeAlgorithm, this.key, this.lastCipherblock).setAutoPadding(false)
+      const ciphertext = runNativeCipher(cipher, plaintext)
+      this.lastCipherblock = ciphertext.subarray(ciphertext.length - 16)
+      return ciphertext
+    }
+
+    const blockSize = this.blockSize
     const ciphertext = new Uint8Array(plaintext.length)
-    for (let i = 0; i < plaintext.length; i += 16) {
-      const block = plaintext.subarray(i, i + 16)
-      for (let j = 0; j < 16; j++) {
-        block[j] ^= this.lastCipherblock[j]
+    for (let i = 0; i < plaintext.length; i += blockSize) {
+      // Se encadena sobre la salida para no modificar el texto plano del llamador.
+      for (let j = 0; j < blockSize; j++) {
+        ciphertext[i + j] = plaintext[i + j] ^ this.lastCipherblock[j]
       }
-      this.lastCipherblock = this.aes.encrypt(block)
-      ciphertext.set(this.lastCipherblock, i)
+      this.aes.encryptBlockInto(ciphertext, i, ciphertext, i)
+      this.lastCipherblock = ciphertext.subarray(i, i + blockSize)
     }
     return ciphertext
   }
 
   /**
    * Descifra un bloque o múltiples bloques de datos en modo CBC.
-   * @param ciphertext El texto cifrado a descifrar. Debe ser múltiplo de 16 bytes.
+   * @param ciphertext El texto cifrado a descifrar. Debe ser múltiplo del tamaño de bloque (16 bytes en AES).
    * @returns El texto plano del mismo tamaño que el texto cifrado.
-   * @throws Error si el tamaño del texto cifrado no es múltiplo de 16 bytes.
+   * @throws InvalidLengthError si el tamaño del texto cifrado no es múltiplo del tamaño de bloque.
    */
   decrypt(ciphertext: Uint8Array): Uint8Array {
-    if (ciphertext.length % 16 !== 0) {
-      throw new Error("Tamaño de texto cifrado inválido (debe ser múltiplo de 16 bytes)")
+    assertNotDisposed(this.disposed, this.name)
+    if (ciphertext.length % this.blockSize !== 0) {
+      throw new InvalidLengthError(`Tamaño de texto cifrado inválido (debe ser múltiplo de ${this.blockSize} bytes)`, { mode: this.name, parameter: "ciphertext", expected: { multipleOf: this.blockSize }, actual: ciphertext.length })
     }
 
+    if (this.native && ciphertext.length > 0) {
+      const decipher = this.native.createDecipheriv(this.nativeAlgorithm, this.key, this.lastCipherblock).setAutoPadding(false)
+      const plaintext = runNativeCipher(decipher, ciphertext)
+      this.lastCipherblock = ciphertext.slice(ciphertext.length - 16)
+      return plaintext
+    }
+
+    const blockSize = this.blockSize
     const plaintext = new Uint8Array(ciphertext.length)
-    for (let i = 0; i < ciphertext.length; i += 16) {
-      const block = ciphertext.subarray(i, i + 16)
+    for (let i = 0; i < ciphertext.length; i += blockSize) {
+      const block = ciphertext.subarray(i, i + blockSize)
       const decryptedBlock = this.aes.decrypt(block)
-      for (let j = 0; j < 16; j++) {
+      for (let j = 0; j < blockSize; j++) {
         decryptedBlock[j] ^= this.lastCipherblock[j]
       }
       this.lastCipherblock = block
@@ -102,4 +139,18 @@ export class ModeOfOperationCBC {
     }
     return plaintext
   }
+
+  /**
+   * Borra la copia de la clave y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -1,4 +1,19 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidLengthError, InvalidNonceError, InvalidParameterError, toDecryptResult } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
+
+/**
+ * Opciones del modo CCM. Además de las de {@link AESOptions}:
+ * - `legacyFormat`: usa el formato de versiones anteriores de esta biblioteca, que con L > 4 repetía los bytes
+ *   bajos de la longitud del mensaje y del contador en los bytes altos de su campo, en lugar de dejarlos a cero
+ *   como exige SP 800-38C. Con L ≤ 4 (nonces de 11 bytes o más) ambos formatos coinciden. Solo debe activarse
+ *   para descifrar datos antiguos y volver a cifrarlos sin esta opción.
+ */
+export interface CCMOptions extends AESOptions {
+  legacyFormat?: boolean
+}
 
 /**
  * Implementación del modo de operación AES-CCM (Counter with CBC-MAC).
@@ -28,6 +43,10 @@ import { AES } from "../aes"
  * CCM es ampliamente utilizado en protocolos como IEEE 802.11i (WiFi) y TLS.
  * Es un estándar NIST y una opción popular para entornos con restricciones.
  *
+ * Con L > 4, las versiones anteriores de esta biblioteca codificaban mal la longitud y el contador, así que sus
+ * datos no coinciden con SP 800-38C: para descifrarlos, use la opción `legacyFormat`. `HighLevelAES` usa
+ * siempre L = 4, por lo que sus datos no se ven afectados.
+ *
  * @example
  * ```typescript
  * const key = new Uint8Array(16); // Clave de 128 bits
@@ -47,28 +66,44 @@ export class ModeOfOperationCCM {
   public readonly description = "Counter with CBC-MAC"
   public readonly name = "ccm"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly tagSize: number
   private readonly L: number
+  private readonly legacyFormat: boolean
+
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  // El formato heredado no tiene equivalente nativo y usa siempre el camino puro.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación CCM con una clave, tamaño de etiqueta y parámetro L.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
    * @param tagSize El tamaño de la etiqueta de autenticación (4-16 bytes, par). Por defecto es 16 bytes.
    * @param L El parámetro L que determina la longitud del nonce y límite de datos (2-8). Por defecto es 4.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ legacyFormat: true }` para descifrar datos de versiones anteriores).
    */
-  constructor(key: Uint8Array, tagSize: number = 16, L: number = 4) {
-    this.aes = new AES(key)
+  constructor(key: Uint8Array | ExpandedKey, tagSize: number = 16, L: number = 4, options: CCMOptions = {}) {
+    this.aes = createAES(key, options)
 
     if (tagSize < 4 || tagSize > 16 || tagSize % 2 !== 0) {
-      throw new Error("Tamaño de etiqueta CCM inválido (debe ser un número par entre 4 y 16)")
+      throw new InvalidLengthError("Tamaño de etiqueta CCM inválido (debe ser un número par entre 4 y 16)", { mode: this.name, parameter: "tagSize", expected: { min: 4, max: 16, multipleOf: 2 }, actual: tagSize })
     }
     this.tagSize = tagSize
 
     if (L < 2 || L > 8) {
-      throw new Error("Valor de L inválido para CCM (debe estar entre 2 y 8)")
+      throw new InvalidParameterError("Valor de L inválido para CCM (debe estar entre 2 y 8)", { mode: this.name, parameter: "L" })
     }
     this.L = L
+    this.legacyFormat = options.legacyFormat === true
+
+    this.key = copyKeyBytes(key)
+    this.nativeAlgorithm = `aes-${this.key.length * 8}-ccm`
+    this.native = resolveNativeBackend(options, this.legacyFormat ? null : this.nativeAlgorithm)
   }
 
   /**
@@ -79,8 +114,17 @@ export class ModeOfOperationCCM {
    * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag`.
    */
   encrypt(plaintext: Uint8Array, iv: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
     if (iv.length !== 15 - this.L) {
-      throw new Error(`Longitud de IV inválida para CCM (debe ser ${15 - this.L} bytes)`)
+      throw new InvalidNonceError(`Longitud de IV inválida para CCM (debe ser ${15 - this.L} bytes)`, { mode: this.name, parameter: "iv", expected: [15 - this.L], actual: iv.length })
+    }
+
+    // Con datos vacíos OpenSSL puede no llegar a calcular la etiqueta CCM, así que ese caso usa el camino puro.
+    if (this.native && plaintext.length > 0) {
+      const cipher = this.native.createCipheriv(this.nativeAlgorithm, this.key, iv, { authTagLength: this.tagSize })
+      cipher.setAAD(associatedData, { plaintextLength: plaintext.length })
+      const ciphertext = runNativeCipher(cipher, plaintext)
+      return { ciphertext, tag: new Uint8Array(cipher.getAuthTag()) }
     }
 
     // Fase 1: Calcular CBC-MAC sobre el plaintext. Devuelve un MAC de 16 bytes.
@@ -105,11 +149,23 @@ export class ModeOfOperationCCM {
    * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
    */
   decrypt(ciphertext: Uint8Array, iv: Uint8Array, tag: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     if (tag.length !== this.tagSize) {
       return null // La longitud de la etiqueta no coincide
     }
     if (iv.length !== 15 - this.L) {
-      throw new Error(`Longitud de IV inválida para CCM (debe ser ${15 - this.L} bytes)`)
+      throw new InvalidNonceError(`Longitud de IV inválida para CCM (debe ser ${15 - this.L} bytes)`, { mode: this.name, parameter: "iv", expected: [15 - this.L], actual: iv.length })
+    }
+
+    if (this.native && ciphertext.length > 0) {
+      const decipher = this.native.createDecipheriv(this.nativeAlgorithm, this.key, iv, { authTagLength: this.tagSize })
+      decipher.setAuthTag(tag)
+      decipher.setAAD(associatedData, { plaintextLength: ciphertext.length })
+      try {
+        return runNativeCipher(decipher, ciphertext)
+      } catch {
+        return null // ¡Fallo de autenticación!
+      }
     }
 
     // Fase 1: Descifrar el texto cifrado para obtener el texto plano potencial.
@@ -135,14 +191,20 @@ export class ModeOfOperationCCM {
     return plaintext
   }
 
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, iv: Uint8Array, tag: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en CCM", () => this.decrypt(ciphertext, iv, tag, associatedData))
+  }
+
   private _cbcMac(payload: Uint8Array, iv: Uint8Array, associatedData: Uint8Array): Uint8Array {
     const B0 = new Uint8Array(16)
     const hasAAD = associatedData.length > 0
     B0[0] = (hasAAD ? 1 << 6 : 0) | (((this.tagSize - 2) / 2) << 3) | (this.L - 1)
     B0.set(iv, 1)
-    for (let i = 0; i < this.L; i++) {
-      B0[15 - i] = (payload.length >> (i * 8)) & 0xff
-    }
+    this._writeCounterField(B0, payload.length)
 
     let lastBlock = this.aes.encrypt(B0)
 
@@ -188,7 +250,7 @@ export class ModeOfOperationCCM {
       lenBlock[4] = (aadLen >> 8) & 0xff
       lenBlock[5] = aadLen & 0xff
     } else {
-      throw new Error("Longitud de datos asociados demasiado grande.")
+      throw new InvalidLengthError("Longitud de datos asociados demasiado grande.", { mode: this.name, parameter: "associatedData", expected: { max: 0xffffffff }, actual: aadLen })
     }
 
     const totalLen = lenBlock.length + aadLen
@@ -201,6 +263,19 @@ export class ModeOfOperationCCM {
     return result
   }
 
+  /**
+   * Escribe `value` en los L bytes finales de `block` (big-endian). Usamos división en lugar de >> porque con
+   * L > 4 los desplazamientos de 32 bits o más dan la vuelta en JavaScript; el formato heredado conserva ese
+   * comportamiento.
+   */
+  private _writeCounterField(block: Uint8Array, value: number): void {
+    let rest = value
+    for (let i = 0; i < this.L; i++) {
+      block[15 - i] = this.legacyFormat ? (value >> (i * 8)) & 0xff : rest % 256
+      rest = Math.floor(rest / 256)
+    }
+  }
+
   /**
    * Calcula el bloque de keystream S0 = E(K, A0), usado para la etiqueta.
    */
@@ -237,10 +312,7 @@ export class ModeOfOperationCCM {
     const numBlocks = Math.ceil(data.length / 16)
     for (let i = 1; i <= numBlocks; i++) {
       // Establece el valor del contador para el bloque actual (Ai)
-      let counterVal = i
-      for (let j = 0; j < this.L; j++) {
-        counterBlock[15 - j] = (counterVal >> (j * 8)) & 0xff
-      }
+      this._writeCounterField(counterBlock, i)
 
       const keyStreamBlock = this.aes.encrypt(counterBlock)
 
@@ -252,4 +324,18 @@ export class ModeOfOperationCCM {
 
     return processedData
   }
+
+  /**
+   * Borra la copia de la clave y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidLengthError, InvalidNonceError } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
 
 /**
  * Implementación del modo de operación AES-CFB (Cipher Feedback).
@@ -38,35 +42,68 @@ import { AES } from "../aes"
 export class ModeOfOperationCFB {
   public readonly description = "Cipher Feedback"
   public readonly name = "cfb"
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly segmentSize: number
   private shiftRegister: Uint8Array
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  // OpenSSL solo implementa CFB con segmentos de 1 byte (cfb8) y de 16 bytes (cfb).
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string | null
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación CFB con una clave, un vector de inicialización opcional y un tamaño de segmento.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
    * @param iv El vector de inicialización de 16 bytes. Si no se proporciona, se usa un bloque de ceros.
    * @param segmentSize El tamaño de segmento en bytes (1, 8 o 16 bytes). Por defecto es 1 byte.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array, iv?: Uint8Array, segmentSize: number = 1) {
-    this.aes = new AES(key)
+  constructor(key: Uint8Array | ExpandedKey, iv?: Uint8Array, segmentSize: number = 1, options: AESOptions = {}) {
+    this.aes = createAES(key, options)
     this.segmentSize = segmentSize
 
     if (iv && iv.length !== 16) {
-      throw new Error("Tamaño de vector de inicialización inválido (debe ser 16 bytes)")
+      throw new InvalidNonceError("Tamaño de vector de inicialización inválido (debe ser 16 bytes)", { mode: this.name, parameter: "iv", expected: [16], actual: iv.length })
     }
     this.shiftRegister = iv ? new Uint8Array(iv) : new Uint8Array(16)
+
+    this.key = copyKeyBytes(key)
+    const bits = this.key.length * 8
+    this.nativeAlgorithm = segmentSize === 1 ? `aes-${bits}-cfb8` : segmentSize === 16 ? `aes-${bits}-cfb` : null
+    this.native = resolveNativeBackend(options, this.nativeAlgorithm)
+  }
+
+  /**
+   * Actualiza el registro de desplazamiento con los últimos bytes de texto cifrado procesados por el backend nativo.
+   * @private
+   */
+  private _feedShiftRegister(ciphertext: Uint8Array): void {
+    if (ciphertext.length >= 16) {
+      this.shiftRegister = ciphertext.slice(ciphertext.length - 16)
+    } else {
+      this.shiftRegister.copyWithin(0, ciphertext.length)
+      this.shiftRegister.set(ciphertext, 16 - ciphertext.length)
+    }
   }
 
   /**
    * Cifra datos en modo CFB.
    * @param plaintext El texto plano a cifrar. Su longitud debe ser múltiplo del tamaño de segmento.
    * @returns El texto cifrado del mismo tamaño que el texto plano.
-   * @throws Error si la longitud del texto plano no es múltiplo del tamaño de segmento.
+   * @throws InvalidLengthError si la longitud del texto plano no es múltiplo del tamaño de segmento.
    */
   encrypt(plaintext: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
     if (plaintext.length % this.segmentSize !== 0) {
-      throw new Error(`Tamaño de texto plano inválido (debe ser múltiplo de segmentSize: ${this.segmentSize} bytes)`)
+      throw new InvalidLengthError(`Tamaño de texto plano inválido (debe ser múltiplo de segmentSize: ${this.segmentSize} bytes)`, { mode: this.name, parameter: "plaintext", expected: { multipleOf: this.segmentSize }, actual: plaintext.length })
+    }
+
+    if (this.native && plaintext.length > 0) {
+      const ciphertext = runNativeCipher(this.native.createCipheriv(this.nativeAlgorithm!, this.key, this.shiftRegister), plaintext)
+      this._feedShiftRegister(ciphertext)
+      return ciphertext
     }
 
     const ciphertext = new Uint8Array(plaintext)
@@ -93,11 +130,18 @@ export class ModeOfOperationCFB {
    * Descifra datos en modo CFB.
    * @param ciphertext El texto cifrado a descifrar. Su longitud debe ser múltiplo del tamaño de segmento.
    * @returns El texto plano del mismo tamaño que el texto cifrado.
-   * @throws Error si la longitud del texto cifrado no es múltiplo del tamaño de segmento.
+   * @throws InvalidLengthError si la longitud del texto cifrado no es múltiplo del tamaño de segmento.
    */
   decrypt(ciphertext: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
     if (ciphertext.length % this.segmentSize !== 0) {
-      throw new Error(`Tamaño de texto cifrado inválido (debe ser múltiplo de segmentSize: ${this.segmentSize} bytes)`)
+      throw new InvalidLengthError(`Tamaño de texto cifrado inválido (debe ser múltiplo de segmentSize: ${this.segmentSize} bytes)`, { mode: this.name, parameter: "ciphertext", expected: { multipleOf: this.segmentSize }, actual: ciphertext.length })
+    }
+
+    if (this.native && ciphertext.length > 0) {
+      const plaintext = runNativeCipher(this.native.createDecipheriv(this.nativeAlgorithm!, this.key, this.shiftRegister), ciphertext)
+      this._feedShiftRegister(ciphertext)
+      return plaintext
     }
 
     const plaintext = new Uint8Array(ciphertext)
@@ -122,4 +166,18 @@ export class ModeOfOperationCFB {
 
     return plaintext
   }
+
+  /**
+   * Borra la copia de la clave y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
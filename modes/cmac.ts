@@ -1,4 +1,8 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidLengthError } from "../errors"
+import { ExpandedKey } from "../key-schedule"
+import { doubleBE } from "./utils/gf128"
 import { xor } from "./utils/xor"
 
 /**
@@ -38,41 +42,25 @@ export class ModeOfOperationCMAC {
   public readonly description = "Cipher-based Message Authentication Code"
   public readonly name = "cmac"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly K1: Uint8Array
   private readonly K2: Uint8Array
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación CMAC con una clave.
-   * @param key La clave de autenticación, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de autenticación, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array) {
-    this.aes = new AES(key)
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
+    this.aes = createAES(key, options)
     
     // Generar las subclaves K1 y K2 según el algoritmo del estándar
     this.K1 = this._generateSubkey(1)
     this.K2 = this._generateSubkey(2)
   }
 
-  /**
-   * Duplica un bloque en el campo de Galois GF(2^128) utilizado en AES.
-   * Esta operación es necesaria para generar las subclaves en CMAC.
-   * @param block Bloque de 16 bytes a duplicar
-   * @private
-   */
-  private _double(block: Uint8Array): Uint8Array {
-    const doubled = new Uint8Array(16)
-    const msbSet = (block[0] & 0x80) !== 0
-    for (let i = 0; i < 15; i++) {
-      doubled[i] = ((block[i] << 1) | (block[i + 1] >>> 7)) & 0xff
-    }
-    doubled[15] = (block[15] << 1) & 0xff
-    if (msbSet) {
-      doubled[15] ^= 0x87
-    }
-    return doubled
-  }
-
   /**
    * Genera las subclaves K1 o K2 necesarias para el algoritmo CMAC.
    * @param index Índice de la subclave (1 para K1, 2 para K2)
@@ -83,11 +71,11 @@ export class ModeOfOperationCMAC {
     const L = this.aes.encrypt(new Uint8Array(16))
     
     // Paso 2: Duplicar L para obtener K1
-    const K1 = this._double(L)
+    const K1 = doubleBE(L)
     
     // Si index es 2, necesitamos duplicar K1 para obtener K2
     if (index === 2) {
-      return this._double(K1)
+      return doubleBE(K1)
     }
     
     return K1
@@ -100,12 +88,13 @@ export class ModeOfOperationCMAC {
    * @returns La etiqueta de autenticación (MAC).
    */
   generateTag(message: Uint8Array, tagSize: number = 16): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
     if (tagSize > 16) {
-      throw new Error("El tamaño de la etiqueta no puede ser mayor de 16 bytes.")
+      throw new InvalidLengthError("El tamaño de la etiqueta no puede ser mayor de 16 bytes.", { mode: this.name, parameter: "tagSize", expected: { max: 16 }, actual: tagSize })
     }
 
     // Paso 1: Dividir el mensaje en bloques de 16 bytes
-    const n = Math.ceil((message.length + 1) / 16) || 1 // Al menos 1 bloque incluso para mensajes vacíos
+    const n = Math.ceil(message.length / 16) || 1 // Al menos 1 bloque incluso para mensajes vacíos
     const processedMessage = new Uint8Array(n * 16)
     processedMessage.set(message)
 
@@ -147,6 +136,7 @@ export class ModeOfOperationCMAC {
    * @returns `true` si la etiqueta es válida, `false` en caso contrario.
    */
   verifyTag(message: Uint8Array, tag: Uint8Array): boolean {
+    assertNotDisposed(this.disposed, this.name)
     const expectedTag = this.generateTag(message, tag.length)
 
     // Comparación en tiempo constante para evitar ataques de temporización.
@@ -161,4 +151,18 @@ export class ModeOfOperationCMAC {
 
     return mismatch === 0
   }
+
+  /**
+   * Borra las subclaves K1 y K2 y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.K1, this.K2)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
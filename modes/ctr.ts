@@ -1,4 +1,11 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidLengthError, InvalidParameterError } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
+
+// Número de bloques de keystream que se generan por cada llamada a `encryptBlocks`.
+const CTR_BATCH_BLOCKS = 64
 
 /**
  * Implementación del contador para el modo CTR.
@@ -21,13 +28,13 @@ export class Counter {
   constructor(initialValue: number | Uint8Array = 1) {
     if (typeof initialValue === "number") {
       if (!Number.isSafeInteger(initialValue)) {
-        throw new Error("Valor de contador entero fuera de rango seguro")
+        throw new InvalidParameterError("Valor de contador entero fuera de rango seguro", { mode: "ctr", parameter: "counter" })
       }
       this._counter = new Uint8Array(16)
       this.setValue(initialValue)
     } else {
       if (initialValue.length !== 16) {
-        throw new Error("Tamaño de bytes de contador inválido (debe ser 16 bytes)")
+        throw new InvalidLengthError("Tamaño de bytes de contador inválido (debe ser 16 bytes)", { mode: "ctr", parameter: "counter", expected: { min: 16, max: 16 }, actual: initialValue.length })
       }
       this._counter = new Uint8Array(initialValue)
     }
@@ -39,7 +46,7 @@ export class Counter {
    */
   setValue(value: number): void {
     if (!Number.isSafeInteger(value)) {
-      throw new Error("Valor de contador inválido (debe ser un entero seguro)")
+      throw new InvalidParameterError("Valor de contador inválido (debe ser un entero seguro)", { mode: "ctr", parameter: "counter" })
     }
     for (let i = 15; i >= 0; --i) {
       this._counter[i] = value % 256
@@ -61,6 +68,19 @@ export class Counter {
     }
   }
 
+  /**
+   * Avanza el contador `blocks` posiciones de una vez (suma big-endian módulo 2^128).
+   * @param blocks El número de incrementos, debe ser un entero seguro no negativo.
+   */
+  add(blocks: number): void {
+    let carry = blocks
+    for (let i = 15; i >= 0 && carry > 0; i--) {
+      const sum = this._counter[i] + (carry % 256)
+      this._counter[i] = sum & 0xff
+      carry = Math.floor(carry / 256) + (sum >> 8)
+    }
+  }
+
   /**
    * Obtiene los bytes del contador.
    * @returns Una copia de los bytes del contador.
@@ -107,18 +127,31 @@ export class Counter {
 export class ModeOfOperationCTR {
   public readonly description = "Counter"
   public readonly name = "ctr"
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly counter: Counter
-  private remainingCounter: Uint8Array | null = null
+  // Bloque de keystream reutilizado entre llamadas para no reservar memoria por bloque.
+  private readonly remainingCounter = new Uint8Array(16)
   private remainingCounterIndex = 16
+  // Búfer de contadores que se cifran juntos con `encryptBlocks`.
+  private readonly keystreamBatch = new Uint8Array(CTR_BATCH_BLOCKS * 16)
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación CTR con una clave y un contador opcional.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
    * @param counter El contador inicial, puede ser una instancia de Counter, un número o un array de 16 bytes.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array, counter?: Counter | number | Uint8Array) {
-    this.aes = new AES(key)
+  constructor(key: Uint8Array | ExpandedKey, counter?: Counter | number | Uint8Array, options: AESOptions = {}) {
+    this.aes = createAES(key, options)
+    this.key = copyKeyBytes(key)
+    this.nativeAlgorithm = `aes-${this.key.length * 8}-ctr`
+    this.native = resolveNativeBackend(options, this.nativeAlgorithm)
     if (counter instanceof Counter) {
       this.counter = counter
     } else {
@@ -132,14 +165,53 @@ export class ModeOfOperationCTR {
    * @returns El texto cifrado (o texto plano) del mismo tamaño que la entrada.
    */
   encrypt(plaintext: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
     const encrypted = new Uint8Array(plaintext)
-    for (let i = 0; i < encrypted.length; i++) {
-      if (this.remainingCounterIndex === 16) {
-        this.remainingCounter = this.aes.encrypt(this.counter.counterBytes)
-        this.remainingCounterIndex = 0
+    const length = encrypted.length
+    const keystream = this.remainingCounter
+    let i = 0
+
+    // 1. Consumir el keystream sobrante de la llamada anterior.
+    while (i < length && this.remainingCounterIndex < 16) {
+      encrypted[i++] ^= keystream[this.remainingCounterIndex++]
+    }
+
+    // 2. Bloques completos: con el backend nativo, OpenSSL procesa todos de una vez
+    // partiendo del contador actual (también incrementa los 128 bits en big-endian).
+    if (this.native && length - i >= 16) {
+      const blockCount = Math.floor((length - i) / 16)
+      const byteCount = blockCount * 16
+      const cipher = this.native.createCipheriv(this.nativeAlgorithm, this.key, this.counter.counterBytes)
+      encrypted.set(runNativeCipher(cipher, encrypted.subarray(i, i + byteCount)), i)
+      this.counter.add(blockCount)
+      i += byteCount
+    }
+
+    // En el camino puro, generar el keystream por lotes de contadores consecutivos.
+    const batch = this.keystreamBatch
+    while (length - i >= 16) {
+      const blockCount = Math.min(CTR_BATCH_BLOCKS, (length - i) >>> 4)
+      for (let b = 0; b < blockCount; b++) {
+        batch.set(this.counter.counterBytes, b * 16)
         this.counter.increment()
       }
-      encrypted[i] ^= this.remainingCounter![this.remainingCounterIndex++]
+      this.aes.encryptBlocks(batch, batch, blockCount)
+
+      const byteCount = blockCount * 16
+      for (let j = 0; j < byteCount; j++) {
+        encrypted[i + j] ^= batch[j]
+      }
+      i += byteCount
+    }
+
+    // 3. Bloque final parcial: su keystream sobrante queda para la siguiente llamada.
+    if (i < length) {
+      this.aes.encryptBlockInto(this.counter.counterBytes, 0, keystream, 0)
+      this.counter.increment()
+      this.remainingCounterIndex = 0
+      while (i < length) {
+        encrypted[i++] ^= keystream[this.remainingCounterIndex++]
+      }
     }
     return encrypted
   }
@@ -150,4 +222,18 @@ export class ModeOfOperationCTR {
    * @returns El texto plano del mismo tamaño que el texto cifrado.
    */
   decrypt = this.encrypt
+
+  /**
+   * Borra la copia de la clave y el keystream pendiente, y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key, this.remainingCounter, this.keystreamBatch)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -1,158 +1,333 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidKeyLengthError, InvalidNonceError, toDecryptResult } from "../errors"
+import { ExpandedKey } from "../key-schedule"
 import { Counter, ModeOfOperationCTR } from "./ctr"
+import { GF128Hash, lengthBlock } from "./utils/gf128"
+
+// Primo de Mersenne 2^127 − 1, módulo del hash de Carter-Wegman de CWC.
+const P127 = (1n << 127n) - 1n
+
+// Tamaño del nonce de CWC: 88 bits.
+const CWC_NONCE_SIZE = 11
+
+// Tamaño de los trozos en que CWC-HASH divide los datos: 96 bits.
+const CHUNK_SIZE = 12
 
 /**
- * Representa una implementación del modo de operación AES-CWC (Carter-Wegman + Counter).
+ * Reduce un entero no negativo módulo 2^127 − 1 sumando sus mitades (2^127 ≡ 1).
+ * @private
+ */
+function reduce(x: bigint): bigint {
+  while (x > P127) {
+    x = (x & P127) + (x >> 127n)
+  }
+  return x === P127 ? 0n : x
+}
+
+/**
+ * Implementación del modo de operación AES-CWC (Carter-Wegman + Counter) de Kohno, Viega y Whiting.
  *
- * CWC es un esquema de Cifrado Autenticado con Datos Asociados (AEAD) que
- * sigue el paradigma "Encrypt-then-MAC". Este enfoque es altamente seguro y
- * resistente a ataques de texto cifrado elegido.
+ * CWC es un esquema de Cifrado Autenticado con Datos Asociados (AEAD) que sigue el paradigma "Encrypt-then-MAC" y
+ * está libre de patentes. A diferencia de GCM, su hash universal trabaja con enteros en lugar de con GF(2^128):
  *
- * El proceso se divide en dos fases principales:
- * 1.  **Cifrado**: El texto plano se cifra utilizando el modo Counter (CTR) para
- * producir el texto cifrado. El contador se inicializa con un nonce único.
- * 2.  **Autenticación**: Se calcula una etiqueta de autenticación (MAC) sobre
- * el texto cifrado resultante y los datos asociados (AAD). Esto se logra
- * mediante un hash universal (POLYVAL) y el cifrado del nonce.
+ * 1.  **Cifrado (CWC-CTR)**: el bloque i del flujo de claves es E_K(0x80 || N || [i]_32), con i desde 1.
+ * 2.  **Hash (CWC-HASH)**: la clave de hash Z son los 127 bits bajos de E_K(0xC0 || 0^120). Los datos asociados y el
+ * texto cifrado se rellenan con ceros hasta múltiplos de 96 bits y se concatenan; sus trozos de 96 bits Y_1..Y_β, más
+ * Y_{β+1} = 2^64·|A| + |C| (longitudes en bits), se evalúan como polinomio en Z módulo el primo 2^127 − 1:
+ * R = Y_1·Z^β + ... + Y_β·Z + Y_{β+1}.
+ * 3.  **Etiqueta (CWC-MAC)**: T = E_K(R) ⊕ E_K(0x80 || N || 0^32).
  *
  * Características principales:
  * - **Seguridad**: Proporciona confidencialidad, autenticidad e integridad.
- * - **Eficiencia**: El cifrado y la autenticación se realizan en paralelo.
- * - **Resistencia a Nonce**: No requiere un nonce completamente aleatorio, aunque
- * se recomienda su unicidad para cada operación de cifrado.
+ * - **Nonce de 88 bits**: cada nonce de 11 bytes debe usarse una sola vez con la misma clave.
+ * - **Verificación previa**: al descifrar, la etiqueta se comprueba antes de tocar el texto cifrado.
+ *
+ * Las versiones anteriores de esta biblioteca usaban bajo este nombre un hash POLYVAL, un nonce de 12 bytes y una
+ * etiqueta sin cifrar el hash; para descifrar esos datos, use {@link ModeOfOperationCWCLegacy}.
  *
  * @example
  * ```typescript
  * const key = new Uint8Array(32); // Clave de 256 bits
  * const cwc = new ModeOfOperationCWC(key);
  * const plaintext = new TextEncoder().encode("Mensaje secreto");
- * const nonce = new Uint8Array(16); // 128-bit nonce
+ * const nonce = new Uint8Array(11); // Nonce de 88 bits
  * const aad = new TextEncoder().encode("Datos asociados");
- * 
+ *
  * const { ciphertext, tag } = cwc.encrypt(plaintext, nonce, aad);
  * const decrypted = cwc.decrypt(ciphertext, tag, nonce, aad);
  * ```
+ *
+ * @see Kohno, Viega y Whiting, *CWC: A High-Performance Conventional Authenticated Encryption Mode* (FSE 2004),
+ * para la especificación original.
  */
 export class ModeOfOperationCWC {
   public readonly description = "Carter-Wegman + Counter Mode (Encrypt-then-MAC)"
   public readonly name = "cwc"
 
-  private readonly masterKey: Uint8Array
-  private readonly aes: AES
+  private readonly options: AESOptions
+  private readonly aes: AESCore
+  // Clave de hash Z. Un bigint no se puede sobrescribir en memoria; `dispose()` solo suelta la referencia.
+  private hashKey: bigint
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación CWC con una clave maestra.
-   * @param key La clave maestra, que debe ser de 16 bytes (AES-128) o 32 bytes (AES-256).
+   * @param key La clave maestra, que debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array) {
-    if (key.length !== 16 && key.length !== 32) {
-      throw new Error("Tamaño de clave inválido para CWC (debe ser 16 o 32 bytes)")
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
+    const keyLength = key instanceof ExpandedKey ? key.keyLength : key.length
+    if (keyLength !== 16 && keyLength !== 24 && keyLength !== 32) {
+      throw new InvalidKeyLengthError("Tamaño de clave inválido para CWC (debe ser 16, 24 o 32 bytes)", { mode: this.name, expected: [16, 24, 32], actual: keyLength })
     }
-    this.masterKey = key
-    this.aes = new AES(this.masterKey)
+    this.aes = createAES(key, options)
+    this.options = options
+
+    const hashKeyBlock = new Uint8Array(16)
+    hashKeyBlock[0] = 0xc0
+    const encryptedHashKey = this.aes.encrypt(hashKeyBlock)
+    this.hashKey = this.bytesToBigInt(encryptedHashKey, 0, 16) & P127
+    wipe(encryptedHashKey)
   }
 
   /**
-   * Multiplicación en el cuerpo de Galois GF(2^128) para POLYVAL.
-   * Esta es la función de hash universal en el núcleo del MAC de Carter-Wegman.
-   * El polinomio irreducible es x^128 + x^127 + x^126 + x^121 + 1.
+   * Interpreta `length` bytes de `data` a partir de `offset` como un entero big-endian.
    * @private
    */
-  private polyvalMultiply(x: Uint8Array, y: Uint8Array): Uint8Array<ArrayBuffer> {
-    const z = new Uint8Array(16)
-    let v = new Uint8Array(y)
-
-    for (let i = 0; i < 128; i++) {
-      const xByteIndex = Math.floor(i / 8)
-      const xBitIndex = 7 - (i % 8)
-
-      // Si el bit 'i' de 'x' está activado, z ^= v
-      if ((x[xByteIndex] >> xBitIndex) & 1) {
-        for (let j = 0; j < 16; j++) {
-          z[j] ^= v[j]
-        }
-      }
-
-      // Desplaza 'v' a la derecha por 1 bit
-      const lsbSet = (v[15] & 1) !== 0
-      for (let j = 15; j > 0; j--) {
-        v[j] = (v[j] >> 1) | ((v[j - 1] & 1) << 7)
-      }
-      v[0] >>= 1
-
-      // Si el bit menos significativo de 'v' estaba activado, aplica la reducción polinomial
-      if (lsbSet) {
-        v[0] ^= 0b11100001 // Polinomio de reducción para POLYVAL (0xE1)
-      }
+  private bytesToBigInt(data: Uint8Array, offset: number, length: number): bigint {
+    let value = 0n
+    for (let i = offset; i < offset + length; i += 4) {
+      const word = ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]) >>> 0
+      value = (value << 32n) | BigInt(word)
     }
-    return z
+    return value
   }
 
   /**
-   * Rellena un array de bytes para que su longitud sea un múltiplo de 16.
+   * Suma al acumulador de Horner los trozos de 96 bits de `data`, rellenando el último con ceros.
    * @private
    */
-  private padToBlockSize(data: Uint8Array): Uint8Array {
-    const len = data.length
-    const remainder = len % 16
-    if (remainder === 0) return data
-
-    const padded = new Uint8Array(len + (16 - remainder))
-    padded.set(data)
-    return padded
+  private hashChunks(acc: bigint, data: Uint8Array): bigint {
+    const fullLength = data.length - (data.length % CHUNK_SIZE)
+    for (let i = 0; i < fullLength; i += CHUNK_SIZE) {
+      acc = reduce((acc + this.bytesToBigInt(data, i, CHUNK_SIZE)) * this.hashKey)
+    }
+    if (fullLength < data.length) {
+      const lastChunk = new Uint8Array(CHUNK_SIZE)
+      lastChunk.set(data.subarray(fullLength))
+      acc = reduce((acc + this.bytesToBigInt(lastChunk, 0, CHUNK_SIZE)) * this.hashKey)
+    }
+    return acc
   }
 
   /**
-   * Crea un bloque de 16 bytes que contiene las longitudes en bits de AAD y texto.
-   * Esta implementación utiliza manipulación pura de Uint8Array para un rendimiento óptimo.
+   * Calcula CWC-HASH sobre los datos asociados y el texto cifrado, como bloque de 128 bits.
    * @private
    */
-  private createLengthBlock(aadLen: number, textLen: number): Uint8Array {
-    const lenBlock = new Uint8Array(16)
-    let n = aadLen * 8
-
-    // Almacena la longitud de AAD en bits como un entero de 64 bits en formato little-endian
-    for (let i = 0; i < 8; i++) {
-      lenBlock[i] = n & 0xff
-      // Usamos división en lugar de >> para manejar números mayores a 32 bits de forma segura
-      n = Math.floor(n / 256)
+  private hash(associatedData: Uint8Array, text: Uint8Array): Uint8Array {
+    let acc = this.hashChunks(0n, associatedData)
+    acc = this.hashChunks(acc, text)
+    acc = reduce(acc + ((BigInt(associatedData.length) * 8n) << 64n) + BigInt(text.length) * 8n)
+
+    const block = new Uint8Array(16)
+    for (let i = 15; i >= 0; i--) {
+      block[i] = Number(acc & 0xffn)
+      acc >>= 8n
     }
+    return block
+  }
+
+  /**
+   * Construye el bloque de contador 0x80 || N || [i]_32.
+   * @private
+   */
+  private counterBlock(nonce: Uint8Array, index: number): Uint8Array {
+    const block = new Uint8Array(16)
+    block[0] = 0x80
+    block.set(nonce, 1)
+    block[15] = index
+    return block
+  }
 
-    n = textLen * 8
-    // Almacena la longitud del texto en bits como un entero de 64 bits en formato little-endian
-    for (let i = 8; i < 16; i++) {
-      lenBlock[i] = n & 0xff
-      n = Math.floor(n / 256)
+  /**
+   * Calcula la etiqueta T = E_K(CWC-HASH(A, C)) ⊕ E_K(0x80 || N || 0^32).
+   * @private
+   */
+  private mac(nonce: Uint8Array, associatedData: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+    const encryptedHash = this.aes.encrypt(this.hash(associatedData, ciphertext))
+    const encryptedNonce = this.aes.encrypt(this.counterBlock(nonce, 0))
+
+    const tag = new Uint8Array(16)
+    for (let i = 0; i < 16; i++) {
+      tag[i] = encryptedHash[i] ^ encryptedNonce[i]
     }
+    return tag
+  }
 
-    return lenBlock
+  private checkNonce(nonce: Uint8Array): void {
+    if (nonce.length !== CWC_NONCE_SIZE) {
+      throw new InvalidNonceError("Tamaño de nonce inválido para CWC (debe ser 11 bytes)", { mode: this.name, parameter: "nonce", expected: [CWC_NONCE_SIZE], actual: nonce.length })
+    }
   }
 
   /**
-   * Calcula el hash POLYVAL sobre los datos asociados y el texto cifrado.
-   * @private
+   * Cifra y autentica los datos usando AES-CWC.
+   * @param plaintext El texto plano a cifrar.
+   * @param nonce El nonce de 88 bits (11 bytes). No debe reutilizarse con la misma clave.
+   * @param associatedData Datos adicionales que serán autenticados pero no cifrados.
+   * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag` de 16 bytes.
    */
-  private hash(authKey: Uint8Array, associatedData: Uint8Array, text: Uint8Array): Uint8Array {
-    let s = new Uint8Array(16)
-    const aadPadded = this.padToBlockSize(associatedData)
-    const textPadded = this.padToBlockSize(text)
-
-    // Los datos se procesan en el orden: AAD, texto, bloque de longitudes
-    const blocks = [aadPadded, textPadded, this.createLengthBlock(associatedData.length, text.length)]
-
-    for (const data of blocks) {
-      for (let i = 0; i < data.length; i += 16) {
-        const block = data.subarray(i, i + 16)
-        // s ^= block
-        for (let j = 0; j < 16; j++) {
-          s[j] ^= block[j]
-        }
-        // s = s * authKey
-        s = this.polyvalMultiply(s, authKey)
-      }
+  encrypt(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
+    this.checkNonce(nonce)
+
+    // --- FASE DE CIFRADO (CWC-CTR) ---
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, new Counter(this.counterBlock(nonce, 1)), this.options)
+    const ciphertext = ctr.encrypt(plaintext)
+    ctr.dispose()
+
+    // --- FASE DE AUTENTICACIÓN (CWC-MAC) ---
+    const tag = this.mac(nonce, associatedData, ciphertext)
+
+    return { ciphertext, tag }
+  }
+
+  /**
+   * Descifra y verifica la autenticidad de los datos.
+   * @param ciphertext El texto cifrado.
+   * @param tag La etiqueta de autenticación recibida.
+   * @param nonce El mismo nonce usado en el cifrado.
+   * @param associatedData Los mismos datos asociados usados en el cifrado.
+   * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
+   */
+  decrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
+    this.checkNonce(nonce)
+    if (tag.length !== 16) {
+      return null // Etiqueta inválida, la verificación fallará
+    }
+
+    // --- FASE DE AUTENTICACIÓN (VERIFICACIÓN) ---
+    // La verificación se realiza ANTES de intentar descifrar.
+    const expectedTag = this.mac(nonce, associatedData, ciphertext)
+
+    // Comparación en tiempo constante para evitar ataques de temporización
+    let tagsMatch = 0
+    for (let i = 0; i < 16; i++) {
+      tagsMatch |= tag[i] ^ expectedTag[i]
     }
 
-    return s
+    if (tagsMatch !== 0) {
+      return null // ¡Fallo de autenticación! Las etiquetas no coinciden.
+    }
+
+    // --- FASE DE DESCIFRADO (CWC-CTR) ---
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, new Counter(this.counterBlock(nonce, 1)), this.options)
+    const plaintext = ctr.decrypt(ciphertext)
+    ctr.dispose()
+
+    return plaintext
+  }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en CWC", () => this.decrypt(ciphertext, tag, nonce, associatedData))
+  }
+
+  /**
+   * Suelta la clave de hash y destruye el núcleo AES de la clave maestra, cuya expansión comparten los CTR de cada
+   * mensaje.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.hashKey = 0n
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
+
+/**
+ * Implementación heredada del modo CWC de versiones anteriores de esta biblioteca.
+ *
+ * **No es CWC**: su MAC es la multiplicación POLYVAL en GF(2^128) de GCM-SIV, no el hash de Carter-Wegman módulo
+ * 2^127 − 1, y la etiqueta no cifra el hash. Solo se conserva para descifrar datos antiguos y volver a cifrarlos con
+ * {@link ModeOfOperationCWC}; no interopera con ninguna otra implementación.
+ *
+ * Como CWC, es un esquema de Cifrado Autenticado con Datos Asociados (AEAD) que
+ * sigue el paradigma "Encrypt-then-MAC". Este enfoque es altamente seguro y
+ * resistente a ataques de texto cifrado elegido.
+ *
+ * El proceso se divide en dos fases principales:
+ * 1.  **Cifrado**: El texto plano se cifra utilizando el modo Counter (CTR) para
+ * producir el texto cifrado. El contador se inicializa con un nonce único.
+ * 2.  **Autenticación**: Se calcula una etiqueta de autenticación (MAC) sobre
+ * el texto cifrado resultante y los datos asociados (AAD). Esto se logra
+ * mediante un hash universal (POLYVAL) y el cifrado del nonce.
+ *
+ * Características principales:
+ * - **Seguridad**: Proporciona confidencialidad, autenticidad e integridad.
+ * - **Eficiencia**: El cifrado y la autenticación se realizan en paralelo.
+ * - **Resistencia a Nonce**: No requiere un nonce completamente aleatorio, aunque
+ * se recomienda su unicidad para cada operación de cifrado.
+ *
+ * @example
+ * ```typescript
+ * const key = new Uint8Array(32); // Clave de 256 bits
+ * const cwc = new ModeOfOperationCWCLegacy(key);
+ * const plaintext = new TextEncoder().encode("Mensaje secreto");
+ * const nonce = new Uint8Array(12); // 96-bit nonce
+ * const aad = new TextEncoder().encode("Datos asociados");
+ * 
+ * const { ciphertext, tag } = cwc.encrypt(plaintext, nonce, aad);
+ * const decrypted = cwc.decrypt(ciphertext, tag, nonce, aad);
+ * ```
+ */
+export class ModeOfOperationCWCLegacy {
+  public readonly description = "Legacy CWC Mode (POLYVAL hash)"
+  public readonly name = "cwc-legacy"
+
+  private readonly options: AESOptions
+  private readonly aes: AESCore
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
+  /**
+   * Inicializa el modo de operación CWC heredado con una clave maestra.
+   * @param key La clave maestra, que debe ser de 16 bytes (AES-128) o 32 bytes (AES-256), o su expansión.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
+   */
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
+    const keyLength = key instanceof ExpandedKey ? key.keyLength : key.length
+    if (keyLength !== 16 && keyLength !== 32) {
+      throw new InvalidKeyLengthError("Tamaño de clave inválido para CWC heredado (debe ser 16 o 32 bytes)", { mode: this.name, expected: [16, 32], actual: keyLength })
+    }
+    this.aes = createAES(key, options)
+    this.options = options
+  }
+
+  /**
+   * Calcula el hash sobre los datos asociados y el texto cifrado, cada uno rellenado con ceros hasta un múltiplo de 16
+   * bytes, y el bloque de longitudes en little-endian. Aunque las versiones anteriores lo llamaban POLYVAL, multiplica
+   * con el orden de bits de GHASH.
+   * @private
+   */
+  private hash(authKey: Uint8Array, associatedData: Uint8Array, text: Uint8Array): Uint8Array {
+    const hash = new GF128Hash(authKey, "ghash")
+    hash.update(associatedData)
+    hash.flush()
+    hash.update(text)
+    const result = hash.digest(lengthBlock(associatedData.length, text.length, true))
+    hash.clear()
+    return result
   }
 
   /**
@@ -163,8 +338,9 @@ export class ModeOfOperationCWC {
    * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag`.
    */
   encrypt(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
     if (nonce.length !== 12) {
-      throw new Error("Tamaño de nonce inválido para CWC (debe ser 12 bytes)")
+      throw new InvalidNonceError("Tamaño de nonce inválido para CWC heredado (debe ser 12 bytes)", { mode: this.name, parameter: "nonce", expected: [12], actual: nonce.length })
     }
 
     // --- FASE DE CIFRADO (CTR) ---
@@ -173,8 +349,9 @@ export class ModeOfOperationCWC {
     initialCounter.set(nonce)
     initialCounter[15] = 1 // Inicia el contador en 1 para el cifrado de datos
 
-    const ctr = new ModeOfOperationCTR(this.masterKey, new Counter(initialCounter))
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, new Counter(initialCounter), this.options)
     const ciphertext = ctr.encrypt(plaintext)
+    ctr.dispose()
 
     // --- FASE DE AUTENTICACIÓN (MAC) ---
     // 1. Derivar la clave de hash H = E_K(0^128)
@@ -208,8 +385,9 @@ export class ModeOfOperationCWC {
    * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
    */
   decrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     if (nonce.length !== 12) {
-      throw new Error("Tamaño de nonce inválido para CWC (debe ser 12 bytes)")
+      throw new InvalidNonceError("Tamaño de nonce inválido para CWC heredado (debe ser 12 bytes)", { mode: this.name, parameter: "nonce", expected: [12], actual: nonce.length })
     }
     if (tag.length !== 16) {
       return null // Etiqueta inválida, la verificación fallará
@@ -250,9 +428,31 @@ export class ModeOfOperationCWC {
     initialCounter.set(nonce)
     initialCounter[15] = 1 // Inicia el contador en 1, igual que en el cifrado
 
-    const ctr = new ModeOfOperationCTR(this.masterKey, new Counter(initialCounter))
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, new Counter(initialCounter), this.options)
     const plaintext = ctr.decrypt(ciphertext)
+    ctr.dispose()
 
     return plaintext
   }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en CWC heredado", () => this.decrypt(ciphertext, tag, nonce, associatedData))
+  }
+
+  /**
+   * Destruye el núcleo AES de la clave maestra, cuya expansión comparten los CTR de cada mensaje.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
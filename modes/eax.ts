@@ -1,7 +1,28 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidLengthError, toDecryptResult } from "../errors"
+import { ExpandedKey } from "../key-schedule"
+import { doubleBE } from "./utils/gf128"
 import { xor } from "./utils/xor"
 import { ModeOfOperationCTR } from "./ctr"
 
+// Tamaño de la etiqueta de EAX′, fijado por ANSI C12.22.
+const EAX_PRIME_TAG_SIZE = 4
+
+// Longitud mínima del cleartext de EAX′: con un bloque o menos, las subclaves D y Q se cancelan (ver ModeOfOperationEAXPrime).
+const EAX_PRIME_MIN_CLEARTEXT = 17
+
+/**
+ * Opciones del modo EAX. Además de las de {@link AESOptions}:
+ * - `legacyDomain`: usa la separación de dominios de versiones anteriores de esta biblioteca, que anteponía a cada
+ *   mensaje un único byte con el dominio en lugar del bloque completo `[t]_n` del artículo. Los datos así cifrados no
+ *   interoperan con ninguna otra implementación de EAX; solo debe activarse para descifrar datos antiguos y volver a
+ *   cifrarlos sin esta opción.
+ */
+export interface EAXOptions extends AESOptions {
+  legacyDomain?: boolean
+}
+
 /**
  * Implementación del modo de operación AES-EAX (Encrypt-then-Authenticate-then-Translate).
  *
@@ -22,6 +43,11 @@ import { ModeOfOperationCTR } from "./ctr"
  * 3. Se calculan MACs separados para el nonce, datos asociados y texto cifrado.
  * 4. La etiqueta final es el XOR de estos tres MACs.
  *
+ * Los tres MACs se separan con OMAC^t(M) = OMAC([t]_n || M), donde `[t]_n` es el bloque de 16 bytes con el entero t
+ * (0 para el nonce, 1 para los datos asociados y 2 para el texto cifrado) en big-endian, como define el artículo de
+ * Bellare, Rogaway y Wagner. Las versiones anteriores de esta biblioteca anteponían un solo byte; para descifrar datos
+ * cifrados así, use la opción `legacyDomain` (o `AesMode.EAX_LEGACY` en `HighLevelAES`).
+ *
  * Consideraciones de seguridad:
  * - **Nonce único**: Aunque EAX es resistente a la reutilización de nonce, se recomienda usar nonces únicos.
  * - **Sin autenticación débil**: EAX no permite verificar partes de los datos sin verificar todo.
@@ -50,60 +76,79 @@ export class ModeOfOperationEAX {
   public readonly description = "EAX Mode"
   public readonly name = "eax"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly tagSize: number
-  private readonly key: Uint8Array
+  private readonly options: AESOptions
+  private readonly legacyDomain: boolean
+
+  // --- Valores precalculados para OMAC ---
+  // Subclaves de CMAC: L·u para el último bloque completo y L·u² para el último bloque con relleno.
+  private readonly L_u: Uint8Array
+  private readonly L_u2: Uint8Array
+  // Estado de CBC-MAC tras procesar el bloque de dominio [t]_n, para t = 0, 1, 2.
+  private readonly domainStates: Uint8Array[]
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación EAX con una clave y tamaño de etiqueta opcional.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
    * @param tagSize El tamaño de la etiqueta de autenticación (8-16 bytes). Por defecto es 16 bytes.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ legacyDomain: true }` para descifrar datos de versiones anteriores).
    */
-  constructor(key: Uint8Array, tagSize: number = 16) {
+  constructor(key: Uint8Array | ExpandedKey, tagSize: number = 16, options: EAXOptions = {}) {
     if (tagSize < 8 || tagSize > 16) {
-      throw new Error("Tamaño de etiqueta EAX inválido (debe estar entre 8 y 16)")
+      throw new InvalidLengthError("Tamaño de etiqueta EAX inválido (debe estar entre 8 y 16)", { mode: this.name, parameter: "tagSize", expected: { min: 8, max: 16 }, actual: tagSize })
     }
-    this.aes = new AES(key)
+    this.aes = createAES(key, options)
     this.tagSize = tagSize
-    this.key = key
+    this.options = options
+    this.legacyDomain = options.legacyDomain === true
+
+    // Derivación de subclaves para OMAC
+    const L = this.aes.encrypt(new Uint8Array(16))
+    this.L_u = doubleBE(L)
+    this.L_u2 = doubleBE(this.L_u)
+    wipe(L)
+
+    this.domainStates = [0, 1, 2].map(domain => {
+      const block = new Uint8Array(16)
+      block[15] = domain
+      return this.aes.encrypt(block)
+    })
   }
 
   /**
-   * Duplica un valor en el cuerpo de Galois GF(2^128).
-   * Necesario para la derivación de subclaves en OMAC/CMAC.
+   * Calcula OMAC^t(M) = OMAC([t]_n || M) para un mensaje dado.
+   * @param data El mensaje a autenticar.
+   * @param domain El dominio t (0 para Nonce, 1 para AAD, 2 para Ciphertext).
    * @private
    */
-  private _double(block: Uint8Array): Uint8Array {
-    const doubled = new Uint8Array(16)
-    const msbSet = (block[0] & 0x80) !== 0
-    for (let i = 0; i < 15; i++) {
-      doubled[i] = ((block[i] << 1) | (block[i + 1] >>> 7)) & 0xff
+  private _omac(data: Uint8Array, domain: number): Uint8Array {
+    if (this.legacyDomain) {
+      // Variante anterior: un solo byte de dominio delante del mensaje.
+      const message = new Uint8Array(1 + data.length)
+      message[0] = domain
+      message.set(data, 1)
+      return this._cmac(new Uint8Array(16), message)
     }
-    doubled[15] = (block[15] << 1) & 0xff
-    if (msbSet) {
-      doubled[15] ^= 0x87
+
+    if (data.length === 0) {
+      // [t]_n es el último (y único) bloque, completo: se cifra con la subclave L·u.
+      const block = new Uint8Array(16)
+      block[15] = domain
+      return this.aes.encrypt(xor(block, this.L_u))
     }
-    return doubled
+    return this._cmac(this.domainStates[domain], data)
   }
 
   /**
-   * Calcula el OMAC (CMAC) para un mensaje dado con un prefijo de dominio.
-   * @param data El mensaje a autenticar.
-   * @param domain El byte de dominio (0 para Nonce, 1 para AAD, 2 para Ciphertext).
+   * Continúa un CMAC desde el estado de CBC-MAC `state` y lo termina con el último bloque de `message`.
    * @private
    */
-  private _omac(data: Uint8Array, domain: number): Uint8Array {
-    // Derivación de subclaves para OMAC
-    const L = this.aes.encrypt(new Uint8Array(16))
-    const L_u = this._double(L)
-    const L_u2 = this._double(L_u)
-
-    // Prepara el mensaje con el prefijo de dominio
-    const message = new Uint8Array(1 + data.length)
-    message[0] = domain
-    message.set(data, 1)
-
-    let lastBlock = new Uint8Array(16)
+  private _cmac(state: Uint8Array, message: Uint8Array): Uint8Array {
+    let lastBlock = state
     const numBlocks = Math.ceil(message.length / 16)
 
     for (let i = 0; i < numBlocks - 1; i++) {
@@ -114,13 +159,13 @@ export class ModeOfOperationEAX {
 
     const finalBlock = message.subarray((numBlocks - 1) * 16)
     let subkey: Uint8Array
-    let paddedFinalBlock = new Uint8Array(16)
+    let paddedFinalBlock: Uint8Array = new Uint8Array(16)
 
     if (finalBlock.length === 16) {
-      subkey = L_u
+      subkey = this.L_u
       paddedFinalBlock = finalBlock
     } else {
-      subkey = L_u2
+      subkey = this.L_u2
       paddedFinalBlock.set(finalBlock)
       paddedFinalBlock[finalBlock.length] = 0x80
     }
@@ -136,12 +181,14 @@ export class ModeOfOperationEAX {
    * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag`.
    */
   encrypt(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
     // Calcular el MAC del nonce, que servirá como IV para el modo CTR.
     const nonceMac = this._omac(nonce, 0)
 
     // Cifrar el texto plano usando CTR, inicializado con el MAC del nonce.
-    const ctr = new ModeOfOperationCTR(this.key, nonceMac)
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, nonceMac, this.options)
     const ciphertext = ctr.encrypt(plaintext)
+    ctr.dispose()
 
     // Calcular los MACs de los datos asociados y del texto cifrado.
     const associatedDataMac = this._omac(associatedData, 1)
@@ -162,6 +209,7 @@ export class ModeOfOperationEAX {
    * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
    */
   decrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     if (tag.length !== this.tagSize) {
       return null
     }
@@ -185,9 +233,233 @@ export class ModeOfOperationEAX {
     }
 
     // Si la autenticación es exitosa, proceder a descifrar.
-    const ctr = new ModeOfOperationCTR(this.key, nonceMac)
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, nonceMac, this.options)
     const plaintext = ctr.decrypt(ciphertext)
+    ctr.dispose()
 
     return plaintext
   }
-}
\ No newline at end of file
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en EAX", () => this.decrypt(ciphertext, tag, nonce, associatedData))
+  }
+
+  /**
+   * Borra las subclaves de OMAC precalculadas y destruye el núcleo AES interno, cuya expansión de clave comparten los
+   * CTR de cada mensaje.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.L_u, this.L_u2, ...this.domainStates)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
+
+/**
+ * Implementación del modo de operación AES-EAX′ (EAX-prime), la variante de EAX de ANSI C12.22 / IEEE 1703 para
+ * las comunicaciones de contadores inteligentes.
+ *
+ * EAX′ simplifica EAX para dispositivos con pocos recursos:
+ * - No hay nonce ni datos asociados separados: el *cleartext* (las cabeceras C12.22 en claro, que ya incluyen
+ *   identificadores y números de secuencia) hace de nonce y se autentica sin cifrar.
+ * - En lugar de OMAC^t, usa CMAC′: un CMAC cuyo primer bloque se combina por XOR con D = L·u (para el cleartext)
+ *   o con Q = L·u² (para el texto cifrado), las mismas subclaves que cierran el último bloque.
+ * - Hay un único MAC por entrada: N′ = CMAC′_D(cleartext) y C′ = CMAC′_Q(ciphertext).
+ * - El contador de CTR es N′ con los bits 31 y 15 a cero.
+ * - La etiqueta son los 4 primeros bytes de N′ ⊕ C′.
+ *
+ * Restricciones de uso, que la clase hace cumplir:
+ * - **Solo para interoperar con C12.22.** Para datos nuevos use {@link ModeOfOperationEAX}.
+ * - **Cleartext de más de un bloque.** Minematsu, Lucks, Morita e Iwata (FSE 2013) mostraron que con un cleartext de
+ *   16 bytes o menos las subclaves se cancelan y es posible falsificar mensajes, e incluso descifrarlos. Con cleartexts
+ *   más largos, como los de C12.22, esos ataques no se aplican. Por eso se rechazan los de menos de 17 bytes.
+ * - **Etiqueta de 4 bytes.** Cada intento de falsificación acierta con probabilidad 2^-32, así que el protocolo debe
+ *   limitar los intentos de verificación fallidos. No se admite otro tamaño de etiqueta.
+ * - **Clave dedicada.** La clave no debe compartirse con EAX ni con ningún otro modo.
+ *
+ * @example
+ * ```typescript
+ * const key = new Uint8Array(16); // Clave de 128 bits
+ * const eaxPrime = new ModeOfOperationEAXPrime(key);
+ * const cleartext = new TextEncoder().encode("C12.22 header: ap-title, invocation id"); // Más de 16 bytes
+ * const plaintext = new TextEncoder().encode("Lectura del contador");
+ *
+ * const { ciphertext, tag } = eaxPrime.encrypt(plaintext, cleartext); // Etiqueta de 4 bytes
+ * const decrypted = eaxPrime.decrypt(ciphertext, tag, cleartext);
+ * ```
+ *
+ * @see Moise, Beroset, Phinney y Burns, *EAX′ Cipher Mode* (propuesta al NIST, 2011), para la especificación.
+ * @see Minematsu, Lucks, Morita e Iwata, *Attacks and Security Proofs of EAX-Prime* (FSE 2013), para sus debilidades.
+ */
+export class ModeOfOperationEAXPrime {
+  public readonly description = "EAX′ Mode (ANSI C12.22)"
+  public readonly name = "eax-prime"
+
+  private readonly aes: AESCore
+  private readonly options: AESOptions
+
+  // --- Valores precalculados para CMAC′ ---
+  // D = L·u separa el cleartext y cierra los últimos bloques completos; Q = L·u², el texto cifrado y los bloques con relleno.
+  private readonly D: Uint8Array
+  private readonly Q: Uint8Array
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
+  /**
+   * Inicializa el modo de operación EAX′ con una clave. La etiqueta es siempre de 4 bytes.
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
+   */
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
+    this.aes = createAES(key, options)
+    this.options = options
+
+    const L = this.aes.encrypt(new Uint8Array(16))
+    this.D = doubleBE(L)
+    this.Q = doubleBE(this.D)
+    wipe(L)
+  }
+
+  /**
+   * Comprueba que el cleartext es lo bastante largo para que CMAC′ no pierda la separación de dominios.
+   * @private
+   */
+  private _checkCleartext(cleartext: Uint8Array): void {
+    if (cleartext.length < EAX_PRIME_MIN_CLEARTEXT) {
+      throw new InvalidLengthError(`El cleartext de EAX′ debe tener al menos ${EAX_PRIME_MIN_CLEARTEXT} bytes`, { mode: this.name, parameter: "cleartext", expected: { min: EAX_PRIME_MIN_CLEARTEXT }, actual: cleartext.length })
+    }
+  }
+
+  /**
+   * Calcula CMAC′: un CMAC cuyo primer bloque (ya cerrado con D o Q si es también el último) se combina con `tweak`.
+   * @param data El mensaje a autenticar.
+   * @param tweak D para el cleartext, Q para el texto cifrado.
+   * @private
+   */
+  private _cmacPrime(data: Uint8Array, tweak: Uint8Array): Uint8Array {
+    let lastBlock = new Uint8Array(16)
+    const numBlocks = Math.max(1, Math.ceil(data.length / 16))
+
+    for (let i = 0; i < numBlocks; i++) {
+      const from = i * 16
+      let block: Uint8Array = data.subarray(from, from + 16)
+      if (i === numBlocks - 1) {
+        if (block.length === 16) {
+          block = xor(block, this.D)
+        } else {
+          const padded = new Uint8Array(16)
+          padded.set(block)
+          padded[block.length] = 0x80
+          block = xor(padded, this.Q)
+        }
+      }
+      if (i === 0) {
+        block = xor(block, tweak)
+      }
+      lastBlock = this.aes.encrypt(xor(lastBlock, block))
+    }
+
+    return lastBlock
+  }
+
+  /**
+   * Deriva el contador inicial de CTR a partir de N′, poniendo a cero los bits 31 y 15.
+   * @private
+   */
+  private _counter(nonceMac: Uint8Array): Uint8Array {
+    const counter = new Uint8Array(nonceMac)
+    counter[12] &= 0x7f
+    counter[14] &= 0x7f
+    return counter
+  }
+
+  /**
+   * Cifra y autentica los datos usando AES-EAX′.
+   * @param plaintext El texto plano a cifrar. Puede estar vacío.
+   * @param cleartext Las cabeceras en claro, que hacen de nonce. ¡No deben repetirse! Al menos 17 bytes.
+   * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag` de 4 bytes.
+   * @throws InvalidLengthError si el cleartext tiene menos de 17 bytes.
+   */
+  encrypt(plaintext: Uint8Array, cleartext: Uint8Array): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
+    this._checkCleartext(cleartext)
+    const nonceMac = this._cmacPrime(cleartext, this.D)
+
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, this._counter(nonceMac), this.options)
+    const ciphertext = ctr.encrypt(plaintext)
+    ctr.dispose()
+
+    const ciphertextMac = this._cmacPrime(ciphertext, this.Q)
+    const tag = xor(nonceMac, ciphertextMac)
+
+    return { ciphertext, tag: tag.subarray(0, EAX_PRIME_TAG_SIZE) }
+  }
+
+  /**
+   * Descifra y verifica la autenticidad de los datos.
+   * @param ciphertext El texto cifrado.
+   * @param tag La etiqueta de autenticación recibida, de 4 bytes.
+   * @param cleartext El mismo cleartext usado en el cifrado.
+   * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
+   * @throws InvalidLengthError si el cleartext tiene menos de 17 bytes.
+   */
+  decrypt(ciphertext: Uint8Array, tag: Uint8Array, cleartext: Uint8Array): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
+    this._checkCleartext(cleartext)
+    if (tag.length !== EAX_PRIME_TAG_SIZE) {
+      return null
+    }
+
+    const nonceMac = this._cmacPrime(cleartext, this.D)
+    const ciphertextMac = this._cmacPrime(ciphertext, this.Q)
+    const expectedTag = xor(nonceMac, ciphertextMac)
+
+    // Comparar la etiqueta recibida con la esperada en tiempo constante.
+    let tagsMatch = 0
+    for (let i = 0; i < EAX_PRIME_TAG_SIZE; i++) {
+      tagsMatch |= tag[i] ^ expectedTag[i]
+    }
+
+    if (tagsMatch !== 0) {
+      return null // ¡Fallo de autenticación!
+    }
+
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, this._counter(nonceMac), this.options)
+    const plaintext = ctr.decrypt(ciphertext)
+    ctr.dispose()
+
+    return plaintext
+  }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide,
+   * `InvalidLengthError` si el cleartext es demasiado corto).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, cleartext: Uint8Array): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en EAX′", () => this.decrypt(ciphertext, tag, cleartext))
+  }
+
+  /**
+   * Borra las subclaves D y Q y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.D, this.Q)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
@@ -1,4 +1,8 @@
-import { AES } from "../aes"
+import { AESOptions, BlockCipher, createBlockCipher } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidLengthError } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
 
 /**
  * Implementación del modo de operación AES-ECB (Electronic Codebook).
@@ -35,53 +39,84 @@ import { AES } from "../aes"
 export class ModeOfOperationECB {
   public readonly description = "Electronic Codebook"
   public readonly name = "ecb"
-  private readonly aes: AES
+  private readonly aes: BlockCipher
+  // 16 bytes salvo con Rijndael de bloque variable (`options.blockSize`).
+  private readonly blockSize: number
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación ECB con una clave.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits; Rijndael admite también 20 y 28),
+   *   o su expansión (`ExpandedKey`, solo con bloques de 16 bytes).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ blockSize: 32 }` para Rijndael con bloque de 256 bits).
    */
-  constructor(key: Uint8Array) {
-    this.aes = new AES(key)
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
+    this.aes = createBlockCipher(key, options)
+    this.blockSize = this.aes.blockSize
+    this.key = copyKeyBytes(key)
+    this.nativeAlgorithm = `aes-${this.key.length * 8}-ecb`
+    this.native = resolveNativeBackend(options, this.blockSize === 16 ? this.nativeAlgorithm : null)
   }
 
   /**
    * Cifra un bloque o múltiples bloques de datos en modo ECB.
-   * @param plaintext El texto plano a cifrar. Debe ser múltiplo de 16 bytes.
+   * @param plaintext El texto plano a cifrar. Debe ser múltiplo del tamaño de bloque (16 bytes en AES).
    * @returns El texto cifrado del mismo tamaño que el texto plano.
-   * @throws Error si el tamaño del texto plano no es múltiplo de 16 bytes.
+   * @throws InvalidLengthError si el tamaño del texto plano no es múltiplo del tamaño de bloque.
    */
   encrypt(plaintext: Uint8Array): Uint8Array {
-    if (plaintext.length % 16 !== 0) {
-      throw new Error("Tamaño de texto plano inválido (debe ser múltiplo de 16 bytes)")
+    assertNotDisposed(this.disposed, this.name)
+    if (plaintext.length % this.blockSize !== 0) {
+      throw new InvalidLengthError(`Tamaño de texto plano inválido (debe ser múltiplo de ${this.blockSize} bytes)`, { mode: this.name, parameter: "plaintext", expected: { multipleOf: this.blockSize }, actual: plaintext.length })
     }
 
-    const ciphertext = new Uint8Array(plaintext.length)
-    for (let i = 0; i < plaintext.length; i += 16) {
-      const block = plaintext.subarray(i, i + 16)
-      const encryptedBlock = this.aes.encrypt(block)
-      ciphertext.set(encryptedBlock, i)
+    if (this.native) {
+      return runNativeCipher(this.native.createCipheriv(this.nativeAlgorithm, this.key, null).setAutoPadding(false), plaintext)
     }
+
+    const ciphertext = new Uint8Array(plaintext.length)
+    this.aes.encryptBlocks(plaintext, ciphertext, plaintext.length / this.blockSize)
     return ciphertext
   }
 
   /**
    * Descifra un bloque o múltiples bloques de datos en modo ECB.
-   * @param ciphertext El texto cifrado a descifrar. Debe ser múltiplo de 16 bytes.
+   * @param ciphertext El texto cifrado a descifrar. Debe ser múltiplo del tamaño de bloque (16 bytes en AES).
    * @returns El texto plano del mismo tamaño que el texto cifrado.
-   * @throws Error si el tamaño del texto cifrado no es múltiplo de 16 bytes.
+   * @throws InvalidLengthError si el tamaño del texto cifrado no es múltiplo del tamaño de bloque.
    */
   decrypt(ciphertext: Uint8Array): Uint8Array {
-    if (ciphertext.length % 16 !== 0) {
-      throw new Error("Tamaño de texto cifrado inválido (debe ser múltiplo de 16 bytes)")
+    assertNotDisposed(this.disposed, this.name)
+    if (ciphertext.length % this.blockSize !== 0) {
+      throw new InvalidLengthError(`Tamaño de texto cifrado inválido (debe ser múltiplo de ${this.blockSize} bytes)`, { mode: this.name, parameter: "ciphertext", expected: { multipleOf: this.blockSize }, actual: ciphertext.length })
     }
 
-    const plaintext = new Uint8Array(ciphertext.length)
-    for (let i = 0; i < ciphertext.length; i += 16) {
-      const block = ciphertext.subarray(i, i + 16)
-      const decryptedBlock = this.aes.decrypt(block)
-      plaintext.set(decryptedBlock, i)
+    if (this.native) {
+      return runNativeCipher(this.native.createDecipheriv(this.nativeAlgorithm, this.key, null).setAutoPadding(false), ciphertext)
     }
+
+    const plaintext = new Uint8Array(ciphertext.length)
+    this.aes.decryptBlocks(ciphertext, plaintext, ciphertext.length / this.blockSize)
     return plaintext
   }
+
+  /**
+   * Borra la copia de la clave y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
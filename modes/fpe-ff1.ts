@@ -1,4 +1,42 @@
-import { AES } from "../aes"
+import { AESCore, createAES } from "../aes"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidLengthError, InvalidParameterError } from "../errors"
+import { ExpandedKey } from "../key-schedule"
+import { FPEOptions, parseAlphabet, splitSymbols } from "./utils/alphabet"
+
+const FF1_ROUNDS = 10
+// Con radix^m ≤ 2^52, las mitades y las sumas intermedias caben con exactitud en un número de doble precisión.
+const MAX_FAST_MODULUS = 2 ** 52
+// Con radix^m ≤ 2^41, Σ S[j]·w[j] sobre los hasta 12 bytes de S no pasa de 2^53 (12 · 255 · 2^41 < 2^53).
+const MAX_WEIGHTED_MODULUS = 2 ** 41
+// Combinaciones distintas de longitud de texto y de tweak cuyos valores precalculados se conservan.
+const SETUP_CACHE_SIZE = 64
+const HEX_BYTES = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, "0"))
+
+/**
+ * Opciones del modo FF1. Además de las de {@link FPEOptions}:
+ * - `legacyPBlock`: construye el bloque P de la PRF como las versiones anteriores de esta biblioteca, con el radix en
+ *   2 bytes y un byte nulo al final en lugar de los 3 bytes de NIST SP 800-38G. Los valores así cifrados no interoperan
+ *   con ninguna otra implementación de FF1; solo debe activarse para descifrar datos antiguos y volver a cifrarlos sin
+ *   esta opción.
+ */
+export interface FF1Options extends FPEOptions {
+  legacyPBlock?: boolean
+}
+
+// Valores de FF1 que solo dependen de la longitud del texto y del tweak.
+interface FF1Setup {
+  u: number
+  v: number
+  b: number
+  d: number
+  qLength: number
+  // Estado del CBC-MAC tras el bloque P
+  prefix: Uint8Array
+  // 256^k mod radix^u y mod radix^v para reducir NUM(S) sin BigInt, o null si el módulo es demasiado grande
+  weightsU: Float64Array | null
+  weightsV: Float64Array | null
+}
 
 /**
  * Implementación de AES-FPE en modo FF1 (Format-Preserving Encryption), conforme a NIST SP 800-38G.
@@ -18,6 +56,14 @@ import { AES } from "../aes"
  * 3. Se aplican múltiples rondas de cifrado con feedforward.
  * 4. Se combinan los resultados para obtener el texto cifrado final.
  *
+ * El bloque P lleva el radix en 3 bytes, como indica NIST SP 800-38G. Las versiones anteriores de esta biblioteca lo
+ * codificaban en 2 bytes; para descifrar valores cifrados así, use la opción `legacyPBlock` (o
+ * `AesMode.FPE_FF1_LEGACY` en `HighLevelAES`).
+ *
+ * Rendimiento: el estado del CBC-MAC tras el bloque constante P se calcula una sola vez por cada longitud de texto y de
+ * tweak, y mientras radix^v quepa en 52 bits las rondas operan con números de doble precisión, sin BigInt. Para cifrar
+ * lotes grandes conviene reutilizar la misma instancia.
+ *
  * @example
  * ```typescript
  * const key = new Uint8Array(32); // Clave de 256 bits
@@ -35,41 +81,61 @@ export class ModeOfOperationFPE_FF1 {
   public readonly description = "Format-Preserving Encryption (FF1)"
   public readonly name = "fpe-ff1"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly radix: number
   private readonly minLen: number
   private readonly maxLen: number
+  // Mayor número de numerales k con radix^k ≤ 2^52, para convertir entre numerales y BigInt por bloques
+  private readonly chunkDigits: number
 
   private readonly charToNum: Map<string, number>
   private readonly numToChar: string[]
+  // Segmentación y normalización con las que se dividen el alfabeto y los textos en símbolos
+  private readonly fpeOptions: FPEOptions
+  private readonly legacyPBlock: boolean
+  // Valores precalculados por longitud de texto y de tweak (ver `_setup`)
+  private readonly setupCache = new Map<string, FF1Setup>()
+  // Búferes reutilizados entre rondas y llamadas
+  private Q = new Uint8Array(16)
+  private S = new Uint8Array(16)
+  private readonly R = new Uint8Array(16)
+  private readonly block = new Uint8Array(16)
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación FPE-FF1 con una clave maestra y un alfabeto.
-   * @param key La clave maestra AES.
-   * @param alphabet El alfabeto de caracteres permitidos en el texto plano y cifrado.
+   * @param key La clave maestra AES, o su expansión (`ExpandedKey`).
+   * @param alphabet El alfabeto de caracteres permitidos en el texto plano y cifrado. Cada punto de código (o grafema) es
+   * un símbolo y no puede repetirse.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante, o
+   * `{ segmentation: "grapheme" }` para trabajar con grupos de grafemas en lugar de puntos de código, o
+   * `{ legacyPBlock: true }` para descifrar valores de versiones anteriores).
    */
-  constructor(key: Uint8Array, alphabet: string) {
-    this.aes = new AES(key)
-    this.radix = alphabet.length
-
-    if (this.radix < 2 || this.radix > 2 ** 16) {
-      throw new Error("El tamaño del alfabeto (radix) debe estar entre 2 y 65536.")
-    }
+  constructor(key: Uint8Array | ExpandedKey, alphabet: string, options: FF1Options = {}) {
+    this.numToChar = parseAlphabet(alphabet, options, this.name)
+    this.charToNum = new Map(this.numToChar.map((char, i) => [char, i]))
+    this.radix = this.numToChar.length
+    this.fpeOptions = options
+    this.legacyPBlock = options.legacyPBlock ?? false
+    this.aes = createAES(key, options)
 
     const minLengthFromRadix = Math.ceil(Math.log(1000000) / Math.log(this.radix))
     this.minLen = Math.max(2, minLengthFromRadix)
     this.maxLen = 2 ** 32
 
-    this.charToNum = new Map(Array.from(alphabet).map((char, i) => [char, i]))
-    this.numToChar = Array.from(alphabet)
+    let chunkDigits = 0
+    for (let power = this.radix; power <= MAX_FAST_MODULUS; power *= this.radix) {
+      chunkDigits++
+    }
+    this.chunkDigits = chunkDigits
   }
 
-  // --- Funciones de Conversión de Tipos (Sin cambios, ya son compatibles) ---
-  private _stringToNumerals(input: string): number[] {
+  private _symbolsToNumerals(input: string[]): number[] {
     const numerals = new Array(input.length)
     for (let i = 0; i < input.length; i++) {
       const num = this.charToNum.get(input[i])
-      if (num === undefined) throw new Error(`El carácter '${input[i]}' no se encuentra en el alfabeto.`)
+      if (num === undefined) throw new InvalidParameterError(`El carácter '${input[i]}' no se encuentra en el alfabeto.`, { mode: this.name, parameter: "text" })
       numerals[i] = num
     }
     return numerals
@@ -83,180 +149,315 @@ export class ModeOfOperationFPE_FF1 {
     return str
   }
 
-  private _numeralsToBigInt(numerals: number[]): bigint {
-    let num = 0n
-    const bigRadix = BigInt(this.radix)
-    for (const n of numerals) {
-      num = num * bigRadix + BigInt(n)
+  // NUM_radix(X[start..end)) como número de doble precisión; solo es exacto si radix^(end - start) ≤ 2^52.
+  private _numeralsToNumber(numerals: number[], start: number, end: number): number {
+    let num = 0
+    for (let i = start; i < end; i++) {
+      num = num * this.radix + numerals[i]
     }
     return num
   }
 
-  private _bigIntToNumerals(num: bigint, length: number): number[] {
-    const numerals = new Array(length)
-    const bigRadix = BigInt(this.radix)
-    let tempNum = num
-    for (let i = length - 1; i >= 0; i--) {
-      numerals[i] = Number(tempNum % bigRadix)
-      tempNum /= bigRadix
-    }
-    return numerals
-  }
-
-  private _bigIntToBytes(num: bigint, numBytes: number): Uint8Array {
-    const bytes = new Uint8Array(numBytes)
-    let tempNum = num
-    for (let i = numBytes - 1; i >= 0; i--) {
-      bytes[i] = Number(tempNum & 0xffn)
-      tempNum >>= 8n
+  // STR^length_radix(num) escrito en numerals[start..start + length).
+  private _numberToNumerals(num: number, numerals: number[], start: number, length: number): void {
+    for (let i = start + length - 1; i >= start; i--) {
+      numerals[i] = num % this.radix
+      num = Math.floor(num / this.radix)
     }
-    return bytes
   }
 
-  private _bytesToBigInt(bytes: Uint8Array): bigint {
+  // NUM_radix(X[start..end)) como BigInt, acumulando bloques de `chunkDigits` numerales para reducir las operaciones BigInt.
+  private _numeralsToBigInt(numerals: number[], start: number, end: number): bigint {
+    const chunkBase = BigInt(this.radix ** this.chunkDigits)
     let num = 0n
-    for (const byte of bytes) {
-      num = (num << 8n) | BigInt(byte)
+    let i = start
+    // El primer bloque es el parcial (y num aún vale 0), para que el resto tenga exactamente `chunkDigits` numerales
+    let chunkEnd = start + ((end - start) % this.chunkDigits || this.chunkDigits)
+    while (i < end) {
+      num = num * chunkBase + BigInt(this._numeralsToNumber(numerals, i, chunkEnd))
+      i = chunkEnd
+      chunkEnd += this.chunkDigits
     }
     return num
   }
 
-  /**
-   * Implementación de PRF(X) según NIST SP 800-38G, Algoritmo 4.
-   * Es un CBC-MAC con un IV de cero.
-   */
-  private _prf(data: Uint8Array): Uint8Array {
-    let mac = new Uint8Array(16)
-    const numBlocks = Math.ceil(data.length / 16)
-    const currentBlock = new Uint8Array(16)
-
-    for (let i = 0; i < numBlocks; i++) {
-      const offset = i * 16
-      currentBlock.fill(0)
-      currentBlock.set(data.subarray(offset, offset + 16))
-
-      for (let j = 0; j < 16; j++) {
-        currentBlock[j] ^= mac[j]
+  // STR^length_radix(num) escrito en numerals[start..start + length).
+  private _bigIntToNumerals(num: bigint, numerals: number[], start: number, length: number): void {
+    if (this.radix <= 36) {
+      // toString(radix) es nativo y subcuadrático; cada carácter se convierte de nuevo a su valor
+      const digits = num.toString(this.radix).padStart(length, "0")
+      for (let i = 0; i < length; i++) {
+        numerals[start + i] = parseInt(digits[i], 36)
       }
-      mac = this.aes.encrypt(currentBlock)
+      return
+    }
+    const chunkBase = BigInt(this.radix ** this.chunkDigits)
+    let end = start + length
+    while (end > start) {
+      const chunkLength = Math.min(this.chunkDigits, end - start)
+      this._numberToNumerals(Number(num % chunkBase), numerals, end - chunkLength, chunkLength)
+      num /= chunkBase
+      end -= chunkLength
     }
-    return mac
   }
 
-  // --- Lógica Principal de FF1 (Corregida según NIST SP 800-38Gr1) ---
-
-  private _ff1(text: string, tweak: Uint8Array, isEncrypt: boolean): string {
-    const n = text.length
-    if (n < this.minLen || n > this.maxLen) {
-      throw new Error(`La longitud del texto (${n}) debe estar entre ${this.minLen} y ${this.maxLen}.`)
+  /**
+   * Calcula (o recupera de la caché) los valores que solo dependen de la longitud del texto y del tweak, entre ellos
+   * el estado del CBC-MAC de la PRF (NIST SP 800-38G, Algoritmo 4) tras el bloque
+   * P = [1]^1 || [2]^1 || [1]^1 || [radix]^3 || [10]^1 || [u mod 256]^1 || [n]^4 || [t]^4, que es el mismo en todas las
+   * rondas y en todas las llamadas. Con `legacyPBlock`, P es
+   * [1]^1 || [2]^1 || [1]^1 || [radix]^2 || [10]^1 || [u mod 256]^1 || [n]^4 || [t]^4 || [0]^1.
+   */
+  private _setup(n: number, tLen: number): FF1Setup {
+    const cacheKey = `${n}:${tLen}`
+    const cached = this.setupCache.get(cacheKey)
+    if (cached !== undefined) {
+      return cached
     }
 
-    const tLen = tweak.length
     const u = Math.floor(n / 2)
     const v = n - u
     const b = Math.ceil((v * Math.log2(this.radix)) / 8) || 1
     const d = 4 * Math.ceil(b / 4) + 4
+    const P = this.legacyPBlock
+      ? Uint8Array.of(
+        1, 2, 1,
+        (this.radix >> 8) & 0xff, this.radix & 0xff,
+        10,
+        u & 0xff,
+        (n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff,
+        (tLen >>> 24) & 0xff, (tLen >> 16) & 0xff, (tLen >> 8) & 0xff, tLen & 0xff,
+        0,
+      )
+      : Uint8Array.of(
+        1, 2, 1,
+        (this.radix >> 16) & 0xff, (this.radix >> 8) & 0xff, this.radix & 0xff,
+        10,
+        u & 0xff,
+        (n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff,
+        (tLen >>> 24) & 0xff, (tLen >> 16) & 0xff, (tLen >> 8) & 0xff, tLen & 0xff,
+      )
+    const setup: FF1Setup = {
+      u,
+      v,
+      b,
+      d,
+      qLength: tLen + ((-tLen - b - 1) & 15) + 1 + b,
+      prefix: this.aes.encrypt(P),
+      weightsU: this._reductionWeights(u, d),
+      weightsV: this._reductionWeights(v, d),
+    }
 
-    // Paso 5: Construir P.
-    const P = new Uint8Array(16)
-    P[0] = 1
-    P[1] = 2
-    P[2] = 1
-    P[3] = (this.radix >> 8) & 0xff // [radix]^2 en big-endian
-    P[4] = this.radix & 0xff
-    P[5] = 10
-    P[6] = u & 0xff
-    P[7] = (n >> 24) & 0xff // [n]^4 en big-endian
-    P[8] = (n >> 16) & 0xff
-    P[9] = (n >> 8) & 0xff
-    P[10] = n & 0xff
-    P[11] = (tLen >> 24) & 0xff // [tLen]^4 en big-endian
-    P[12] = (tLen >> 16) & 0xff
-    P[13] = (tLen >> 8) & 0xff
-    P[14] = tLen & 0xff
-
-    let A = this._stringToNumerals(text.substring(0, u))
-    let B = this._stringToNumerals(text.substring(u))
-
-    const radix_u = BigInt(this.radix) ** BigInt(u)
-    const radix_v = BigInt(this.radix) ** BigInt(v)
+    if (this.setupCache.size >= SETUP_CACHE_SIZE) {
+      this._clearSetupCache()
+    }
+    this.setupCache.set(cacheKey, setup)
+    return setup
+  }
 
-    const numRounds = 10
-    for (let i = 0; i < numRounds; i++) {
-      const round = isEncrypt ? i : numRounds - 1 - i
-      const m = round % 2 === 0 ? u : v
-      const radix_m = round % 2 === 0 ? radix_u : radix_v
-      const prfInputBlock = isEncrypt ? B : A
+  // w[j] = 256^(d-1-j) mod radix^m, de modo que NUM(S) mod radix^m = (Σ S[j]·w[j]) mod radix^m con una sola reducción.
+  private _reductionWeights(m: number, d: number): Float64Array | null {
+    const modulus = this.radix ** m
+    if (modulus > MAX_WEIGHTED_MODULUS) {
+      return null
+    }
+    const weights = new Float64Array(d)
+    let weight = 1 % modulus
+    for (let j = d - 1; j >= 0; j--) {
+      weights[j] = weight
+      weight = (weight * 256) % modulus
+    }
+    return weights
+  }
 
-      const qPadLen = (-tLen - b - 1) & 15
-      const Q = new Uint8Array(tLen + qPadLen + 1 + b)
-      Q.set(tweak)
-      Q[tLen + qPadLen] = round
-      const numPrfInput = this._numeralsToBigInt(prfInputBlock)
-      Q.set(this._bigIntToBytes(numPrfInput, b), tLen + qPadLen + 1)
+  private _clearSetupCache(): void {
+    for (const setup of this.setupCache.values()) {
+      setup.prefix.fill(0)
+    }
+    this.setupCache.clear()
+  }
 
-      const R = this._prf(Uint8Array.of(...P, ...Q))
+  /**
+   * Con Q = T || [0]^((-t-b-1) mod 16) || [i]^1 || [NUM_radix(X)]^b ya escrito en `this.Q` salvo el número de ronda,
+   * calcula R = PRF(P || Q) partiendo del estado tras P y escribe en `this.S` los d primeros bytes de
+   * S = R || CIPH(R ⊕ [1]^16) || CIPH(R ⊕ [2]^16) || ...
+   */
+  private _roundOutput(setup: FF1Setup, round: number): void {
+    const { Q, R, S, block } = this
+    Q[setup.qLength - setup.b - 1] = round
+    R.set(setup.prefix)
+    for (let offset = 0; offset < setup.qLength; offset += 16) {
+      for (let j = 0; j < 16; j++) {
+        R[j] ^= Q[offset + j]
+      }
+      this.aes.encryptBlockInto(R, 0, R, 0)
+    }
 
-      const S = new Uint8Array(d)
-      S.set(R.subarray(0, Math.min(16, d))) // Copia segura
+    S.set(R)
+    for (let j = 1; j * 16 < setup.d; j++) {
+      block.set(R)
+      block[12] ^= (j >>> 24) & 0xff
+      block[13] ^= (j >> 16) & 0xff
+      block[14] ^= (j >> 8) & 0xff
+      block[15] ^= j & 0xff
+      this.aes.encryptBlockInto(block, 0, S, j * 16)
+    }
+  }
 
-      const numSBlocks = Math.ceil(d / 16)
-      if (numSBlocks > 1) {
-        let bytesWritten = 16
-        const tempBlock = new Uint8Array(16)
-        for (let j = 1; j < numSBlocks; j++) {
-          if (bytesWritten >= d) break
+  private _ff1(text: string, tweak: Uint8Array, isEncrypt: boolean): string {
+    // Los símbolos son puntos de código (o grafemas), no unidades UTF-16: "😀" cuenta como un carácter
+    const symbols = splitSymbols(text, this.fpeOptions)
+    const n = symbols.length
+    if (n < this.minLen || n > this.maxLen) {
+      throw new InvalidLengthError(`La longitud del texto (${n}) debe estar entre ${this.minLen} y ${this.maxLen}.`, { mode: this.name, parameter: "text", expected: { min: this.minLen, max: this.maxLen }, actual: n })
+    }
+    const numerals = this._symbolsToNumerals(symbols)
+    const setup = this._setup(n, tweak.length)
 
-          tempBlock.set(R) // Empezar con R
+    // Los búferes de la instancia solo crecen; Q se rellena con T y ceros en cada llamada
+    if (this.Q.length < setup.qLength) {
+      this.Q = new Uint8Array(setup.qLength)
+    }
+    if (this.S.length < setup.d) {
+      this.S = new Uint8Array(16 * Math.ceil(setup.d / 16))
+    }
+    this.Q.fill(0, 0, setup.qLength)
+    this.Q.set(tweak)
 
-          // XOR con [j]^16 sin DataView. [j]^16 son 12 ceros y 4 bytes de j.
-          // Solo necesitamos hacer XOR en los últimos 4 bytes del bloque temporal.
-          tempBlock[12] ^= (j >> 24) & 0xff
-          tempBlock[13] ^= (j >> 16) & 0xff
-          tempBlock[14] ^= (j >> 8) & 0xff
-          tempBlock[15] ^= j & 0xff
+    if (this.radix ** setup.v <= MAX_FAST_MODULUS) {
+      this._feistelNumber(numerals, setup, isEncrypt)
+    } else {
+      this._feistelBigInt(numerals, setup, isEncrypt)
+    }
+    return this._numeralsToString(numerals)
+  }
 
-          const encryptedBlock = this.aes.encrypt(tempBlock)
+  /**
+   * Rondas Feistel con las mitades como números de doble precisión, válidas cuando radix^v ≤ 2^52.
+   * Cubre los casos habituales (p. ej. hasta 30 dígitos decimales) sin crear ningún BigInt.
+   */
+  private _feistelNumber(numerals: number[], setup: FF1Setup, isEncrypt: boolean): void {
+    const { u, v, d, weightsU, weightsV } = setup
+    const { Q, S } = this
+    const radix_u = this.radix ** u
+    const radix_v = this.radix ** v
+    const numOffset = setup.qLength - setup.b
+    let A = this._numeralsToNumber(numerals, 0, u)
+    let B = this._numeralsToNumber(numerals, u, u + v)
+
+    for (let i = 0; i < FF1_ROUNDS; i++) {
+      const round = isEncrypt ? i : FF1_ROUNDS - 1 - i
+      const even = round % 2 === 0
+      const radix_m = even ? radix_u : radix_v
+      const weights = even ? weightsU : weightsV
+
+      // [NUM_radix(B)]^b (o de A al descifrar) en big-endian
+      let x = isEncrypt ? B : A
+      for (let j = setup.qLength - 1; j >= numOffset; j--) {
+        Q[j] = x % 256
+        x = Math.floor(x / 256)
+      }
+      this._roundOutput(setup, round)
 
-          const bytesToCopy = Math.min(16, d - bytesWritten)
-          S.set(encryptedBlock.subarray(0, bytesToCopy), bytesWritten)
-          bytesWritten += bytesToCopy
+      // y = NUM(S) mod radix^m sin que los valores intermedios pasen de 2^53
+      let y = 0
+      if (weights !== null) {
+        for (let j = 0; j < d; j++) {
+          y += S[j] * weights[j]
+        }
+        y %= radix_m
+      } else {
+        for (let j = 0; j < d; j++) {
+          for (let bit = 7; bit >= 0; bit--) {
+            y = y * 2 + ((S[j] >> bit) & 1)
+            if (y >= radix_m) y -= radix_m
+          }
         }
       }
 
-      const y = this._bytesToBigInt(S)
-
-      let c_num: bigint
       if (isEncrypt) {
-        const numA = this._numeralsToBigInt(A)
-        c_num = (numA + y) % radix_m
+        const c = (A + y) % radix_m
+        A = B
+        B = c
       } else {
-        const numB = this._numeralsToBigInt(B)
-        c_num = (numB - y) % radix_m
-        if (c_num < 0) {
-          c_num += radix_m
-        }
+        let c = B - y
+        if (c < 0) c += radix_m
+        B = A
+        A = c
+      }
+    }
+
+    this._numberToNumerals(A, numerals, 0, u)
+    this._numberToNumerals(B, numerals, u, v)
+  }
+
+  /**
+   * Rondas Feistel con las mitades como BigInt, para textos largos. Las mitades se mantienen como BigInt entre rondas
+   * y se convierten a bytes y desde bytes a través de hexadecimal, que V8 resuelve de forma nativa.
+   */
+  private _feistelBigInt(numerals: number[], setup: FF1Setup, isEncrypt: boolean): void {
+    const { u, v, b, d } = setup
+    const { Q, S } = this
+    const radix_u = BigInt(this.radix) ** BigInt(u)
+    const radix_v = BigInt(this.radix) ** BigInt(v)
+    const numOffset = setup.qLength - b
+    let A = this._numeralsToBigInt(numerals, 0, u)
+    let B = this._numeralsToBigInt(numerals, u, u + v)
+
+    for (let i = 0; i < FF1_ROUNDS; i++) {
+      const round = isEncrypt ? i : FF1_ROUNDS - 1 - i
+      const radix_m = round % 2 === 0 ? radix_u : radix_v
+
+      const hex = (isEncrypt ? B : A).toString(16).padStart(2 * b, "0")
+      for (let j = 0; j < b; j++) {
+        Q[numOffset + j] = parseInt(hex.substring(2 * j, 2 * j + 2), 16)
       }
+      this._roundOutput(setup, round)
 
-      const C = this._bigIntToNumerals(c_num, m)
+      let sHex = "0x"
+      for (let j = 0; j < d; j++) {
+        sHex += HEX_BYTES[S[j]]
+      }
+      const y = BigInt(sHex)
 
       if (isEncrypt) {
+        const c = (A + y) % radix_m
         A = B
-        B = C
+        B = c
       } else {
+        let c = (B - y) % radix_m
+        if (c < 0n) c += radix_m
         B = A
-        A = C
+        A = c
       }
     }
 
-    return this._numeralsToString(A.concat(B))
+    this._bigIntToNumerals(A, numerals, 0, u)
+    this._bigIntToNumerals(B, numerals, u, v)
   }
 
   public encrypt(plaintext: string, tweak: Uint8Array = new Uint8Array(0)): string {
+    assertNotDisposed(this.disposed, this.name)
     return this._ff1(plaintext, tweak, true)
   }
 
   public decrypt(ciphertext: string, tweak: Uint8Array = new Uint8Array(0)): string {
+    assertNotDisposed(this.disposed, this.name)
     return this._ff1(ciphertext, tweak, false)
   }
+
+  /**
+   * Destruye el núcleo AES interno, borrando la clave, sus claves de ronda, los estados de P precalculados y los búferes.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  public dispose(): void {
+    this.disposed = true
+    this._clearSetupCache()
+    wipe(this.Q, this.S, this.R, this.block)
+    this.aes.dispose()
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
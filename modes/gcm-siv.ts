@@ -1,5 +1,23 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidKeyLengthError, InvalidNonceError, toDecryptResult } from "../errors"
+import { ExpandedKey } from "../key-schedule"
 import { Counter, ModeOfOperationCTR } from "./ctr"
+import { GF128Hash, GF128TableBits, lengthBlock } from "./utils/gf128"
+
+// Número de bloques de keystream que se generan por cada llamada a `encryptBlocks`.
+const GCM_SIV_BATCH_BLOCKS = 64
+
+/**
+ * Opciones del modo GCM-SIV. Además de las de {@link AESOptions}:
+ * - `legacyFormat`: usa el formato de versiones anteriores de esta biblioteca, que calculaba el hash con la
+ *   multiplicación de GHASH en lugar de POLYVAL e incrementaba el contador como un entero big-endian de 128 bits en
+ *   lugar de los 32 bits little-endian de RFC 8452. Esos datos no interoperan con ninguna otra implementación de
+ *   GCM-SIV; solo debe activarse para descifrar datos antiguos y volver a cifrarlos sin esta opción.
+ */
+export interface GCMSIVOptions extends AESOptions {
+  legacyFormat?: boolean
+}
 
 /**
  * Implementación del modo de operación AES-GCM-SIV (Galois/Counter Mode with Synthetic Initialization Vector).
@@ -21,6 +39,10 @@ import { Counter, ModeOfOperationCTR } from "./ctr"
  * 4. Se combina el POLYVAL con el IV sintético para formar el tag.
  * 5. Se usa el tag como nonce para el modo CTR para cifrar los datos.
  *
+ * Sigue RFC 8452 y se comprueba contra sus vectores de prueba. Las versiones anteriores de esta biblioteca no lo
+ * hacían: para descifrar los datos que cifraron, use la opción `legacyFormat` (o `AesMode.GCM_SIV_LEGACY` en
+ * `HighLevelAES`).
+ *
  * @example
  * ```typescript
  * const key = new Uint8Array(32); // Clave de 256 bits
@@ -39,17 +61,32 @@ export class ModeOfOperationGCM_SIV {
   public readonly description = "Galois/Counter Mode SIV (Nonce-Misuse Resistant)"
   public readonly name = "gcm-siv"
 
-  private readonly masterKey: Uint8Array
+  // Núcleo de la clave maestra, usado solo para derivar las subclaves de cada mensaje.
+  private readonly aes: AESCore
+  // Las subclaves de cada mensaje se usan una sola vez: se expanden sin pasar por `keyCache`.
+  private readonly messageKeyOptions: AESOptions
+  private readonly legacyFormat: boolean
+  // Las tablas de POLYVAL se construyen para cada mensaje, porque la clave de autenticación depende del nonce;
+  // con el núcleo de tiempo constante no se usan tablas.
+  private readonly tableBits: GF128TableBits
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación GCM-SIV con una clave maestra.
-   * @param key La clave maestra, que debe ser de 16 bytes (AES-128) o 32 bytes (AES-256).
+   * @param key La clave maestra, que debe ser de 16 bytes (AES-128) o 32 bytes (AES-256), o su expansión.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ legacyFormat: true }` para descifrar datos de versiones anteriores).
    */
-  constructor(key: Uint8Array) {
-    if (key.length !== 16 && key.length !== 32) {
-      throw new Error("Tamaño de clave inválido para GCM-SIV (debe ser 16 o 32 bytes)")
+  constructor(key: Uint8Array | ExpandedKey, options: GCMSIVOptions = {}) {
+    const keyLength = key instanceof ExpandedKey ? key.keyLength : key.length
+    if (keyLength !== 16 && keyLength !== 32) {
+      throw new InvalidKeyLengthError("Tamaño de clave inválido para GCM-SIV (debe ser 16 o 32 bytes)", { mode: this.name, expected: [16, 32], actual: keyLength })
     }
-    this.masterKey = key
+    this.aes = createAES(key, options)
+    this.messageKeyOptions = { ...options, keyCache: undefined }
+    this.legacyFormat = options.legacyFormat === true
+    this.tableBits = options.core === "constant-time" ? 0 : 8
   }
 
   /**
@@ -58,8 +95,7 @@ export class ModeOfOperationGCM_SIV {
    * @private
    */
   private deriveKeys(nonce: Uint8Array): { authKey: Uint8Array; encKey: Uint8Array } {
-    const aes = new AES(this.masterKey)
-    const keyLen = this.masterKey.length
+    const keyLen = this.aes.expandedKey.keyLength
     const block = new Uint8Array(16)
     block.set(nonce, 4)
 
@@ -73,8 +109,9 @@ export class ModeOfOperationGCM_SIV {
       block[2] = (i >> 16) & 0xff
       block[3] = (i >> 24) & 0xff
 
-      const encryptedBlock = aes.encrypt(block)
+      const encryptedBlock = this.aes.encrypt(block)
       keyMaterial.set(encryptedBlock.subarray(0, 8), i * 8)
+      encryptedBlock.fill(0)
     }
 
     const authKey = keyMaterial.subarray(0, 16)
@@ -84,77 +121,61 @@ export class ModeOfOperationGCM_SIV {
   }
 
   /**
-   * Multiplicación en el cuerpo de Galois GF(2^128) para POLYVAL.
-   * El polinomio irreducible es x^128 + x^127 + x^126 + x^121 + 1.
+   * Calcula el hash POLYVAL sobre los datos asociados y el texto plano, cada uno rellenado con ceros hasta un múltiplo
+   * de 16 bytes, y el bloque de longitudes en little-endian.
    * @private
    */
-  private polyvalMultiply(x: Uint8Array, y: Uint8Array): Uint8Array<ArrayBuffer> {
-    const z = new Uint8Array(16)
-    let v = new Uint8Array(y)
-
-    for (let i = 0; i < 128; i++) {
-      const xByteIndex = Math.floor(i / 8)
-      const xBitIndex = 7 - (i % 8)
-
-      if ((x[xByteIndex] >> xBitIndex) & 1) {
-        for (let j = 0; j < 16; j++) {
-          z[j] ^= v[j]
-        }
-      }
-
-      const lsbSet = (v[15] & 1) !== 0
-      for (let j = 15; j > 0; j--) {
-        v[j] = (v[j] >> 1) | ((v[j - 1] & 1) << 7)
-      }
-      v[0] >>= 1
-
-      if (lsbSet) {
-        v[0] ^= 0b11100001 // Polinomio de reducción para POLYVAL (0xE1)
-      }
-    }
-    return z
+  private polyval(authKey: Uint8Array, associatedData: Uint8Array, plaintext: Uint8Array): Uint8Array {
+    // El formato heredado multiplicaba con el orden de bits de GHASH.
+    const hash = new GF128Hash(authKey, this.legacyFormat ? "ghash" : "polyval", this.tableBits)
+    hash.update(associatedData)
+    hash.flush()
+    hash.update(plaintext)
+    const result = hash.digest(lengthBlock(associatedData.length, plaintext.length, true))
+    hash.clear()
+    return result
   }
 
   /**
-   * Calcula el hash POLYVAL para los datos.
+   * Cifra (o descifra) en modo CTR a partir de la etiqueta con el bit más significativo a 1. RFC 8452 incrementa solo
+   * los primeros 32 bits del bloque, como entero little-endian y módulo 2^32.
    * @private
    */
-  private polyval(authKey: Uint8Array, associatedData: Uint8Array, plaintext: Uint8Array): Uint8Array {
-    let s = new Uint8Array(16)
-    const aadPadded = this.padToBlockSize(associatedData)
-    const plaintextPadded = this.padToBlockSize(plaintext)
-
-    const blocks = [aadPadded, plaintextPadded, this.createLengthBlock(associatedData.length, plaintext.length)]
-
-    for (const data of blocks) {
-      for (let i = 0; i < data.length; i += 16) {
-        const block = data.subarray(i, i + 16)
-        for (let j = 0; j < 16; j++) {
-          s[j] ^= block[j]
-        }
-        s = this.polyvalMultiply(s, authKey)
-      }
-    }
-
-    return s
-  }
+  private ctr(aesEnc: AESCore, tag: Uint8Array, input: Uint8Array): Uint8Array {
+    const initialCounter = new Uint8Array(tag)
+    initialCounter[15] |= 0x80 // Poner a 1 el bit más significativo
 
-  private padToBlockSize(data: Uint8Array): Uint8Array {
-    const len = data.length
-    const remainder = len % 16
-    if (remainder === 0) return data
+    if (this.legacyFormat) {
+      const ctr = new ModeOfOperationCTR(aesEnc.expandedKey, new Counter(initialCounter), this.messageKeyOptions)
+      const output = ctr.encrypt(input)
+      ctr.dispose()
+      return output
+    }
 
-    const padded = new Uint8Array(len + (16 - remainder))
-    padded.set(data)
-    return padded
-  }
+    const output = new Uint8Array(input)
+    const batch = new Uint8Array(Math.min(GCM_SIV_BATCH_BLOCKS, Math.ceil(input.length / 16)) * 16)
+    let counter = (initialCounter[0] | (initialCounter[1] << 8) | (initialCounter[2] << 16) | (initialCounter[3] << 24)) >>> 0
+
+    for (let i = 0; i < output.length; i += batch.length) {
+      const byteCount = Math.min(batch.length, output.length - i)
+      const blockCount = Math.ceil(byteCount / 16)
+      for (let b = 0; b < blockCount; b++) {
+        const offset = b * 16
+        batch.set(initialCounter, offset)
+        batch[offset] = counter & 0xff
+        batch[offset + 1] = (counter >>> 8) & 0xff
+        batch[offset + 2] = (counter >>> 16) & 0xff
+        batch[offset + 3] = counter >>> 24
+        counter = (counter + 1) >>> 0
+      }
+      aesEnc.encryptBlocks(batch, batch, blockCount)
+      for (let j = 0; j < byteCount; j++) {
+        output[i + j] ^= batch[j]
+      }
+    }
 
-  private createLengthBlock(aadLen: number, plaintextLen: number): Uint8Array {
-    const lenBlock = new Uint8Array(16)
-    const view = new DataView(lenBlock.buffer)
-    view.setBigUint64(0, BigInt(aadLen * 8), true) // little-endian
-    view.setBigUint64(8, BigInt(plaintextLen * 8), true) // little-endian
-    return lenBlock
+    wipe(batch)
+    return output
   }
 
   /**
@@ -165,13 +186,14 @@ export class ModeOfOperationGCM_SIV {
    * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag`.
    */
   encrypt(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
     if (nonce.length !== 12) {
-      throw new Error("Tamaño de nonce inválido para GCM-SIV (debe ser 12 bytes)")
+      throw new InvalidNonceError("Tamaño de nonce inválido para GCM-SIV (debe ser 12 bytes)", { mode: this.name, parameter: "nonce", expected: [12], actual: nonce.length })
     }
 
     // 1. Derivación de claves
     const { authKey, encKey } = this.deriveKeys(nonce)
-    const aesEnc = new AES(encKey)
+    const aesEnc = createAES(encKey, this.messageKeyOptions)
 
     // 2. Cálculo de la etiqueta (Tag)
     const polyvalResult = this.polyval(authKey, associatedData, plaintext)
@@ -191,12 +213,11 @@ export class ModeOfOperationGCM_SIV {
     const tag = aesEnc.encrypt(tagMaterial)
 
     // 3. Cifrado del texto plano con CTR
-    const initialCounter = new Uint8Array(tag)
-    initialCounter[15] |= 0x80 // Poner a 1 el bit más significativo
+    const ciphertext = this.ctr(aesEnc, tag, plaintext)
 
-    const counter = new Counter(initialCounter)
-    const ctr = new ModeOfOperationCTR(encKey, counter)
-    const ciphertext = ctr.encrypt(plaintext)
+    // Las subclaves son propias de este mensaje: se borran en cuanto dejan de usarse.
+    aesEnc.dispose()
+    wipe(authKey, encKey)
 
     return { ciphertext, tag }
   }
@@ -210,8 +231,9 @@ export class ModeOfOperationGCM_SIV {
    * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
    */
   decrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     if (nonce.length !== 12) {
-      throw new Error("Tamaño de nonce inválido para GCM-SIV (debe ser 12 bytes)")
+      throw new InvalidNonceError("Tamaño de nonce inválido para GCM-SIV (debe ser 12 bytes)", { mode: this.name, parameter: "nonce", expected: [12], actual: nonce.length })
     }
     if (tag.length !== 16) {
       return null // Etiqueta inválida
@@ -219,14 +241,10 @@ export class ModeOfOperationGCM_SIV {
 
     // 1. Derivación de claves
     const { authKey, encKey } = this.deriveKeys(nonce)
+    const aesEnc = createAES(encKey, this.messageKeyOptions)
 
     // 2. Descifrado del texto cifrado con CTR
-    const initialCounter = new Uint8Array(tag)
-    initialCounter[15] |= 0x80 // Poner a 1 el bit más significativo
-
-    const counter = new Counter(initialCounter)
-    const ctr = new ModeOfOperationCTR(encKey, counter)
-    const plaintext = ctr.decrypt(ciphertext)
+    const plaintext = this.ctr(aesEnc, tag, ciphertext)
 
     // 3. Recalcular la etiqueta esperada y verificar
     const polyvalResult = this.polyval(authKey, associatedData, plaintext)
@@ -243,9 +261,11 @@ export class ModeOfOperationGCM_SIV {
 
     tagMaterial[15] &= 0x7f // Poner a 0 el bit más significativo
 
-    const aesEnc = new AES(encKey)
     const expectedTag = aesEnc.encrypt(tagMaterial)
 
+    aesEnc.dispose()
+    wipe(authKey, encKey)
+
     // Comparación en tiempo constante para evitar ataques de temporización
     let tagsMatch = 0
     for (let i = 0; i < 16; i++) {
@@ -258,4 +278,25 @@ export class ModeOfOperationGCM_SIV {
 
     return plaintext
   }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en GCM-SIV", () => this.decrypt(ciphertext, tag, nonce, associatedData))
+  }
+
+  /**
+   * Destruye el núcleo de la clave maestra. Las subclaves derivadas por mensaje se borran al terminar cada operación.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
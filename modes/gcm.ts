@@ -1,5 +1,104 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCipher, NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidLengthError, InvalidNonceError, InvalidParameterError, toDecryptResult, UnsupportedOperationError } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
 import { Counter, ModeOfOperationCTR } from "./ctr"
+import { GF128Hash, GF128TableBits, lengthBlock } from "./utils/gf128"
+
+// Longitud máxima del texto plano de un mensaje GCM: 2^39 − 256 bits (NIST SP 800-38D, sección 5.2.1.1).
+const GCM_MAX_DATA_LENGTH = 2 ** 36 - 32
+
+// Nonces más recientes que recuerda cada instancia para detectar su reutilización (unos 50 MB con nonces de 12 bytes).
+const GCM_MAX_TRACKED_NONCES = 2 ** 20
+// Bytes del nonce que se convierten a la vez en unidades de código del identificador (ver `claimNonce`).
+const NONCE_ID_CHUNK = 4096
+
+// Longitudes de etiqueta admitidas por NIST SP 800-38D, en bytes (128, 120, 112, 104, 96, 64 y 32 bits).
+const GCM_TAG_LENGTHS = [16, 15, 14, 13, 12, 8, 4]
+
+/**
+ * Opciones del modo GCM. Además de las de {@link AESOptions}:
+ * - `tagLength`: longitud de la etiqueta en bytes: 16 (por defecto), 15, 14, 13 o 12, u 8 y 4 para protocolos con
+ *   restricciones. La etiqueta truncada son los primeros bytes de la completa. Con 8 y 4 bytes, SP 800-38D (apéndice C)
+ *   limita además la longitud de los mensajes y el número de descifrados con la misma clave.
+ * - `ghashTableBits`: tamaño de las tablas de GHASH precalculadas por clave, 8 (por defecto) o 4 bits, o 0 para
+ *   multiplicar sin tablas. Con `core: "constant-time"` el valor por defecto es 0. Consulte {@link GHashTableBits}.
+ * - `legacyFormat`: usa el formato de versiones anteriores de esta biblioteca, que escribía cada longitud del
+ *   bloque final de GHASH como un entero de 32 bits repetido en las dos mitades de su campo de 64 bits, en lugar
+ *   de la longitud de 64 bits de SP 800-38D. Afecta a todas las etiquetas y, con nonces que no son de 12 bytes,
+ *   también al contador inicial. Esos datos no interoperan con ninguna otra implementación de GCM; solo debe
+ *   activarse para descifrar datos antiguos y volver a cifrarlos sin esta opción.
+ */
+export interface GCMOptions extends AESOptions {
+  tagLength?: number
+  ghashTableBits?: GHashTableBits
+  legacyFormat?: boolean
+}
+
+/**
+ * Valida la longitud de etiqueta pedida en las opciones y la devuelve (16 si no se indica).
+ */
+function resolveTagLength(options: GCMOptions, mode: string): number {
+  const tagLength = options.tagLength ?? 16
+  if (!GCM_TAG_LENGTHS.includes(tagLength)) {
+    throw new InvalidParameterError(`Longitud de etiqueta GCM inválida: ${tagLength} (debe ser 16, 15, 14, 13, 12, 8 o 4 bytes)`, { mode, parameter: "tagLength" })
+  }
+  return tagLength
+}
+
+/**
+ * Tamaño en bits de los trozos de las tablas de GHASH precalculadas por clave, 8 o 4, o 0 para multiplicar sin tablas
+ * (ver {@link GF128TableBits}).
+ */
+export type GHashTableBits = GF128TableBits
+
+/**
+ * Valida el tamaño de tabla de GHASH pedido en las opciones y lo devuelve (8 si no se indica, o 0, sin tablas, con el
+ * núcleo de tiempo constante).
+ */
+function resolveGHashTableBits(options: GCMOptions, mode: string): GHashTableBits {
+  const bits = options.ghashTableBits ?? (options.core === "constant-time" ? 0 : 8)
+  if (bits !== 0 && bits !== 4 && bits !== 8) {
+    throw new InvalidParameterError(`Tamaño de tabla GHASH inválido: ${bits} (debe ser 0, 4 u 8 bits)`, { mode, parameter: "ghashTableBits" })
+  }
+  return bits
+}
+
+/**
+ * Bloque de longitudes que cierra GHASH: el de SP 800-38D o, con `legacyFormat`, el de versiones anteriores.
+ */
+function ghashLengthBlock(aadLength: number, ciphertextLength: number, legacyFormat: boolean): Uint8Array {
+  if (!legacyFormat) {
+    return lengthBlock(aadLength, ciphertextLength)
+  }
+  // Formato heredado: los desplazamientos >> de 32 bits o más dan la vuelta en JavaScript, así que
+  // cada longitud queda escrita como un entero de 32 bits repetido en las dos mitades de su campo.
+  const block = new Uint8Array(16)
+  const view = new DataView(block.buffer)
+  view.setUint32(0, (aadLength * 8) >>> 0)
+  view.setUint32(4, (aadLength * 8) >>> 0)
+  view.setUint32(8, (ciphertextLength * 8) >>> 0)
+  view.setUint32(12, (ciphertextLength * 8) >>> 0)
+  return block
+}
+
+/**
+ * Calcula el bloque pre-contador J0 a partir del IV: `IV || 0^31 || 1` para IVs de 12 bytes y GHASH del IV en otro caso.
+ */
+function deriveJ0(ghash: GF128Hash, iv: Uint8Array, legacyFormat: boolean): Uint8Array {
+  if (iv.length === 12) {
+    // Caso especial y recomendado para un nonce de 96 bits (12 bytes)
+    const J0 = new Uint8Array(16)
+    J0.set(iv)
+    J0[15] = 1
+    return J0
+  }
+  // Caso para nonces de otra longitud, se hashean con GHASH
+  ghash.reset()
+  ghash.update(iv)
+  return ghash.digest(ghashLengthBlock(0, iv.length, legacyFormat))
+}
 
 /**
  * Implementación del modo de operación AES-GCM (Galois/Counter Mode).
@@ -20,6 +119,13 @@ import { Counter, ModeOfOperationCTR } from "./ctr"
  * 2. Se calcula GHASH (función hash basada en multiplicación de Galois) sobre los datos asociados y el texto cifrado.
  * 3. Se combina el resultado de GHASH con el cifrado del bloque J0 para formar la etiqueta.
  *
+ * La clave y la clave de hash H se fijan en el constructor; cada mensaje lleva su propio nonce, de modo que basta
+ * una instancia por clave. La instancia recuerda los nonces con los que ha cifrado y lanza `InvalidNonceError` si
+ * uno se repite, porque repetir un nonce con la misma clave revela el XOR de los textos planos y permite falsificar
+ * etiquetas. Esa memoria solo cubre esta instancia, no otras con la misma clave, y se limita a los últimos 2^20
+ * nonces (unos 50 MB con nonces de 12 bytes): al llegar a ese número se olvidan los más antiguos, así que la
+ * instancia nunca deja de cifrar, pero un nonce que se repita más allá de esa ventana ya no se detecta.
+ *
  * Consideraciones de seguridad:
  * - **Nonce único**: El nonce debe ser único para cada cifrado con la misma clave.
  * - **Nonce predecible**: Con nonces predecibles, GCM es vulnerable a ataques.
@@ -29,16 +135,20 @@ import { Counter, ModeOfOperationCTR } from "./ctr"
  * GCM es ampliamente utilizado en protocolos como TLS, IPsec y IEEE 802.11ad.
  * Es un estándar NIST y una opción popular para cifrado autenticado.
  *
+ * Las versiones anteriores de esta biblioteca codificaban mal las longitudes del bloque final de GHASH, así que
+ * sus etiquetas no coinciden con las de SP 800-38D: para descifrar los datos que cifraron, use la opción
+ * `legacyFormat` (o `AesMode.GCM_LEGACY` en `HighLevelAES`).
+ *
  * @example
  * ```typescript
  * const key = new Uint8Array(16); // Clave de 128 bits
- * const nonce = new Uint8Array(12); // Nonce de 96 bits (recomendado)
- * const gcm = new ModeOfOperationGCM(key, nonce);
+ * const gcm = new ModeOfOperationGCM(key);
  * const plaintext = new TextEncoder().encode("Mensaje secreto");
  * const aad = new TextEncoder().encode("Datos asociados");
- * 
- * const { ciphertext, tag } = gcm.encrypt(plaintext, aad);
- * const decrypted = gcm.decrypt(ciphertext, tag, aad);
+ *
+ * const nonce = crypto.getRandomValues(new Uint8Array(12)); // Nonce de 96 bits, nuevo en cada mensaje
+ * const { ciphertext, tag } = gcm.encrypt(nonce, plaintext, aad);
+ * const decrypted = gcm.decrypt(nonce, ciphertext, tag, aad);
  * ```
  *
  * @see [NIST SP 800-38D](https://nvlpubs.nist.gov/nistpubs/Legacy/SP/nistspecialpublication800-38d.pdf)
@@ -48,133 +158,275 @@ export class ModeOfOperationGCM {
   public readonly description = "Galois/Counter Mode"
   public readonly name = "gcm"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly key: Uint8Array
-  private readonly iv: Uint8Array
+  private readonly options: GCMOptions
+  private readonly tagLength: number
+  // IV fijado por el constructor obsoleto; null cuando cada mensaje trae su nonce.
+  private readonly iv: Uint8Array | null
+  private readonly legacyFormat: boolean
 
-  // Clave de autenticación H, precalculada en el constructor.
-  private readonly H: Uint8Array
-  // Bloque pre-contador J0, precalculado en el constructor.
-  private readonly J0: Uint8Array
+  // GHASH con las tablas de la clave de autenticación H, precalculadas en el constructor y reutilizadas en cada mensaje.
+  private readonly ghashState: GF128Hash
+  // Últimos nonces con los que se ha cifrado (un carácter por byte), en orden de uso, para detectar su reutilización.
+  // Como mucho `GCM_MAX_TRACKED_NONCES`.
+  private readonly usedNonces = new Set<string>()
 
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  // OpenSSL no admite nonces vacíos, que quedan siempre en el camino puro, igual que el formato heredado.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
+  /**
+   * Inicializa el modo de operación GCM con una clave. El nonce se pasa en cada mensaje.
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   `{ tagLength: 12 }` para etiquetas de 96 bits o `{ legacyFormat: true }` para descifrar datos de versiones anteriores).
+   * @throws InvalidParameterError si `tagLength` no es una longitud admitida.
+   */
+  constructor(key: Uint8Array | ExpandedKey, options?: GCMOptions)
   /**
-   * Inicializa el modo de operación GCM con una clave y un vector de inicialización.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * Inicializa el modo de operación GCM con una clave y un vector de inicialización fijo.
+   * @deprecated Con el IV fijo, la instancia solo puede cifrar un mensaje (el segundo lanza `InvalidNonceError`). Use
+   * `new ModeOfOperationGCM(key, options)` y pase el nonce a cada `encrypt(nonce, plaintext, aad)`.
+   * @param key La clave de cifrado, o su expansión (`ExpandedKey`).
    * @param iv El vector de inicialización (nonce). Se recomienda 12 bytes, pero se aceptan otras longitudes.
+   * @param options Opciones de construcción.
    */
-  constructor(key: Uint8Array, iv: Uint8Array) {
-    this.aes = new AES(key)
-    this.key = key
-    this.iv = iv
+  constructor(key: Uint8Array | ExpandedKey, iv: Uint8Array, options?: GCMOptions)
+  constructor(key: Uint8Array | ExpandedKey, ivOrOptions: Uint8Array | GCMOptions = {}, options: GCMOptions = {}) {
+    this.iv = ivOrOptions instanceof Uint8Array ? ivOrOptions : null
+    this.options = ivOrOptions instanceof Uint8Array ? options : ivOrOptions
+    this.tagLength = resolveTagLength(this.options, this.name)
+    this.aes = createAES(key, this.options)
+    this.key = copyKeyBytes(key)
+    this.legacyFormat = this.options.legacyFormat === true
 
-    // Precalcular la clave de hash H = CIPH_K(0^128)
-    this.H = this.aes.encrypt(new Uint8Array(16))
+    this.nativeAlgorithm = `aes-${this.key.length * 8}-gcm`
+    this.native = resolveNativeBackend(this.options, this.iv?.length === 0 || this.legacyFormat ? null : this.nativeAlgorithm)
 
-    // Precalcular el bloque pre-contador J0
-    if (this.iv.length === 12) {
-      // Caso especial y recomendado para un nonce de 96 bits (12 bytes)
-      this.J0 = new Uint8Array(16)
-      this.J0.set(this.iv)
-      this.J0[15] = 1
-    } else {
-      // Caso para nonces de otra longitud, se hashean con GHASH
-      this.J0 = this.ghash(new Uint8Array(0), this.iv)
-    }
+    // Precalcular la clave de hash H = CIPH_K(0^128) y sus tablas de GHASH
+    const H = this.aes.encrypt(new Uint8Array(16))
+    this.ghashState = new GF128Hash(H, "ghash", resolveGHashTableBits(this.options, this.name))
+    wipe(H)
   }
 
   /**
-   * Cifra y autentica los datos.
+   * Cifra y autentica un mensaje.
+   * @param nonce El nonce del mensaje. Se recomienda 12 bytes; no puede repetirse con esta instancia.
    * @param plaintext El texto plano a cifrar.
    * @param associatedData Datos adicionales que serán autenticados pero no cifrados.
-   * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag`.
+   * @returns Un objeto con el `ciphertext` y la etiqueta de autenticación `tag`, de `tagLength` bytes.
+   * @throws InvalidNonceError si el nonce está vacío o ya se ha usado para cifrar con esta instancia.
+   * @throws InvalidParameterError si el número de argumentos no corresponde a la forma del constructor.
+   * @throws InvalidLengthError si el texto plano supera el máximo de GCM (2^36 − 32 bytes).
    */
-  encrypt(plaintext: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; tag: Uint8Array } {
-    const counter = new Counter(this.J0)
+  encrypt(nonce: Uint8Array, plaintext: Uint8Array, associatedData?: Uint8Array): { ciphertext: Uint8Array; tag: Uint8Array }
+  /**
+   * Cifra y autentica un mensaje con el IV fijado en el constructor.
+   * @deprecated Solo para instancias creadas con `new ModeOfOperationGCM(key, iv)`; use `encrypt(nonce, plaintext, aad)`.
+   */
+  encrypt(plaintext: Uint8Array, associatedData?: Uint8Array): { ciphertext: Uint8Array; tag: Uint8Array }
+  encrypt(...args: Uint8Array[]): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
+    const [nonce, plaintext, associatedData = new Uint8Array(0)] = this.messageArguments(args, ["plaintext"], 1)
+    this.checkDataLength(plaintext.length, "plaintext")
+    this.claimNonce(nonce)
+
+    if (this.native) {
+      const cipher = this.native.createCipheriv(this.nativeAlgorithm, this.key, nonce, { authTagLength: this.tagLength })
+      cipher.setAAD(associatedData)
+      const ciphertext = runNativeCipher(cipher, plaintext)
+      return { ciphertext, tag: new Uint8Array(cipher.getAuthTag()) }
+    }
+
+    const J0 = deriveJ0(this.ghashState, nonce, this.legacyFormat)
+    const counter = new Counter(J0)
     counter.increment() // El contador para cifrado empieza en J0 + 1
 
-    const ctr = new ModeOfOperationCTR(this.key, counter)
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, counter, this.options)
     const ciphertext = ctr.encrypt(plaintext)
+    ctr.dispose()
 
     const ghashResult = this.ghash(associatedData, ciphertext)
-    const S = this.aes.encrypt(this.J0) // Cifrar J0
 
+    // tag = GHASH ^ CIPH_K(J0), cifrando J0 directamente sobre el buffer de la etiqueta
     const tag = new Uint8Array(16)
+    this.aes.encryptBlockInto(J0, 0, tag, 0)
     for (let i = 0; i < 16; i++) {
-      tag[i] = ghashResult[i] ^ S[i]
+      tag[i] ^= ghashResult[i]
     }
+    wipe(J0)
 
-    return { ciphertext, tag }
+    // Una etiqueta truncada son los primeros tagLength bytes (MSB_t en SP 800-38D)
+    return { ciphertext, tag: this.tagLength === 16 ? tag : tag.slice(0, this.tagLength) }
   }
 
   /**
-   * Descifra y verifica la autenticidad de los datos.
+   * Descifra y verifica la autenticidad de un mensaje.
+   * @param nonce El nonce usado al cifrar.
    * @param ciphertext El texto cifrado.
-   * @param tag La etiqueta de autenticación recibida.
+   * @param tag La etiqueta de autenticación recibida, de `tagLength` bytes.
    * @param associatedData Los mismos datos asociados usados en el cifrado.
-   * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
+   * @returns El texto plano si la autenticación es exitosa, o `null` si falla (también si la etiqueta no mide
+   * `tagLength` bytes).
+   * @throws InvalidLengthError si el texto cifrado supera el máximo de GCM (2^36 − 32 bytes).
    */
-  decrypt(ciphertext: Uint8Array, tag: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
-    if (tag.length !== 16) {
+  decrypt(nonce: Uint8Array, ciphertext: Uint8Array, tag: Uint8Array, associatedData?: Uint8Array): Uint8Array | null
+  /**
+   * Descifra y verifica un mensaje con el IV fijado en el constructor.
+   * @deprecated Solo para instancias creadas con `new ModeOfOperationGCM(key, iv)`; use `decrypt(nonce, ciphertext, tag, aad)`.
+   */
+  decrypt(ciphertext: Uint8Array, tag: Uint8Array, associatedData?: Uint8Array): Uint8Array | null
+  decrypt(...args: Uint8Array[]): Uint8Array | null {
+    return this.decryptMessage(args)
+  }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(nonce: Uint8Array, ciphertext: Uint8Array, tag: Uint8Array, associatedData?: Uint8Array): DecryptResult
+  /**
+   * @deprecated Solo para instancias creadas con `new ModeOfOperationGCM(key, iv)`; use `tryDecrypt(nonce, ciphertext, tag, aad)`.
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, associatedData?: Uint8Array): DecryptResult
+  tryDecrypt(...args: Uint8Array[]): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en GCM", () => this.decryptMessage(args))
+  }
+
+  // Cuerpo común de `decrypt()` y `tryDecrypt()`, con los argumentos de cualquiera de sus dos formas.
+  private decryptMessage(args: Uint8Array[]): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
+    const [nonce, ciphertext, tag, associatedData = new Uint8Array(0)] = this.messageArguments(args, ["ciphertext", "tag"], 1)
+    this.checkDataLength(ciphertext.length, "ciphertext")
+    if (tag.length !== this.tagLength) {
       return null // Etiqueta de longitud inválida
     }
 
+    if (this.native) {
+      const decipher = this.native.createDecipheriv(this.nativeAlgorithm, this.key, nonce, { authTagLength: this.tagLength })
+      decipher.setAAD(associatedData)
+      decipher.setAuthTag(tag)
+      try {
+        return runNativeCipher(decipher, ciphertext)
+      } catch {
+        return null // ¡Fallo de autenticación!
+      }
+    }
+
+    const J0 = deriveJ0(this.ghashState, nonce, this.legacyFormat)
     const ghashResult = this.ghash(associatedData, ciphertext)
-    const S = this.aes.encrypt(this.J0)
 
     const expectedTag = new Uint8Array(16)
+    this.aes.encryptBlockInto(J0, 0, expectedTag, 0)
     for (let i = 0; i < 16; i++) {
-      expectedTag[i] = ghashResult[i] ^ S[i]
+      expectedTag[i] ^= ghashResult[i]
     }
 
     // Comparación en tiempo constante para evitar ataques de temporización
     let tagsMatch = 0
-    for (let i = 0; i < 16; i++) {
+    for (let i = 0; i < this.tagLength; i++) {
       tagsMatch |= tag[i] ^ expectedTag[i]
     }
 
     if (tagsMatch !== 0) {
+      wipe(J0)
       return null // ¡Fallo de autenticación!
     }
 
-    const counter = new Counter(this.J0)
+    const counter = new Counter(J0)
     counter.increment() // El contador para descifrado también empieza en J0 + 1
+    wipe(J0)
 
-    const ctr = new ModeOfOperationCTR(this.key, counter)
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, counter, this.options)
     const plaintext = ctr.decrypt(ciphertext)
+    ctr.dispose()
 
     return plaintext
   }
 
   /**
-   * Multiplicación en el cuerpo de Galois GF(2^128).
+   * Crea un flujo de cifrado con la clave de esta instancia, para mensajes que no caben en memoria.
+   * Produce los mismos bytes que {@link encrypt}. Consulte {@link GCMStream}.
+   * @param nonce El nonce del mensaje, con las mismas reglas que en {@link encrypt}. Se omite solo en las instancias
+   * creadas con un IV fijo.
+   */
+  createEncryptStream(nonce?: Uint8Array): GCMStream {
+    assertNotDisposed(this.disposed, this.name)
+    const [messageNonce] = this.messageArguments(nonce ? [nonce] : [], [], 0)
+    this.claimNonce(messageNonce)
+    return new GCMStream(this.aes.expandedKey, messageNonce, "encrypt", this.options)
+  }
+
+  /**
+   * Crea un flujo de descifrado con la clave de esta instancia. A diferencia de {@link decrypt}, entrega el
+   * texto plano antes de verificar la etiqueta. Consulte {@link GCMStream}.
+   * @param nonce El nonce usado al cifrar. Se omite solo en las instancias creadas con un IV fijo.
+   */
+  createDecryptStream(nonce?: Uint8Array): GCMStream {
+    assertNotDisposed(this.disposed, this.name)
+    const [messageNonce] = this.messageArguments(nonce ? [nonce] : [], [], 0)
+    return new GCMStream(this.aes.expandedKey, messageNonce, "decrypt", this.options)
+  }
+
+  /**
+   * Separa el nonce del resto de argumentos de un mensaje y comprueba que no falte ninguno de los obligatorios.
+   * En las instancias creadas con un IV fijo, el nonce es ese IV y no forma parte de los argumentos, por lo que
+   * un nonce de más (p. ej. `encrypt(nonce, plaintext, aad)` con IV fijo) se rechaza en lugar de desplazar el resto.
+   * @param required Nombres de los argumentos obligatorios que siguen al nonce.
+   * @param optional Número de argumentos opcionales que pueden seguirlos.
    * @private
    */
-  private galoisMultiply(x: Uint8Array, y: Uint8Array): Uint8Array<ArrayBuffer> {
-    const R = 0xe1 // Polinomio de reducción
-    const z = new Uint8Array(16)
-    let v = new Uint8Array(y)
-
-    for (let i = 0; i < 128; i++) {
-      // Si el bit actual de x es 1, z ^= v
-      if ((x[Math.floor(i / 8)] >> (7 - (i % 8))) & 1) {
-        for (let j = 0; j < 16; j++) {
-          z[j] ^= v[j]
-        }
+  private messageArguments(args: Uint8Array[], required: string[], optional: number): Uint8Array[] {
+    const minimum = required.length + (this.iv ? 0 : 1)
+    if (args.length > minimum + optional) {
+      const form = this.iv ? "creada con un IV fijo, que no recibe el nonce" : "que recibe el nonce en cada mensaje"
+      throw new InvalidParameterError(`Demasiados argumentos (${args.length}, como máximo ${minimum + optional}) para una instancia GCM ${form}`, { mode: this.name, parameter: "arguments" })
+    }
+    const [nonce, ...rest] = this.iv ? [this.iv, ...args] : args
+    if (!this.iv && (!nonce || nonce.length === 0)) {
+      throw new InvalidNonceError("GCM requiere un nonce no vacío en cada mensaje", { mode: this.name, parameter: "nonce", expected: [], actual: nonce ? 0 : null })
+    }
+    required.forEach((parameter, i) => {
+      if (!rest[i]) {
+        throw new InvalidParameterError(`Falta el parámetro ${parameter}`, { mode: this.name, parameter })
       }
+    })
+    return [nonce, ...rest]
+  }
 
-      // Desplaza v un bit a la derecha
-      const lsbSet = (v[15] & 1) !== 0
-      for (let j = 15; j > 0; j--) {
-        v[j] = (v[j] >> 1) | ((v[j - 1] & 1) << 7)
-      }
-      v[0] = v[0] >> 1
+  /**
+   * Registra un nonce de cifrado y lanza un error si esta instancia ya lo había usado. Al llegar a
+   * `GCM_MAX_TRACKED_NONCES`, olvida el nonce más antiguo para hacer sitio al nuevo.
+   * @private
+   */
+  private claimNonce(nonce: Uint8Array): void {
+    // Una unidad de código por byte: la cadena resultante es plana y ocupa mucho menos que su forma hexadecimal
+    let id = ""
+    for (let i = 0; i < nonce.length; i += NONCE_ID_CHUNK) {
+      id += String.fromCharCode(...nonce.subarray(i, i + NONCE_ID_CHUNK))
+    }
+    if (this.usedNonces.has(id)) {
+      throw new InvalidNonceError("Nonce reutilizado: GCM no puede cifrar dos mensajes con el mismo nonce y la misma clave", { mode: this.name, parameter: "nonce", expected: [], actual: nonce.length })
+    }
+    if (this.usedNonces.size >= GCM_MAX_TRACKED_NONCES) {
+      // Un Set conserva el orden de inserción: el primero es el nonce más antiguo
+      this.usedNonces.delete(this.usedNonces.values().next().value!)
+    }
+    this.usedNonces.add(id)
+  }
 
-      // Si el LSB de v era 1, z ^= R
-      if (lsbSet) {
-        v[0] ^= R
-      }
+  /**
+   * Comprueba que el mensaje no supera la longitud máxima de GCM, igual que {@link GCMStream.update}.
+   * @private
+   */
+  private checkDataLength(length: number, parameter: "plaintext" | "ciphertext"): void {
+    if (length > GCM_MAX_DATA_LENGTH) {
+      throw new InvalidLengthError("El mensaje supera la longitud máxima de GCM.", { mode: this.name, parameter, expected: { max: GCM_MAX_DATA_LENGTH }, actual: length })
     }
-    return z
   }
 
   /**
@@ -182,44 +434,265 @@ export class ModeOfOperationGCM {
    * @private
    */
   private ghash(associatedData: Uint8Array, ciphertext: Uint8Array): Uint8Array {
-    let Y = new Uint8Array(16)
+    this.ghashState.reset()
+    this.ghashState.update(associatedData)
+    this.ghashState.flush()
+    this.ghashState.update(ciphertext)
+    return this.ghashState.digest(ghashLengthBlock(associatedData.length, ciphertext.length, this.legacyFormat))
+  }
 
-    // Fase 1: Procesar datos asociados (AAD)
-    for (let i = 0; i < associatedData.length; i += 16) {
-      const block = associatedData.subarray(i, i + 16)
-      for (let j = 0; j < block.length; j++) {
-        Y[j] ^= block[j]
-      }
-      Y = this.galoisMultiply(Y, this.H)
+  /**
+   * Borra la copia de la clave, las tablas de GHASH y el registro de nonces, y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key)
+    this.ghashState.clear()
+    this.usedNonces.clear()
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
+
+/**
+ * Sentido de un {@link GCMStream}.
+ */
+export type GCMStreamDirection = "encrypt" | "decrypt"
+
+/**
+ * Cifrado o descifrado GCM incremental, para mensajes que no caben en memoria (p. ej. subidas de varios gigabytes).
+ *
+ * El flujo conserva entre llamadas el acumulador GHASH y la posición del contador CTR, incluido el keystream sobrante,
+ * así que los trozos pueden tener cualquier tamaño, sin alinear a 16 bytes. El resultado es idéntico al de
+ * {@link ModeOfOperationGCM.encrypt} sobre el mensaje completo.
+ *
+ * Orden de las llamadas:
+ * 1. `updateAAD(chunk)` tantas veces como haga falta, siempre antes del primer `update()`.
+ * 2. `update(chunk)`, que devuelve en el acto los bytes cifrados (o descifrados) de ese trozo.
+ * 3. `final()` al cifrar, que devuelve la etiqueta, o `finalVerify(tag)` al descifrar.
+ *
+ * **Importante al descifrar**: `update()` entrega texto plano que todavía no se ha autenticado. No debe usarse ni
+ * hacerse visible (escribirse en su destino definitivo, procesarse, responder con él) hasta que `finalVerify()`
+ * devuelva `true`; si devuelve `false`, descártelo entero. Si el mensaje cabe en memoria, use
+ * {@link ModeOfOperationGCM.decrypt}, que no libera nada sin verificar.
+ *
+ * Tras `final()` o `finalVerify()` el flujo queda cerrado. Con una expansión de clave (`ExpandedKey`) ajena, como la
+ * que reciben los flujos creados por {@link ModeOfOperationGCM.createEncryptStream}, destruirla invalida el flujo.
+ * Créelos preferentemente con esos métodos: un flujo construido directamente no comprueba si el nonce ya se usó.
+ *
+ * @example
+ * ```typescript
+ * const gcm = new ModeOfOperationGCM(key);
+ * const stream = gcm.createEncryptStream(nonce);
+ * stream.updateAAD(header);
+ * for await (const chunk of upload) {
+ *   output.write(stream.update(chunk));
+ * }
+ * const tag = stream.final();
+ * ```
+ */
+export class GCMStream {
+  public readonly description = "Galois/Counter Mode (streaming)"
+  public readonly name = "gcm-stream"
+  public readonly direction: GCMStreamDirection
+
+  private readonly aes: AESCore
+  private readonly tagLength: number
+  // E(K, J0), que enmascara el resultado de GHASH para formar la etiqueta.
+  private readonly tagMask: Uint8Array
+  private readonly ghash: GF128Hash
+  private readonly ctr: ModeOfOperationCTR
+  private readonly legacyFormat: boolean
+
+  // Cifrador nativo (node:crypto) si está disponible; null para el camino puro.
+  private readonly nativeCipher: NativeCipher | null
+
+  private aadLength = 0
+  private dataLength = 0
+  // "aad" hasta el primer `update()`, "data" después y "done" tras `final()` o `finalVerify()`.
+  private phase: "aad" | "data" | "done" = "aad"
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
+  /**
+   * Inicializa un flujo GCM.
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param iv El vector de inicialización (nonce). Se recomienda 12 bytes, pero se aceptan otras longitudes.
+   * @param direction `"encrypt"` para cifrar o `"decrypt"` para descifrar.
+   * @param options Opciones de construcción, las mismas que en {@link ModeOfOperationGCM} (incluida `tagLength`).
+   * @throws InvalidParameterError si `tagLength` no es una longitud admitida.
+   */
+  constructor(key: Uint8Array | ExpandedKey, iv: Uint8Array, direction: GCMStreamDirection, options: GCMOptions = {}) {
+    this.direction = direction
+    this.tagLength = resolveTagLength(options, this.name)
+    this.aes = createAES(key, options)
+
+    const keyBytes = copyKeyBytes(key)
+    const nativeAlgorithm = `aes-${keyBytes.length * 8}-gcm`
+    this.legacyFormat = options.legacyFormat === true
+    const native = resolveNativeBackend(options, iv.length > 0 && !this.legacyFormat ? nativeAlgorithm : null)
+    this.nativeCipher = native
+      ? (direction === "encrypt"
+        ? native.createCipheriv(nativeAlgorithm, keyBytes, iv, { authTagLength: this.tagLength })
+        : native.createDecipheriv(nativeAlgorithm, keyBytes, iv, { authTagLength: this.tagLength }))
+      : null
+    wipe(keyBytes)
+
+    const H = this.aes.encrypt(new Uint8Array(16))
+    this.ghash = new GF128Hash(H, "ghash", resolveGHashTableBits(options, this.name))
+    wipe(H)
+    const J0 = deriveJ0(this.ghash, iv, this.legacyFormat)
+    this.ghash.reset()
+    this.tagMask = this.aes.encrypt(J0)
+
+    const counter = new Counter(J0)
+    counter.increment() // El contador de datos empieza en J0 + 1
+    this.ctr = new ModeOfOperationCTR(this.aes.expandedKey, counter, options)
+    wipe(J0)
+  }
+
+  /**
+   * Añade un trozo de datos asociados, que se autentican sin cifrar.
+   * @param chunk Trozo de datos asociados, de cualquier longitud.
+   * @throws UnsupportedOperationError si ya se ha llamado a `update()` o el flujo está cerrado.
+   */
+  updateAAD(chunk: Uint8Array): void {
+    assertNotDisposed(this.disposed, this.name)
+    this.assertOpen("updateAAD")
+    if (this.phase !== "aad") {
+      throw new UnsupportedOperationError("Los datos asociados deben proporcionarse antes que el texto", { mode: this.name, operation: "updateAAD" })
     }
+    this.aadLength += chunk.length
+    if (this.nativeCipher) {
+      this.nativeCipher.setAAD(chunk)
+      return
+    }
+    this.ghash.update(chunk)
+  }
 
-    // Fase 2: Procesar texto cifrado
-    for (let i = 0; i < ciphertext.length; i += 16) {
-      const block = ciphertext.subarray(i, i + 16)
-      for (let j = 0; j < block.length; j++) {
-        Y[j] ^= block[j]
-      }
-      Y = this.galoisMultiply(Y, this.H)
+  /**
+   * Cifra (o descifra) un trozo del mensaje.
+   * @param chunk Trozo de texto plano (o cifrado), de cualquier longitud.
+   * @returns El trozo cifrado (o descifrado), de la misma longitud. Al descifrar, todavía sin autenticar.
+   * @throws InvalidLengthError si el mensaje supera el máximo de GCM (2^36 − 32 bytes).
+   */
+  update(chunk: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
+    this.assertOpen("update")
+    if (this.dataLength + chunk.length > GCM_MAX_DATA_LENGTH) {
+      throw new InvalidLengthError("El mensaje supera la longitud máxima de GCM.", { mode: this.name, parameter: "plaintext", expected: { max: GCM_MAX_DATA_LENGTH }, actual: this.dataLength + chunk.length })
+    }
+    if (this.phase === "aad") {
+      this.ghash.flush()
+      this.phase = "data"
+    }
+    this.dataLength += chunk.length
+
+    if (this.nativeCipher) {
+      return new Uint8Array(this.nativeCipher.update(chunk))
+    }
+    // GHASH se calcula siempre sobre el texto cifrado: la salida al cifrar, la entrada al descifrar.
+    if (this.direction === "decrypt") {
+      this.ghash.update(chunk)
+    }
+    const output = this.ctr.encrypt(chunk)
+    if (this.direction === "encrypt") {
+      this.ghash.update(output)
+    }
+    return output
+  }
+
+  /**
+   * Termina el cifrado y devuelve la etiqueta de autenticación, de `tagLength` bytes.
+   * @throws UnsupportedOperationError si el flujo es de descifrado o ya está cerrado.
+   */
+  final(): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
+    this.assertOpen("final")
+    if (this.direction !== "encrypt") {
+      throw new UnsupportedOperationError("Un flujo de descifrado se termina con finalVerify(tag)", { mode: this.name, operation: "final" })
+    }
+    this.phase = "done"
+
+    if (this.nativeCipher) {
+      this.nativeCipher.final()
+      return new Uint8Array(this.nativeCipher.getAuthTag())
+    }
+    return this.computeTag()
+  }
+
+  /**
+   * Termina el descifrado y verifica la etiqueta recibida.
+   * @param tag La etiqueta de autenticación recibida, de `tagLength` bytes.
+   * @returns `true` si el mensaje es auténtico; `false` si no lo es, en cuyo caso todo el texto plano entregado por
+   * `update()` debe descartarse.
+   * @throws UnsupportedOperationError si el flujo es de cifrado o ya está cerrado.
+   */
+  finalVerify(tag: Uint8Array): boolean {
+    assertNotDisposed(this.disposed, this.name)
+    this.assertOpen("finalVerify")
+    if (this.direction !== "decrypt") {
+      throw new UnsupportedOperationError("Un flujo de cifrado se termina con final()", { mode: this.name, operation: "finalVerify" })
+    }
+    this.phase = "done"
+    if (tag.length !== this.tagLength) {
+      return false // Etiqueta de longitud inválida
     }
 
-    // Fase 3: Bloque final con longitudes
-    const lenA = associatedData.length * 8
-    const lenC = ciphertext.length * 8
-    const finalBlock = new Uint8Array(16)
+    if (this.nativeCipher) {
+      this.nativeCipher.setAuthTag(tag)
+      try {
+        this.nativeCipher.final()
+        return true
+      } catch {
+        return false // ¡Fallo de autenticación!
+      }
+    }
 
-    // Escribir longitud de AAD (64 bits)
-    for (let i = 0; i < 8; i++) {
-      finalBlock[7 - i] = (lenA >> (i * 8)) & 0xff
+    const expectedTag = this.computeTag()
+    // Comparación en tiempo constante para evitar ataques de temporización
+    let tagsMatch = 0
+    for (let i = 0; i < this.tagLength; i++) {
+      tagsMatch |= tag[i] ^ expectedTag[i]
     }
-    // Escribir longitud de Ciphertext (64 bits)
-    for (let i = 0; i < 8; i++) {
-      finalBlock[15 - i] = (lenC >> (i * 8)) & 0xff
+    wipe(expectedTag)
+    return tagsMatch === 0
+  }
+
+  // tag = MSB_t(GHASH ^ CIPH_K(J0))
+  private computeTag(): Uint8Array {
+    const tag = this.ghash.digest(ghashLengthBlock(this.aadLength, this.dataLength, this.legacyFormat)).slice(0, this.tagLength)
+    for (let i = 0; i < this.tagLength; i++) {
+      tag[i] ^= this.tagMask[i]
     }
+    this.ghash.clear()
+    return tag
+  }
 
-    for (let j = 0; j < 16; j++) {
-      Y[j] ^= finalBlock[j]
+  private assertOpen(operation: string): void {
+    if (this.phase === "done") {
+      throw new UnsupportedOperationError("El flujo GCM ya está cerrado", { mode: this.name, operation })
     }
+  }
+
+  /**
+   * Borra las tablas y el estado de GHASH y el keystream pendiente, y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.phase = "done"
+    this.ghash.clear()
+    wipe(this.tagMask)
+    this.ctr.dispose()
+    this.aes.dispose()
+  }
 
-    return this.galoisMultiply(Y, this.H)
+  [Symbol.dispose](): void {
+    this.dispose()
   }
-}
\ No newline at end of file
+}
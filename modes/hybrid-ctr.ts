@@ -1,6 +1,44 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidKeyLengthError, InvalidLengthError, toDecryptResult } from "../errors"
+import { ExpandedKey } from "../key-schedule"
 import { xor } from "./utils/xor"
+import { ModeOfOperationCMAC } from "./cmac"
 import { ModeOfOperationCTR } from "./ctr"
+import { s2v } from "./siv"
+
+// Byte de versión con el que empieza todo texto cifrado v2.
+const HYBRID_CTR_V2 = 0x02
+
+// Propósito de cada cálculo S2V de v2, que va junto al byte de versión en la primera cadena del vector.
+const PURPOSE_NONCE = 0x01
+const PURPOSE_IV = 0x02
+const PURPOSE_TAG = 0x03
+
+/**
+ * Opciones del modo HybridCTR. Además de las de {@link AESOptions}:
+ * - `acceptV1`: si `decrypt()` acepta textos cifrados v1 (sin byte de versión). Por defecto `true`, para que los datos
+ *   existentes sigan siendo legibles; una vez recifrados todos con v2, conviene desactivarlo, porque la etiqueta v1 no
+ *   es un MAC seguro.
+ */
+export interface HybridCTROptions extends AESOptions {
+  acceptV1?: boolean
+}
+
+/**
+ * Codifica una cadena con su longitud en bytes como prefijo de 64 bits big-endian.
+ * @private
+ */
+function lengthPrefixed(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + data.length)
+  let length = data.length
+  for (let i = 7; i >= 0; i--) {
+    out[i] = length & 0xff
+    length = Math.floor(length / 256)
+  }
+  out.set(data, 8)
+  return out
+}
 
 /**
  * Implementación del modo de operación AES-HybridCTR (Hybrid Counter Mode with Authentication and Tweak).
@@ -19,12 +57,26 @@ import { ModeOfOperationCTR } from "./ctr"
  * - **Resistencia a nonce**: Seguridad incluso si se reutiliza el nonce.
  * - **Flexibilidad**: Permite datos asociados adicionales para autenticación.
  *
- * Proceso:
- * 1. Genera un nonce sintético si no se proporciona uno.
- * 2. Combina el nonce con el tweak para crear un nonce modificado.
- * 3. Utiliza el modo CTR con el nonce modificado para cifrar los datos.
- * 4. Crea una etiqueta de autenticación basada en todos los componentes.
- * 5. Durante el descifrado, verifica la etiqueta antes de descifrar.
+ * Proceso (v2):
+ * 1. Del constructor salen dos subclaves independientes, una de cifrado y otra de autenticación, derivadas de la clave
+ *    maestra con el KDF en modo contador de NIST SP 800-108 sobre CMAC.
+ * 2. Si no se proporciona nonce, se genera uno sintético con S2V (RFC 5297) sobre los datos asociados, el tweak y el
+ *    texto plano.
+ * 3. El contador inicial de CTR se obtiene con S2V sobre el nonce y el tweak, y cifra con la subclave de cifrado.
+ * 4. La etiqueta es S2V sobre el nonce, los datos asociados, el tweak y el texto cifrado (Encrypt-then-MAC), así que
+ *    al descifrar se verifica antes de tocar el texto cifrado.
+ *
+ * Todas las cadenas de S2V llevan su longitud como prefijo de 64 bits, y la primera del vector es el byte de versión
+ * seguido del propósito (nonce, contador o etiqueta), de modo que los tres cálculos nunca coinciden.
+ *
+ * Formato v2: el texto cifrado es `0x02 || C`, con `C` de la misma longitud que el texto plano; la etiqueta y el nonce
+ * viajan aparte, como en v1.
+ *
+ * La versión 1, sin byte de versión, derivaba el nonce sintético y la etiqueta combinando con XOR el cifrado de cada
+ * bloque (una construcción en la que los bloques conmutan y el relleno con ceros es ambiguo) y usaba la misma clave
+ * para CTR y para la etiqueta. `encrypt()` ya solo produce v2; `decrypt()` sigue aceptando v1 salvo que se
+ * construya con `{ acceptV1: false }`. Un texto v1 que empiece por casualidad por `0x02` se intenta primero como v2 y,
+ * si no se verifica, como v1.
  *
  * @example
  * ```typescript
@@ -35,7 +87,7 @@ import { ModeOfOperationCTR } from "./ctr"
  * const aad = new TextEncoder().encode("Datos asociados");
  * const tweak = new Uint8Array(16); // Tweak para posicionamiento
  * 
- * const { ciphertext, tag, nonce: usedNonce } = hybridCtr.encrypt(plaintext, nonce, aad, tweak);
+ * const { ciphertext, tag, nonce: usedNonce } = hybridCtr.encrypt(plaintext, nonce, aad, tweak); // ciphertext[0] === 0x02
  * const decrypted = hybridCtr.decrypt(ciphertext, tag, usedNonce, aad, tweak);
  * ```
  */
@@ -43,59 +95,111 @@ export class ModeOfOperationHybridCTR {
   public readonly description = "Hybrid Counter Mode with Authentication and Tweak"
   public readonly name = "hybrid-ctr"
 
-  private readonly aes: AES
-  private readonly key: Uint8Array
+  // Núcleo de la clave maestra: deriva las subclaves v2 y es la única clave de v1.
+  private readonly aes: AESCore
+  private readonly options: AESOptions
   private readonly tagSize: number
+  private readonly acceptV1: boolean
+
+  // --- Subclaves v2 ---
+  private readonly encryptionAes: AESCore
+  private readonly cmac: ModeOfOperationCMAC
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación HybridCTR con una clave.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
    * @param tagSize El tamaño de la etiqueta de autenticación (entre 8 y 16 bytes). Por defecto es 16 bytes.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ acceptV1: false }` para rechazar los textos cifrados v1).
    */
-  constructor(key: Uint8Array, tagSize: number = 16) {
-    if (![16, 24, 32].includes(key.length)) {
-      throw new Error("Key must be 16, 24, or 32 bytes long")
+  constructor(key: Uint8Array | ExpandedKey, tagSize: number = 16, options: HybridCTROptions = {}) {
+    if (key instanceof Uint8Array && ![16, 24, 32].includes(key.length)) {
+      throw new InvalidKeyLengthError("Tamaño de clave inválido (debe ser 16, 24 o 32 bytes)", { mode: this.name, expected: [16, 24, 32], actual: key.length })
     }
     
     if (tagSize < 8 || tagSize > 16) {
-      throw new Error("Tag size must be between 8 and 16 bytes")
+      throw new InvalidLengthError("Tamaño de etiqueta inválido (debe estar entre 8 y 16)", { mode: this.name, parameter: "tagSize", expected: { min: 8, max: 16 }, actual: tagSize })
     }
     
-    this.aes = new AES(key)
-    this.key = key
+    this.aes = createAES(key, options)
     this.tagSize = tagSize
+    this.options = options
+    this.acceptV1 = options.acceptV1 !== false
+
+    // Las subclaves se derivan de la clave maestra: no tiene sentido guardarlas en `keyCache`.
+    const subkeyOptions = { ...options, keyCache: undefined }
+    const masterCmac = new ModeOfOperationCMAC(this.aes.expandedKey, subkeyOptions)
+    const encryptionKey = this._deriveSubkey(masterCmac, "HybridCTR v2 encryption")
+    const authenticationKey = this._deriveSubkey(masterCmac, "HybridCTR v2 authentication")
+    masterCmac.dispose()
+
+    this.encryptionAes = createAES(encryptionKey, subkeyOptions)
+    this.cmac = new ModeOfOperationCMAC(authenticationKey, subkeyOptions)
+    wipe(encryptionKey, authenticationKey)
   }
 
   /**
-   * Genera un nonce sintético similar al enfoque de GCM-SIV.
-   * Combina texto plano, datos asociados y tweak para crear un nonce único.
+   * Deriva una subclave del mismo tamaño que la clave maestra con el KDF en modo contador de NIST SP 800-108:
+   * K(i) = CMAC(K, [i]_32 || etiqueta || 0x00 || [L]_32), sin contexto.
    * @private
    */
-  private _generateSyntheticNonce(plaintext: Uint8Array, associatedData: Uint8Array, tweak: Uint8Array): Uint8Array {
-    // Create a hash of the inputs to generate a synthetic nonce
-    const combined = new Uint8Array(plaintext.length + associatedData.length + tweak.length)
-    combined.set(plaintext, 0)
-    combined.set(associatedData, plaintext.length)
-    combined.set(tweak, plaintext.length + associatedData.length)
-    
-    // Process in blocks and XOR together
-    let hash = new Uint8Array(16)
-    for (let i = 0; i < combined.length; i += 16) {
-      const block = combined.subarray(i, Math.min(i + 16, combined.length))
-      const paddedBlock = new Uint8Array(16)
-      paddedBlock.set(block)
-      hash = xor(hash, this.aes.encrypt(paddedBlock))
+  private _deriveSubkey(masterCmac: ModeOfOperationCMAC, label: string): Uint8Array {
+    const keyLength = this.aes.expandedKey.keyLength
+    const labelBytes = new TextEncoder().encode(label)
+    const input = new Uint8Array(4 + labelBytes.length + 1 + 4)
+    input.set(labelBytes, 4)
+    const bits = keyLength * 8
+    input[input.length - 2] = (bits >> 8) & 0xff
+    input[input.length - 1] = bits & 0xff
+
+    const subkey = new Uint8Array(keyLength)
+    for (let i = 1; (i - 1) * 16 < keyLength; i++) {
+      input[3] = i
+      const block = masterCmac.generateTag(input)
+      subkey.set(block.subarray(0, Math.min(16, keyLength - (i - 1) * 16)), (i - 1) * 16)
+      wipe(block)
     }
-    
-    return hash
+    return subkey
   }
 
   /**
-   * Crea una etiqueta de autenticación similar a GCM/EAX.
+   * S2V sobre la cabecera (versión y propósito) y las cadenas dadas, cada una con su longitud como prefijo.
+   * @private
+   */
+  private _s2v(purpose: number, strings: Uint8Array[]): Uint8Array {
+    return s2v(this.cmac, [new Uint8Array([HYBRID_CTR_V2, purpose]), ...strings.map(lengthPrefixed)])
+  }
+
+  /**
+   * Verifica y descifra el cuerpo de un texto cifrado v2 (sin el byte de versión).
+   * @private
+   */
+  private _decryptV2(body: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array, tweak: Uint8Array): Uint8Array | null {
+    const expectedTag = this._s2v(PURPOSE_TAG, [nonce, associatedData, tweak, body])
+
+    let result = 0
+    for (let i = 0; i < this.tagSize; i++) {
+      result |= tag[i] ^ expectedTag[i]
+    }
+    if (result !== 0) {
+      return null
+    }
+
+    const iv = this._s2v(PURPOSE_IV, [nonce, tweak])
+    const ctr = new ModeOfOperationCTR(this.encryptionAes.expandedKey, iv, this.options)
+    const plaintext = ctr.decrypt(body)
+    ctr.dispose()
+    return plaintext
+  }
+
+  /**
+   * Crea la etiqueta de autenticación de v1.
    * Combina todos los componentes (texto plano, nonce, datos asociados, tweak) para generar una etiqueta.
    * @private
    */
-  private _createTag(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array, tweak: Uint8Array): Uint8Array {
+  private _createTagV1(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array, tweak: Uint8Array): Uint8Array {
     // Create a unique tag by combining all inputs
     const components: Uint8Array[] = [plaintext, nonce, associatedData, tweak]
     let tagBase = new Uint8Array(16)
@@ -125,32 +229,32 @@ export class ModeOfOperationHybridCTR {
   }
 
   /**
-   * Cifra y autentica datos utilizando el modo HybridCTR.
+   * Cifra y autentica datos utilizando el modo HybridCTR v2.
    * @param plaintext Los datos a cifrar.
    * @param nonce El nonce (puede omitirse para generar un nonce sintético).
    * @param associatedData Datos adicionales a autenticar pero no cifrar.
    * @param tweak Valor de tweak (por ejemplo, número de sector para cifrado de disco).
-   * @returns Objeto con ciphertext, etiqueta de autenticación y nonce utilizado.
+   * @returns Objeto con ciphertext (`0x02` seguido del texto cifrado), etiqueta de autenticación y nonce utilizado.
    */
   encrypt(plaintext: Uint8Array, nonce?: Uint8Array, associatedData: Uint8Array = new Uint8Array(0), tweak: Uint8Array = new Uint8Array(16)): { ciphertext: Uint8Array; tag: Uint8Array; nonce: Uint8Array } {
-    // Generate synthetic nonce if not provided
-    const actualNonce = nonce || this._generateSyntheticNonce(plaintext, associatedData, tweak)
-    
-    // Apply tweak to nonce for positional encryption (similar to XTS)
-    const tweakedNonce = xor(actualNonce, tweak)
-    
-    // Encrypt using CTR mode
-    const ctr = new ModeOfOperationCTR(this.key, tweakedNonce)
-    const ciphertext = ctr.encrypt(plaintext)
-    
-    // Create authentication tag
-    const tag = this._createTag(plaintext, actualNonce, associatedData, tweak)
-    
-    return { ciphertext, tag, nonce: actualNonce }
+    assertNotDisposed(this.disposed, this.name)
+    const actualNonce = nonce || this._s2v(PURPOSE_NONCE, [associatedData, tweak, plaintext])
+
+    const iv = this._s2v(PURPOSE_IV, [actualNonce, tweak])
+    const ctr = new ModeOfOperationCTR(this.encryptionAes.expandedKey, iv, this.options)
+    const ciphertext = new Uint8Array(1 + plaintext.length)
+    ciphertext[0] = HYBRID_CTR_V2
+    ciphertext.set(ctr.encrypt(plaintext), 1)
+    ctr.dispose()
+
+    const tag = this._s2v(PURPOSE_TAG, [actualNonce, associatedData, tweak, ciphertext.subarray(1)])
+
+    return { ciphertext, tag: tag.subarray(0, this.tagSize), nonce: actualNonce }
   }
 
   /**
-   * Descifra y verifica datos autenticados utilizando el modo HybridCTR.
+   * Descifra y verifica datos autenticados utilizando el modo HybridCTR. Acepta textos cifrados v2 y, salvo que se
+   * haya desactivado con `acceptV1: false`, también v1.
    * @param ciphertext Los datos a descifrar.
    * @param tag La etiqueta de autenticación.
    * @param nonce El nonce utilizado para el cifrado.
@@ -159,19 +263,41 @@ export class ModeOfOperationHybridCTR {
    * @returns Texto plano descifrado si la autenticación tiene éxito, null en caso contrario.
    */
   decrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0), tweak: Uint8Array = new Uint8Array(16)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     if (tag.length !== this.tagSize) {
       return null
     }
-    
+
+    if (ciphertext.length > 0 && ciphertext[0] === HYBRID_CTR_V2) {
+      const plaintext = this._decryptV2(ciphertext.subarray(1), tag, nonce, associatedData, tweak)
+      if (plaintext !== null || !this.acceptV1) {
+        return plaintext
+      }
+    }
+
+    return this.acceptV1 ? this._decryptV1(ciphertext, tag, nonce, associatedData, tweak) : null
+  }
+
+  /**
+   * Descifra y verifica un texto cifrado v1.
+   * @private
+   */
+  private _decryptV1(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array, tweak: Uint8Array): Uint8Array | null {
+    // v1 solo podía cifrar con nonces de 16 bytes (el contador de CTR es nonce XOR tweak).
+    if (nonce.length !== 16) {
+      return null
+    }
+
     // Apply tweak to nonce for decryption (similar to XTS)
     const tweakedNonce = xor(nonce, tweak)
     
     // Decrypt using CTR mode
-    const ctr = new ModeOfOperationCTR(this.key, tweakedNonce)
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, tweakedNonce, this.options)
     const plaintext = ctr.decrypt(ciphertext)
+    ctr.dispose()
     
     // Verify authentication tag
-    const expectedTag = this._createTag(plaintext, nonce, associatedData, tweak)
+    const expectedTag = this._createTagV1(plaintext, nonce, associatedData, tweak)
     
     // Constant-time comparison
     if (tag.length !== expectedTag.length) {
@@ -189,4 +315,28 @@ export class ModeOfOperationHybridCTR {
     
     return plaintext
   }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0), tweak: Uint8Array = new Uint8Array(16)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en HybridCTR", () => this.decrypt(ciphertext, tag, nonce, associatedData, tweak))
+  }
+
+  /**
+   * Destruye los núcleos AES de la clave maestra y de las subclaves; los CTR de cada mensaje reutilizan sus
+   * expansiones de clave.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.cmac.dispose()
+    this.encryptionAes.dispose()
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidLengthError, toDecryptResult } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
 
 /**
  * Implementación del modo de operación AES-KW (Key Wrap).
@@ -45,35 +49,56 @@ export class ModeOfOperationKW {
   public readonly description = "AES Key Wrap (KW)"
   public readonly name = "kw"
 
-  private readonly aes: AES // KEK (Key-Encrypting Key)
+  private readonly aes: AESCore // KEK (Key-Encrypting Key)
 
   // El Valor de Verificación de Integridad (ICV) por defecto según el estándar.
   private readonly defaultIV = new Uint8Array([0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6])
 
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  // OpenSSL exige al menos dos semibloques de datos, así que las claves más cortas usan siempre el camino puro.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
   /**
    * Inicializa el modo de operación KW con una KEK (Key-Encrypting Key).
-   * @param key La KEK (Key-Encrypting Key), debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La KEK (Key-Encrypting Key), debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array) {
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
     // La clave usada para envolver se llama KEK (Key-Encrypting Key)
-    this.aes = new AES(key)
+    this.aes = createAES(key, options)
+
+    this.key = copyKeyBytes(key)
+    this.nativeAlgorithm = `id-aes${this.key.length * 8}-wrap`
+    this.native = resolveNativeBackend(options, this.nativeAlgorithm)
   }
 
   /**
    * Envuelve (cifra) una clave simétrica.
    * @param plaintextKey La clave de texto plano a envolver. Debe ser múltiplo de 8 bytes.
+   * @param icv El valor inicial de integridad, de 8 bytes. Por defecto, el de SP 800-38F (`A6A6A6A6A6A6A6A6`); otro
+   *   valor permite a los formatos construidos sobre KW (como TKW v2) distinguirse de KW puro.
    * @returns La clave envuelta (texto cifrado).
    */
-  wrap(plaintextKey: Uint8Array): Uint8Array {
+  wrap(plaintextKey: Uint8Array, icv: Uint8Array = this.defaultIV): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
+    this._checkIcv(icv)
     if (plaintextKey.length % 8 !== 0) {
-      throw new Error("La clave a envolver debe tener una longitud múltiplo de 8 bytes.")
+      throw new InvalidLengthError("La clave a envolver debe tener una longitud múltiplo de 8 bytes.", { mode: this.name, parameter: "plaintextKey", expected: { multipleOf: 8 }, actual: plaintextKey.length })
+    }
+
+    if (this.native && plaintextKey.length >= 16) {
+      return runNativeCipher(this.native.createCipheriv(this.nativeAlgorithm, this.key, icv), plaintextKey)
     }
 
     const n = plaintextKey.length / 8
     const R = new Array<Uint8Array>(n + 1)
 
     // 1. Inicializar variables
-    let A = new Uint8Array(this.defaultIV) // A = R[0]
+    let A = new Uint8Array(icv) // A = R[0]
     for (let i = 0; i < n; i++) {
       R[i + 1] = plaintextKey.subarray(i * 8, (i + 1) * 8)
     }
@@ -122,11 +147,22 @@ export class ModeOfOperationKW {
   /**
    * Desenvuelve (descifra) una clave simétrica.
    * @param wrappedKey La clave envuelta (texto cifrado).
+   * @param icv El valor inicial de integridad usado al envolver. Por defecto, el de SP 800-38F.
    * @returns La clave de texto plano si la verificación de integridad es exitosa, o `null` si falla.
    */
-  unwrap(wrappedKey: Uint8Array): Uint8Array | null {
+  unwrap(wrappedKey: Uint8Array, icv: Uint8Array = this.defaultIV): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
+    this._checkIcv(icv)
     if (wrappedKey.length % 8 !== 0 || wrappedKey.length < 16) {
-      throw new Error("La longitud de la clave envuelta es inválida.")
+      throw new InvalidLengthError("La longitud de la clave envuelta es inválida.", { mode: this.name, parameter: "wrappedKey", expected: { min: 16, multipleOf: 8 }, actual: wrappedKey.length })
+    }
+
+    if (this.native && wrappedKey.length >= 24) {
+      try {
+        return runNativeCipher(this.native.createDecipheriv(this.nativeAlgorithm, this.key, icv), wrappedKey)
+      } catch {
+        return null // ¡Fallo de verificación de integridad!
+      }
     }
 
     const n = wrappedKey.length / 8 - 1
@@ -172,7 +208,7 @@ export class ModeOfOperationKW {
     // Compara el resultado de A con el ICV inicial en tiempo constante.
     let integrityCheck = 0
     for (let i = 0; i < 8; i++) {
-      integrityCheck |= A[i] ^ this.defaultIV[i]
+      integrityCheck |= A[i] ^ icv[i]
     }
 
     if (integrityCheck !== 0) {
@@ -187,4 +223,32 @@ export class ModeOfOperationKW {
 
     return plaintext
   }
+
+  /**
+   * Desenvuelve la clave igual que {@link unwrap}, pero devuelve un {@link DecryptResult}: la clave en `plaintext`,
+   * o el motivo del fallo en `reason` si la comprobación de integridad o la longitud de la entrada no son válidas.
+   */
+  tryDecrypt(wrappedKey: Uint8Array, icv: Uint8Array = this.defaultIV): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de integridad al desenvolver la clave en KW", () => this.unwrap(wrappedKey, icv))
+  }
+
+  private _checkIcv(icv: Uint8Array): void {
+    if (icv.length !== 8) {
+      throw new InvalidLengthError("El valor inicial de integridad (ICV) debe tener 8 bytes.", { mode: this.name, parameter: "icv", expected: { min: 8, max: 8 }, actual: icv.length })
+    }
+  }
+
+  /**
+   * Borra la copia de la KEK y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -1,3 +1,7 @@
+import { AESOptions } from "../aes"
+import { assertNotDisposed } from "../dispose"
+import { DecryptResult, toDecryptResult } from "../errors"
+import { ExpandedKey } from "../key-schedule"
 import { ModeOfOperationKW } from "./kw"
 
 /**
@@ -45,14 +49,17 @@ export class ModeOfOperationKWP {
   public readonly name = "kwp"
 
   private readonly kw: ModeOfOperationKW // Instancia interna de KW
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación KWP con una KEK (Key-Encrypting Key).
-   * @param key La KEK (Key-Encrypting Key), debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La KEK (Key-Encrypting Key), debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array) {
+  constructor(key: Uint8Array | ExpandedKey, options: AESOptions = {}) {
     // La KEK se pasa al motor KW interno.
-    this.kw = new ModeOfOperationKW(key)
+    this.kw = new ModeOfOperationKW(key, options)
   }
 
   /**
@@ -61,6 +68,7 @@ export class ModeOfOperationKWP {
    * @returns La clave envuelta (texto cifrado).
    */
   wrap(plaintextKey: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
     const plen = plaintextKey.length
 
     // 1. Construir el bloque de texto plano con relleno (P')
@@ -91,6 +99,7 @@ export class ModeOfOperationKWP {
    * @returns La clave de texto plano si la verificación es exitosa, o `null` si falla.
    */
   unwrap(wrappedKey: Uint8Array): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     // 1. Usar el algoritmo KW estándar para desenvolver los datos.
     const paddedPlaintext = this.kw.unwrap(wrappedKey)
 
@@ -115,4 +124,25 @@ export class ModeOfOperationKWP {
 
     return originalKey
   }
+
+  /**
+   * Desenvuelve la clave igual que {@link unwrap}, pero devuelve un {@link DecryptResult}: la clave en `plaintext`,
+   * o el motivo del fallo en `reason` si la comprobación de integridad o la longitud de la entrada no son válidas.
+   */
+  tryDecrypt(wrappedKey: Uint8Array): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de integridad al desenvolver la clave en KWP", () => this.unwrap(wrappedKey))
+  }
+
+  /**
+   * Destruye la instancia KW interna, borrando la KEK.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.kw.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
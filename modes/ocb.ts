@@ -1,6 +1,25 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidLengthError, InvalidNonceError, toDecryptResult } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
+import { doubleBE, doublings } from "./utils/gf128"
 import { xor } from "./utils/xor"
 
+// Número de bloques que se cifran juntos en cada llamada a `encryptBlocks`.
+const OCB_BATCH_BLOCKS = 64
+
+/**
+ * Opciones del modo OCB. Además de las de {@link AESOptions}:
+ * - `legacyFormat`: usa el formato de versiones anteriores de esta biblioteca, que no seguía RFC 7253: tomaba
+ *   L_* como L_0, no ponía a cero los 6 bits inferiores del nonce al calcular Ktop, resumía los datos asociados
+ *   sin offsets y derivaba de otra forma el offset del último bloque parcial. Esos datos no interoperan con
+ *   ninguna otra implementación de OCB; solo debe activarse para descifrar datos antiguos y volver a cifrarlos
+ *   sin esta opción.
+ */
+export interface OCBOptions extends AESOptions {
+  legacyFormat?: boolean
+}
 
 /**
  * Implementación del modo de operación AES-OCB (Offset Codebook Mode, versión 3).
@@ -19,6 +38,9 @@ import { xor } from "./utils/xor"
  * 2. Los bloques se cifran usando una combinación de offsets y la clave.
  * 3. Se genera un tag de autenticación basado en los bloques cifrados y datos adicionales.
  *
+ * Las versiones anteriores de esta biblioteca no seguían RFC 7253: para descifrar los datos que cifraron, use la
+ * opción `legacyFormat` (o `AesMode.OCB_LEGACY` en `HighLevelAES`).
+ *
  * @example
  * ```typescript
  * const key = new Uint8Array(32); // Clave de 256 bits
@@ -37,32 +59,46 @@ export class ModeOfOperationOCB {
   public readonly description = "Offset Codebook Mode (OCB3)"
   public readonly name = "ocb"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly tagSize: number
 
   private readonly L_star: Uint8Array
   private readonly L_dollar: Uint8Array
   private readonly L_series: Uint8Array[]
+  private readonly legacyFormat: boolean
+
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  // El formato heredado no tiene equivalente nativo y usa siempre el camino puro.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación OCB con una clave maestra.
-   * @param key La clave maestra AES.
+   * @param key La clave maestra AES, o su expansión (`ExpandedKey`).
    * @param tagSize El tamaño del tag de autenticación (entre 8 y 16 bytes).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ legacyFormat: true }` para descifrar datos de versiones anteriores).
    */
-  constructor(key: Uint8Array, tagSize: number = 16) {
+  constructor(key: Uint8Array | ExpandedKey, tagSize: number = 16, options: OCBOptions = {}) {
     if (tagSize < 8 || tagSize > 16) {
-      throw new Error("Tamaño de etiqueta OCB inválido (debe estar entre 8 y 16)")
+      throw new InvalidLengthError("Tamaño de etiqueta OCB inválido (debe estar entre 8 y 16)", { mode: this.name, parameter: "tagSize", expected: { min: 8, max: 16 }, actual: tagSize })
     }
-    this.aes = new AES(key)
+    this.aes = createAES(key, options)
     this.tagSize = tagSize
+    this.legacyFormat = options.legacyFormat === true
 
     this.L_star = this.aes.encrypt(new Uint8Array(16))
-    this.L_dollar = this._double(this.L_star)
+    this.L_dollar = doubleBE(this.L_star)
 
-    this.L_series = [this.L_star] // L_series[0] es L_0 = L_*
-    for (let i = 0; i < 64; i++) {
-      this.L_series.push(this._double(this.L_series[i]))
-    }
+    // L_series[0] es L_0 = double(L_$); el formato heredado usaba L_* como L_0
+    this.L_series = this.legacyFormat ? doublings(this.L_star, 65) : doublings(doubleBE(this.L_dollar), 64)
+
+    this.key = copyKeyBytes(key)
+    this.nativeAlgorithm = `aes-${this.key.length * 8}-ocb`
+    this.native = resolveNativeBackend(options, this.legacyFormat ? null : this.nativeAlgorithm)
   }
 
   private _shiftLeft(bytes: Uint8Array, bits: number): Uint8Array {
@@ -85,19 +121,6 @@ export class ModeOfOperationOCB {
     return result
   }
 
-  private _double(block: Uint8Array): Uint8Array<ArrayBuffer> {
-    const doubled = new Uint8Array(16)
-    const msbSet = (block[0] & 0x80) !== 0
-    for (let i = 0; i < 15; i++) {
-      doubled[i] = ((block[i] << 1) | (block[i + 1] >> 7)) & 0xff
-    }
-    doubled[15] = (block[15] << 1) & 0xff
-    if (msbSet) {
-      doubled[15] ^= 0x87
-    }
-    return doubled
-  }
-
   private _ntz(n: number): number {
     if (n === 0) return 128
     let count = 0
@@ -108,10 +131,14 @@ export class ModeOfOperationOCB {
     return count
   }
 
-  private _ocb_process(data: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array, isEncryption: boolean): { output: Uint8Array; tag: Uint8Array } {
+  private _checkNonce(nonce: Uint8Array): void {
     if (nonce.length === 0 || nonce.length > 15) {
-      throw new Error("Longitud de Nonce inválida para OCB (debe ser de 1 a 15 bytes)")
+      throw new InvalidNonceError("Longitud de Nonce inválida para OCB (debe ser de 1 a 15 bytes)", { mode: this.name, parameter: "nonce", expected: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], actual: nonce.length })
     }
+  }
+
+  private _ocb_process(data: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array, isEncryption: boolean): { output: Uint8Array; tag: Uint8Array } {
+    this._checkNonce(nonce)
 
     // --- Preparación ---
     const tmp = new Uint8Array(16)
@@ -119,59 +146,76 @@ export class ModeOfOperationOCB {
     tmp.set(nonce, 16 - nonce.length)
     tmp[15 - nonce.length] |= 1
 
+    // Ktop se calcula con los 6 bits inferiores del nonce a cero; esos bits (bottom) seleccionan el desplazamiento.
+    const bottom = tmp[15] & 0x3f
+    if (!this.legacyFormat) {
+      tmp[15] &= 0xc0
+    }
     const ktop = this.aes.encrypt(tmp)
     const stretch = new Uint8Array(24)
     stretch.set(ktop)
     stretch.set(xor(ktop.subarray(0, 8), ktop.subarray(1, 9)), 16)
 
-    const bottom = tmp[15] & 0x3f
     const initialOffset = this._shiftLeft(stretch, bottom).subarray(0, 16)
 
-    // --- Procesamiento de Datos Asociados (AAD) ---
-    let authChecksum = new Uint8Array(16)
-    let authOffset = new Uint8Array(16)
-    for (let i = 0; i < associatedData.length; i += 16) {
-      authOffset = this._double(authOffset === this.L_star ? this._double(this.L_star) : authOffset) // RFC HASH
-      const block = associatedData.subarray(i, i + 16)
-      const processedBlock = this.aes.encrypt(xor(block.length === 16 ? block : this._pad(block), authOffset))
-      authChecksum = xor(authChecksum, processedBlock)
-    }
+    // --- Procesamiento de Datos Asociados (AAD), función HASH del RFC ---
+    const authChecksum = this.legacyFormat ? this._hashLegacy(associatedData) : this._hash(associatedData)
 
     // --- Procesamiento Principal ---
     const output = new Uint8Array(data.length)
-    let mainChecksum = new Uint8Array(16)
-    let mainOffset = new Uint8Array(initialOffset)
-    const numBlocks = Math.ceil(data.length / 16)
+    const mainChecksum = new Uint8Array(16)
+    const mainOffset = new Uint8Array(initialOffset)
+    const fullBlocks = Math.floor(data.length / 16)
 
-    for (let i = 1; i <= numBlocks; i++) {
-      mainOffset = xor(mainOffset, this.L_series[this._ntz(i)])
-      const from = (i - 1) * 16
-      const to = from + 16
-      const block = data.subarray(from, Math.min(to, data.length))
-
-      // --- LÓGICA CRÍTICA CORREGIDA ---
-      if (block.length < 16) {
-        // Último bloque (parcial)
-        const offsetStar = xor(mainOffset, this.L_star)
-        const pad = this.aes.encrypt(offsetStar)
-        const plaintextPartial = xor(block, pad.subarray(0, block.length))
+    // Los bloques completos se procesan por lotes: se enmascaran con sus offsets, se cifran (o descifran)
+    // con una sola llamada a `encryptBlocks` y se vuelven a enmascarar.
+    const offsets = new Uint8Array(Math.min(fullBlocks, OCB_BATCH_BLOCKS) * 16)
+    for (let start = 0; start < fullBlocks; start += OCB_BATCH_BLOCKS) {
+      const count = Math.min(OCB_BATCH_BLOCKS, fullBlocks - start)
+      const base = start * 16
+      const byteCount = count * 16
 
-        output.set(isEncryption ? plaintextPartial : block, from)
-        if (!isEncryption) output.set(plaintextPartial, from) // En descifrado, la salida es el texto plano
-
-        mainChecksum = xor(mainChecksum, this._pad(isEncryption ? block : plaintextPartial))
-        break
+      for (let b = 0; b < count; b++) {
+        const L = this.L_series[this._ntz(start + b + 1)]
+        const from = base + b * 16
+        for (let j = 0; j < 16; j++) {
+          mainOffset[j] ^= L[j]
+          offsets[b * 16 + j] = mainOffset[j]
+          output[from + j] = data[from + j] ^ mainOffset[j]
+        }
       }
 
+      const chunk = output.subarray(base, base + byteCount)
       if (isEncryption) {
-        const encrypted = this.aes.encrypt(xor(block, mainOffset))
-        output.set(xor(encrypted, mainOffset), from)
-        mainChecksum = xor(mainChecksum, block)
+        this.aes.encryptBlocks(chunk, chunk, count)
       } else {
-        const decryptedIntermediate = this.aes.decrypt(xor(block, mainOffset))
-        const plaintextBlock = xor(decryptedIntermediate, mainOffset)
-        output.set(plaintextBlock, from)
-        mainChecksum = xor(mainChecksum, plaintextBlock) // Usar el texto plano recuperado
+        this.aes.decryptBlocks(chunk, chunk, count)
+      }
+
+      // El checksum se calcula siempre sobre el texto plano (la entrada al cifrar, la salida al descifrar).
+      const plaintextBlocks = isEncryption ? data : output
+      for (let j = 0; j < byteCount; j++) {
+        output[base + j] ^= offsets[j]
+        mainChecksum[j & 15] ^= plaintextBlocks[base + j]
+      }
+    }
+
+    if (data.length % 16 !== 0) {
+      // Último bloque (parcial): Offset_* = Offset_m ^ L_*. El formato heredado avanzaba el offset con
+      // L_{ntz(m+1)} y aplicaba L_* solo a la entrada del cifrado.
+      const L = this.legacyFormat ? this.L_series[this._ntz(fullBlocks + 1)] : this.L_star
+      for (let j = 0; j < 16; j++) {
+        mainOffset[j] ^= L[j]
+      }
+      const from = fullBlocks * 16
+      const block = data.subarray(from)
+      const pad = this.aes.encrypt(this.legacyFormat ? xor(mainOffset, this.L_star) : mainOffset)
+      const plaintextPartial = xor(block, pad.subarray(0, block.length))
+      output.set(plaintextPartial, from)
+
+      const paddedPlaintext = this._pad(isEncryption ? block : plaintextPartial)
+      for (let j = 0; j < 16; j++) {
+        mainChecksum[j] ^= paddedPlaintext[j]
       }
     }
 
@@ -183,6 +227,58 @@ export class ModeOfOperationOCB {
     return { output, tag: tag.subarray(0, this.tagSize) }
   }
 
+  /**
+   * Función HASH de RFC 7253 sobre los datos asociados.
+   * @private
+   */
+  private _hash(associatedData: Uint8Array): Uint8Array {
+    const sum = new Uint8Array(16)
+    const offset = new Uint8Array(16)
+    const block = new Uint8Array(16)
+    const fullBlocks = Math.floor(associatedData.length / 16)
+
+    for (let i = 1; i <= fullBlocks; i++) {
+      const L = this.L_series[this._ntz(i)]
+      const from = (i - 1) * 16
+      for (let j = 0; j < 16; j++) {
+        offset[j] ^= L[j]
+        block[j] = associatedData[from + j] ^ offset[j]
+      }
+      this.aes.encryptBlockInto(block, 0, block, 0)
+      for (let j = 0; j < 16; j++) {
+        sum[j] ^= block[j]
+      }
+    }
+
+    if (associatedData.length % 16 !== 0) {
+      const padded = this._pad(associatedData.subarray(fullBlocks * 16))
+      for (let j = 0; j < 16; j++) {
+        offset[j] ^= this.L_star[j]
+        block[j] = padded[j] ^ offset[j]
+      }
+      this.aes.encryptBlockInto(block, 0, block, 0)
+      for (let j = 0; j < 16; j++) {
+        sum[j] ^= block[j]
+      }
+    }
+
+    return sum
+  }
+
+  /**
+   * Resumen de los datos asociados del formato heredado: el offset se quedaba siempre a cero, así que es la suma
+   * de E(A_i), con el último bloque parcial rellenado.
+   * @private
+   */
+  private _hashLegacy(associatedData: Uint8Array): Uint8Array {
+    let authChecksum = new Uint8Array(16)
+    for (let i = 0; i < associatedData.length; i += 16) {
+      const block = associatedData.subarray(i, i + 16)
+      authChecksum = xor(authChecksum, this.aes.encrypt(block.length === 16 ? block : this._pad(block)))
+    }
+    return authChecksum
+  }
+
   private _pad(block: Uint8Array): Uint8Array {
     const padded = new Uint8Array(16)
     padded.set(block)
@@ -191,12 +287,35 @@ export class ModeOfOperationOCB {
   }
 
   encrypt(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
+    if (this.native) {
+      this._checkNonce(nonce)
+      const cipher = this.native.createCipheriv(this.nativeAlgorithm, this.key, nonce, { authTagLength: this.tagSize })
+      cipher.setAAD(associatedData)
+      const ciphertext = runNativeCipher(cipher, plaintext)
+      return { ciphertext, tag: new Uint8Array(cipher.getAuthTag()) }
+    }
+
     const { output, tag } = this._ocb_process(plaintext, nonce, associatedData, true)
     return { ciphertext: output, tag }
   }
 
   decrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     if (tag.length !== this.tagSize) return null
+
+    if (this.native) {
+      this._checkNonce(nonce)
+      const decipher = this.native.createDecipheriv(this.nativeAlgorithm, this.key, nonce, { authTagLength: this.tagSize })
+      decipher.setAAD(associatedData)
+      decipher.setAuthTag(tag)
+      try {
+        return runNativeCipher(decipher, ciphertext)
+      } catch {
+        return null
+      }
+    }
+
     const { output, tag: calculatedTag } = this._ocb_process(ciphertext, nonce, associatedData, false)
 
     let tagsMatch = 0
@@ -207,4 +326,26 @@ export class ModeOfOperationOCB {
     if (tagsMatch !== 0) return null
     return output
   }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en OCB", () => this.decrypt(ciphertext, tag, nonce, associatedData))
+  }
+
+  /**
+   * Borra la copia de la clave y los valores L precalculados, y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key, this.L_star, this.L_dollar, ...this.L_series)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
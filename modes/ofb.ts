@@ -1,4 +1,8 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidNonceError } from "../errors"
+import { copyKeyBytes, ExpandedKey } from "../key-schedule"
 
 /**
  * Implementación del modo de operación AES-OFB (Output Feedback).
@@ -39,23 +43,34 @@ import { AES } from "../aes"
 export class ModeOfOperationOFB {
   public readonly description = "Output Feedback"
   public readonly name = "ofb"
-  private readonly aes: AES
+  private readonly aes: AESCore
   private lastPrecipher: Uint8Array
   private lastPrecipherIndex: number
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación OFB con una clave y un vector de inicialización opcional.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
    * @param iv El vector de inicialización de 16 bytes. Si no se proporciona, se usa un bloque de ceros.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array, iv?: Uint8Array) {
-    this.aes = new AES(key)
+  constructor(key: Uint8Array | ExpandedKey, iv?: Uint8Array, options: AESOptions = {}) {
+    this.aes = createAES(key, options)
     this.lastPrecipherIndex = 16
 
     if (iv && iv.length !== 16) {
-      throw new Error("Tamaño de vector de inicialización inválido (debe ser 16 bytes)")
+      throw new InvalidNonceError("Tamaño de vector de inicialización inválido (debe ser 16 bytes)", { mode: this.name, parameter: "iv", expected: [16], actual: iv.length })
     }
-    this.lastPrecipher = iv ? iv : new Uint8Array(16)
+    this.lastPrecipher = iv ? new Uint8Array(iv) : new Uint8Array(16)
+
+    this.key = copyKeyBytes(key)
+    this.nativeAlgorithm = `aes-${this.key.length * 8}-ofb`
+    this.native = resolveNativeBackend(options, this.nativeAlgorithm)
   }
 
   /**
@@ -64,9 +79,33 @@ export class ModeOfOperationOFB {
    * @returns El texto cifrado (o texto plano) del mismo tamaño que la entrada.
    */
   encrypt(plaintext: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
     const encrypted = new Uint8Array(plaintext)
+    let start = 0
+
+    if (this.native) {
+      // Agotar primero el keystream pendiente de la llamada anterior.
+      while (start < encrypted.length && this.lastPrecipherIndex < 16) {
+        encrypted[start++] ^= this.lastPrecipher[this.lastPrecipherIndex++]
+      }
+
+      // Los bloques completos los procesa OpenSSL partiendo del último bloque de keystream.
+      const byteCount = Math.floor((encrypted.length - start) / 16) * 16
+      if (byteCount > 0) {
+        const input = encrypted.subarray(start, start + byteCount)
+        const output = runNativeCipher(this.native.createCipheriv(this.nativeAlgorithm, this.key, this.lastPrecipher), input)
+        // El nuevo bloque de keystream se recupera como salida ^ entrada del último bloque.
+        const keystream = new Uint8Array(16)
+        for (let j = 0; j < 16; j++) {
+          keystream[j] = output[byteCount - 16 + j] ^ input[byteCount - 16 + j]
+        }
+        encrypted.set(output, start)
+        this.lastPrecipher = keystream
+        start += byteCount
+      }
+    }
 
-    for (let i = 0; i < encrypted.length; i++) {
+    for (let i = start; i < encrypted.length; i++) {
       if (this.lastPrecipherIndex === 16) {
         this.lastPrecipher = this.aes.encrypt(this.lastPrecipher)
         this.lastPrecipherIndex = 0
@@ -84,4 +123,18 @@ export class ModeOfOperationOFB {
    */
   // En OFB, la desencriptación es simétrica a la encriptación
   decrypt = this.encrypt
+
+  /**
+   * Borra la copia de la clave y el keystream pendiente, y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key, this.lastPrecipher)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed, wipe } from "../dispose"
+import { DecryptResult, InvalidLengthError, toDecryptResult } from "../errors"
+import { ExpandedKey } from "../key-schedule"
+import { doubleBE, doublings } from "./utils/gf128"
 import { xor } from "./utils/xor"
 import { ModeOfOperationCTR } from "./ctr"
 
@@ -37,49 +41,36 @@ export class ModeOfOperationPMAC_SIV {
   public readonly description = "PMAC-SIV (Nonce-Misuse Resistant)"
   public readonly name = "pmac-siv"
 
-  private readonly aes: AES
+  private readonly aes: AESCore
   private readonly tagSize: number
-  private readonly key: Uint8Array
+  private readonly options: AESOptions
 
   // --- Valores precalculados para PMAC (idénticos a los de OCB) ---
   private readonly L_star: Uint8Array
   // private readonly L_dollar: Uint8Array
   private readonly L_series: Uint8Array[]
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación PMAC-SIV con una clave.
-   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La clave de cifrado, debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
    * @param tagSize El tamaño del tag de autenticación (entre 8 y 16 bytes). Por defecto es 16 bytes.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
    */
-  constructor(key: Uint8Array, tagSize: number = 16) {
+  constructor(key: Uint8Array | ExpandedKey, tagSize: number = 16, options: AESOptions = {}) {
     if (tagSize < 8 || tagSize > 16) {
-      throw new Error("Tamaño de etiqueta/IV inválido (debe estar entre 8 y 16)")
+      throw new InvalidLengthError("Tamaño de etiqueta/IV inválido (debe estar entre 8 y 16)", { mode: this.name, parameter: "tagSize", expected: { min: 8, max: 16 }, actual: tagSize })
     }
-    this.aes = new AES(key)
+    this.aes = createAES(key, options)
     this.tagSize = tagSize
-    this.key = key
+    this.options = options
 
     // Precalcular valores L para la máxima eficiencia de PMAC
     this.L_star = this.aes.encrypt(new Uint8Array(16))
-    // this.L_dollar = this._double(this.L_star)
+    // this.L_dollar = doubleBE(this.L_star)
 
-    this.L_series = [this.L_star] // L_series[0] es L_0 = L_*
-    for (let i = 0; i < 64; i++) {
-      this.L_series.push(this._double(this.L_series[i]))
-    }
-  }
-
-  private _double(block: Uint8Array): Uint8Array<ArrayBuffer> {
-    const doubled = new Uint8Array(16)
-    const msbSet = (block[0] & 0x80) !== 0
-    for (let i = 0; i < 15; i++) {
-      doubled[i] = ((block[i] << 1) | (block[i + 1] >>> 7)) & 0xff
-    }
-    doubled[15] = (block[15] << 1) & 0xff
-    if (msbSet) {
-      doubled[15] ^= 0x87
-    }
-    return doubled
+    this.L_series = doublings(this.L_star, 65) // L_series[0] es L_0 = L_*
   }
 
   private _ntz(n: number): number {
@@ -113,7 +104,7 @@ export class ModeOfOperationPMAC_SIV {
     const numBlocks = Math.ceil(data.length / 16)
     if (numBlocks === 0) {
       // Manejar datos vacíos
-      offset = this._double(offset)
+      offset = doubleBE(offset)
       checksum = xor(checksum, this._pad(data))
     } else {
       for (let i = 1; i <= numBlocks; i++) {
@@ -136,6 +127,7 @@ export class ModeOfOperationPMAC_SIV {
    * @returns Un objeto con el `ciphertext` y el `iv_tag` (IV Sintético/Etiqueta).
    */
   encrypt(plaintext: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): { ciphertext: Uint8Array; iv_tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
     // 1. Calcular los PMACs de todos los componentes.
     const mac_nonce = this._pmac(nonce)
     const mac_aad = this._pmac(associatedData)
@@ -145,8 +137,9 @@ export class ModeOfOperationPMAC_SIV {
     const iv_tag = xor(xor(mac_nonce, mac_aad), mac_plaintext)
 
     // 3. Cifrar el texto plano usando CTR, inicializado con el IV sintético.
-    const ctr = new ModeOfOperationCTR(this.key, iv_tag)
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, iv_tag, this.options)
     const ciphertext = ctr.encrypt(plaintext)
+    ctr.dispose()
 
     return { ciphertext, iv_tag: iv_tag.subarray(0, this.tagSize) }
   }
@@ -160,6 +153,7 @@ export class ModeOfOperationPMAC_SIV {
    * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
    */
   decrypt(ciphertext: Uint8Array, iv_tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
     if (iv_tag.length !== this.tagSize) {
       return null
     }
@@ -169,8 +163,9 @@ export class ModeOfOperationPMAC_SIV {
     const full_iv_tag = new Uint8Array(16)
     full_iv_tag.set(iv_tag)
 
-    const ctr = new ModeOfOperationCTR(this.key, full_iv_tag)
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, full_iv_tag, this.options)
     const plaintext = ctr.decrypt(ciphertext)
+    ctr.dispose()
 
     // 2. Recalcular el IV/Tag esperado usando el texto plano descifrado.
     const mac_nonce = this._pmac(nonce)
@@ -191,4 +186,26 @@ export class ModeOfOperationPMAC_SIV {
 
     return plaintext
   }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, iv_tag: Uint8Array, nonce: Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en PMAC-SIV", () => this.decrypt(ciphertext, iv_tag, nonce, associatedData))
+  }
+
+  /**
+   * Borra los valores L precalculados y destruye el núcleo AES interno.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(...this.L_series)
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
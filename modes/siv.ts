@@ -0,0 +1,200 @@
+import { AESCore, AESOptions, createAES } from "../aes"
+import { assertNotDisposed } from "../dispose"
+import { DecryptResult, InvalidKeyLengthError, InvalidLengthError, toDecryptResult } from "../errors"
+import { ModeOfOperationCMAC } from "./cmac"
+import { ModeOfOperationCTR } from "./ctr"
+import { doubleBE } from "./utils/gf128"
+
+// RFC 5297 limita a 126 el número de componentes de datos asociados (S2V admite 127 cadenas contando el texto plano).
+const SIV_MAX_ASSOCIATED_DATA = 126
+
+/**
+ * S2V (RFC 5297, sección 2.4): PRF sobre un vector de cadenas construida con CMAC.
+ *
+ * Cada cadena se autentica por separado, de modo que `[a, b]` y `[a || b]` producen resultados distintos. La última
+ * cadena (en SIV, el texto plano) se combina con el acumulado mediante `xorend` si tiene al menos 16 bytes, o se
+ * rellena con `10*` en caso contrario.
+ *
+ * @param cmac Instancia CMAC con la clave de autenticación.
+ * @param strings Las cadenas a autenticar, en orden.
+ * @returns El valor de 16 bytes calculado.
+ */
+export function s2v(cmac: ModeOfOperationCMAC, strings: Uint8Array[]): Uint8Array {
+  if (strings.length === 0) {
+    const one = new Uint8Array(16)
+    one[15] = 0x01
+    return cmac.generateTag(one)
+  }
+
+  let D = cmac.generateTag(new Uint8Array(16))
+  for (let i = 0; i < strings.length - 1; i++) {
+    const mac = cmac.generateTag(strings[i])
+    D = doubleBE(D)
+    for (let j = 0; j < 16; j++) {
+      D[j] ^= mac[j]
+    }
+  }
+
+  const last = strings[strings.length - 1]
+  let T: Uint8Array
+  if (last.length >= 16) {
+    // T = Sn xorend D: el acumulado se combina con los últimos 16 bytes
+    T = new Uint8Array(last)
+    const offset = last.length - 16
+    for (let j = 0; j < 16; j++) {
+      T[offset + j] ^= D[j]
+    }
+  } else {
+    // T = dbl(D) xor pad(Sn)
+    T = doubleBE(D)
+    for (let j = 0; j < last.length; j++) {
+      T[j] ^= last[j]
+    }
+    T[last.length] ^= 0x80
+  }
+  return cmac.generateTag(T)
+}
+
+/**
+ * Implementación del modo de operación AES-SIV (Synthetic Initialization Vector), según RFC 5297.
+ *
+ * SIV es un modo de cifrado autenticado determinista: el vector sintético (la etiqueta) se calcula con S2V sobre los
+ * datos asociados y el texto plano, y se usa después como contador inicial de CTR. El mismo mensaje con los mismos
+ * datos asociados produce siempre el mismo resultado, lo que lo hace adecuado para envolver claves y para
+ * deduplicar datos cifrados.
+ *
+ * Características principales:
+ * - **Datos asociados vectoriales**: Acepta hasta 126 componentes, que se autentican por separado.
+ * - **Resistencia al mal uso de Nonce**: Repetir el nonce solo revela si dos mensajes son idénticos.
+ * - **Nonce opcional**: Para cifrado probabilístico, el nonce se pasa como último componente de los datos asociados.
+ * - **Interoperable**: Compatible con otras implementaciones de RFC 5297 (salida `V || C`).
+ *
+ * Proceso:
+ * 1. La clave se divide en dos mitades: K1 para S2V (CMAC) y K2 para CTR.
+ * 2. V = S2V(K1, AD1, ..., ADn, P) es la etiqueta de 16 bytes.
+ * 3. Se borran los bits 63 y 31 de V para obtener el contador inicial Q.
+ * 4. C = CTR(K2, Q, P). Para descifrar se recalcula V sobre el texto plano obtenido y se compara.
+ *
+ * @example
+ * ```typescript
+ * const key = new Uint8Array(32); // Clave de 256 bits (AES-SIV-CMAC-256: dos subclaves de 128 bits)
+ * const siv = new ModeOfOperationSIV(key);
+ * const header = new TextEncoder().encode("cabecera");
+ * const nonce = crypto.getRandomValues(new Uint8Array(16));
+ *
+ * const { ciphertext, tag } = siv.encrypt(plaintext, [header, nonce]);
+ * const decrypted = siv.decrypt(ciphertext, tag, [header, nonce]);
+ * ```
+ *
+ * @see [RFC 5297](https://datatracker.ietf.org/doc/html/rfc5297) para la especificación oficial de SIV.
+ */
+export class ModeOfOperationSIV {
+  public readonly description = "Synthetic Initialization Vector (RFC 5297)"
+  public readonly name = "siv"
+
+  private readonly cmac: ModeOfOperationCMAC
+  private readonly aes: AESCore
+  private readonly options: AESOptions
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
+
+  /**
+   * Inicializa el modo de operación SIV con una clave.
+   * @param key La clave, de 32, 48 o 64 bytes: la primera mitad es la clave de S2V y la segunda la de CTR.
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante).
+   */
+  constructor(key: Uint8Array, options: AESOptions = {}) {
+    if (key.length !== 32 && key.length !== 48 && key.length !== 64) {
+      throw new InvalidKeyLengthError("Tamaño de clave inválido para SIV (debe ser 32, 48 o 64 bytes)", { mode: this.name, expected: [32, 48, 64], actual: key.length })
+    }
+    const half = key.length / 2
+    this.cmac = new ModeOfOperationCMAC(key.subarray(0, half), options)
+    this.aes = createAES(key.subarray(half), options)
+    this.options = options
+  }
+
+  /**
+   * Cifra y autentica los datos usando SIV.
+   * @param plaintext El texto plano a cifrar.
+   * @param associatedData Componentes de datos asociados (como máximo 126). Si se usa nonce, debe ser el último.
+   * @returns Un objeto con el `ciphertext` y el `tag` (el vector sintético V, de 16 bytes).
+   */
+  encrypt(plaintext: Uint8Array, associatedData: Uint8Array[] = []): { ciphertext: Uint8Array; tag: Uint8Array } {
+    assertNotDisposed(this.disposed, this.name)
+    this._checkAssociatedData(associatedData)
+
+    const tag = s2v(this.cmac, [...associatedData, plaintext])
+    const ciphertext = this._ctr(tag, plaintext)
+    return { ciphertext, tag }
+  }
+
+  /**
+   * Descifra y verifica la autenticidad de los datos.
+   * @param ciphertext El texto cifrado.
+   * @param tag El vector sintético recibido (16 bytes).
+   * @param associatedData Los mismos componentes de datos asociados usados en el cifrado, en el mismo orden.
+   * @returns El texto plano si la autenticación es exitosa, o `null` si falla.
+   */
+  decrypt(ciphertext: Uint8Array, tag: Uint8Array, associatedData: Uint8Array[] = []): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
+    this._checkAssociatedData(associatedData)
+    if (tag.length !== 16) {
+      return null // Etiqueta de longitud inválida
+    }
+
+    const plaintext = this._ctr(tag, ciphertext)
+    const expectedTag = s2v(this.cmac, [...associatedData, plaintext])
+
+    // Comparación en tiempo constante para evitar ataques de temporización
+    let tagsMatch = 0
+    for (let i = 0; i < 16; i++) {
+      tagsMatch |= tag[i] ^ expectedTag[i]
+    }
+
+    if (tagsMatch !== 0) {
+      plaintext.fill(0) // No se entrega texto plano sin autenticar
+      return null // ¡Fallo de autenticación!
+    }
+    return plaintext
+  }
+
+  /**
+   * Igual que {@link decrypt}, pero devuelve un {@link DecryptResult} en lugar de `null` o una excepción: el texto
+   * plano en `plaintext`, o el motivo del fallo en `reason` (`AuthenticationError` si la etiqueta no coincide).
+   */
+  tryDecrypt(ciphertext: Uint8Array, tag: Uint8Array, associatedData: Uint8Array[] = []): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de autenticación en SIV", () => this.decrypt(ciphertext, tag, associatedData))
+  }
+
+  private _checkAssociatedData(associatedData: Uint8Array[]): void {
+    if (associatedData.length > SIV_MAX_ASSOCIATED_DATA) {
+      throw new InvalidLengthError("Demasiados componentes de datos asociados para SIV (como máximo 126)", { mode: this.name, parameter: "associatedData", expected: { max: SIV_MAX_ASSOCIATED_DATA }, actual: associatedData.length })
+    }
+  }
+
+  // CTR con Q = V & 1^64 0 1^31 0 1^31: se borran los bits más altos de las dos últimas palabras de 32 bits para que
+  // otras implementaciones puedan incrementar el contador con aritmética de 32 o 64 bits.
+  private _ctr(tag: Uint8Array, data: Uint8Array): Uint8Array {
+    const Q = new Uint8Array(tag)
+    Q[8] &= 0x7f
+    Q[12] &= 0x7f
+    const ctr = new ModeOfOperationCTR(this.aes.expandedKey, Q, this.options)
+    const result = ctr.encrypt(data)
+    ctr.dispose()
+    return result
+  }
+
+  /**
+   * Borra las subclaves de S2V y destruye los núcleos AES internos.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.cmac.dispose()
+    this.aes.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
+}
@@ -1,5 +1,43 @@
+import { AESOptions } from "../aes"
+import { assertNotDisposed } from "../dispose"
+import { DecryptResult, toDecryptResult } from "../errors"
+import { ExpandedKey } from "../key-schedule"
 import { ModeOfOperationKW } from "./kw"
 
+// ICV de KW que marca el formato v2 ("TKW2" seguido de A6A6A6A6); v1 usa el ICV estándar A6A6A6A6A6A6A6A6.
+const TKW_V2_ICV = new Uint8Array([0x54, 0x4b, 0x57, 0x32, 0xa6, 0xa6, 0xa6, 0xa6])
+
+/**
+ * Opciones del modo TKW. Además de las de {@link AESOptions}:
+ * - `format`: formato con el que `wrap()` envuelve las claves. Por defecto `2`; `1` solo tiene sentido mientras
+ *   haya lectores con versiones anteriores de la biblioteca, que no entienden v2.
+ * - `acceptV1`: si `unwrap()` acepta claves envueltas en formato v1. Por defecto `true`. En v1, tweaks que solo se
+ *   diferencian en ceros finales (`ab` y `ab\0`) son intercambiables; desactívelo cuando ya no queden claves v1.
+ */
+export interface TKWOptions extends AESOptions {
+  format?: 1 | 2
+  acceptV1?: boolean
+}
+
+/**
+ * Escribe `value` como entero de 32 bits big-endian en `target[offset..offset + 4)`.
+ * @private
+ */
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff
+  target[offset + 1] = (value >>> 16) & 0xff
+  target[offset + 2] = (value >>> 8) & 0xff
+  target[offset + 3] = value & 0xff
+}
+
+/**
+ * Lee un entero de 32 bits big-endian de `source[offset..offset + 4)`.
+ * @private
+ */
+function readUint32(source: Uint8Array, offset: number): number {
+  return ((source[offset] << 24) | (source[offset + 1] << 16) | (source[offset + 2] << 8) | source[offset + 3]) >>> 0
+}
+
 /**
  * Implementación del modo de operación AES-TKW (Tweakable Key Wrap).
  *
@@ -13,12 +51,16 @@ import { ModeOfOperationKW } from "./kw"
  * - **Basado en KW**: Utiliza el modo KW como primitiva subyacente.
  * - **Seguridad adicional**: Proporciona una capa adicional de verificación.
  *
- * Proceso:
- * 1. Se rellena el tweak a un múltiplo de 8 bytes.
+ * Proceso (formato v2):
+ * 1. Se codifica el tweak con su longitud como prefijo de 32 bits y se rellena con ceros a un múltiplo de 8 bytes.
  * 2. Se aplica el esquema de relleno de KWP a la clave.
- * 3. Se concatenan el tweak relleno y la clave rellenada.
- * 4. Se utiliza el algoritmo KW estándar sobre los datos concatenados.
- * 5. Para desenvolver, se verifica que el tweak coincida con el proporcionado.
+ * 3. Se concatenan el tweak codificado y la clave rellenada.
+ * 4. Se utiliza el algoritmo KW sobre los datos concatenados, con un ICV propio que marca el formato.
+ * 5. Para desenvolver, se verifican el ICV, el tweak completo (longitud incluida) y que los rellenos sean ceros.
+ *
+ * El formato v1 rellenaba el tweak sin codificar su longitud, de modo que `ab` y `ab\0` daban la misma clave envuelta
+ * y ambos la desenvolvían. `unwrap()` distingue los formatos por el ICV: prueba primero v2 y, si falla y se admite
+ * v1 (por defecto sí; se desactiva con `{ acceptV1: false }`), v1.
  *
  * @example
  * ```typescript
@@ -38,37 +80,131 @@ export class ModeOfOperationTKW {
   public readonly name = "tkw"
 
   private readonly kw: ModeOfOperationKW // Motor KW base
+  private readonly format: 1 | 2
+  private readonly acceptV1: boolean
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación TKW con una KEK (Key-Encrypting Key).
-   * @param key La KEK (Key-Encrypting Key), debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits).
+   * @param key La KEK (Key-Encrypting Key), debe ser de 16, 24 o 32 bytes (128, 192 o 256 bits), o su expansión (`ExpandedKey`).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ acceptV1: false }` para rechazar las claves envueltas en formato v1).
    */
-  constructor(key: Uint8Array) {
+  constructor(key: Uint8Array | ExpandedKey, options: TKWOptions = {}) {
     // La KEK se pasa al motor KW base.
-    this.kw = new ModeOfOperationKW(key)
+    this.kw = new ModeOfOperationKW(key, options)
+    this.format = options.format ?? 2
+    this.acceptV1 = options.acceptV1 !== false
+  }
+
+  /**
+   * Aplica el esquema de relleno de KWP a la clave: longitud de 32 bits, clave y ceros hasta un múltiplo de 8 bytes.
+   * @private
+   */
+  private _padKey(plaintextKey: Uint8Array): Uint8Array {
+    const plen = plaintextKey.length
+    const paddedPlaintext = new Uint8Array(Math.ceil((4 + plen) / 8) * 8)
+    writeUint32(paddedPlaintext, 0, plen)
+    paddedPlaintext.set(plaintextKey, 4)
+    return paddedPlaintext
+  }
+
+  /**
+   * Codifica el tweak de v2: longitud de 32 bits, tweak y ceros hasta un múltiplo de 8 bytes.
+   * @private
+   */
+  private _encodeTweakV2(tweak: Uint8Array): Uint8Array {
+    const encodedTweak = new Uint8Array(Math.ceil((4 + tweak.length) / 8) * 8)
+    writeUint32(encodedTweak, 0, tweak.length)
+    encodedTweak.set(tweak, 4)
+    return encodedTweak
   }
 
   /**
    * Envuelve (cifra) una clave simétrica, vinculándola a un tweak.
    * @param plaintextKey La clave de texto plano a envolver.
    * @param tweak Los metadatos públicos (tweak).
-   * @returns La clave envuelta (texto cifrado).
+   * @returns La clave envuelta (texto cifrado), en el formato elegido en el constructor (v2 por defecto).
    */
   wrap(plaintextKey: Uint8Array, tweak: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
+    if (this.format === 1) {
+      return this._wrapV1(plaintextKey, tweak)
+    }
+
+    const encodedTweak = this._encodeTweakV2(tweak)
+    const paddedPlaintext = this._padKey(plaintextKey)
+
+    const dataToWrap = new Uint8Array(encodedTweak.length + paddedPlaintext.length)
+    dataToWrap.set(encodedTweak)
+    dataToWrap.set(paddedPlaintext, encodedTweak.length)
+
+    return this.kw.wrap(dataToWrap, TKW_V2_ICV)
+  }
+
+  /**
+   * Desenvuelve (descifra) una clave simétrica, verificando el tweak. Detecta el formato (v1 o v2) por el ICV.
+   * @param wrappedKey La clave envuelta (texto cifrado).
+   * @param tweak El mismo tweak usado durante la envoltura.
+   * @returns La clave de texto plano si la verificación es exitosa, o `null` si falla.
+   */
+  unwrap(wrappedKey: Uint8Array, tweak: Uint8Array): Uint8Array | null {
+    assertNotDisposed(this.disposed, this.name)
+    const unwrappedData = this.kw.unwrap(wrappedKey, TKW_V2_ICV)
+    if (unwrappedData !== null) {
+      return this._checkV2(unwrappedData, tweak)
+    }
+    return this.acceptV1 ? this._unwrapV1(wrappedKey, tweak) : null
+  }
+
+  /**
+   * Comprueba el tweak codificado y el relleno de un bloque v2 ya desenvuelto y devuelve la clave.
+   * @private
+   */
+  private _checkV2(unwrappedData: Uint8Array, tweak: Uint8Array): Uint8Array | null {
+    // 1. Comparar el tweak codificado (longitud, tweak y relleno) en tiempo constante.
+    const encodedTweak = this._encodeTweakV2(tweak)
+    if (unwrappedData.length < encodedTweak.length + 8) {
+      return null // Debe caber el tweak y al menos un semibloque con la longitud de la clave.
+    }
+    let tweaksMatch = 0
+    for (let i = 0; i < encodedTweak.length; i++) {
+      tweaksMatch |= unwrappedData[i] ^ encodedTweak[i]
+    }
+    if (tweaksMatch !== 0) {
+      return null // ¡El tweak no coincide! Falla la verificación.
+    }
+
+    // 2. Procesar el resto como en KWP, exigiendo que el relleno sea de ceros.
+    const paddedPlaintext = unwrappedData.subarray(encodedTweak.length)
+    const plen = readUint32(paddedPlaintext, 0)
+    if (Math.ceil((4 + plen) / 8) * 8 !== paddedPlaintext.length) {
+      return null // Relleno inválido.
+    }
+    let padding = 0
+    for (let i = 4 + plen; i < paddedPlaintext.length; i++) {
+      padding |= paddedPlaintext[i]
+    }
+    if (padding !== 0) {
+      return null // Relleno inválido.
+    }
+
+    return paddedPlaintext.subarray(4, 4 + plen)
+  }
+
+  /**
+   * Envuelve una clave en formato v1: tweak rellenado con ceros sin longitud y el ICV estándar de KW.
+   * @private
+   */
+  private _wrapV1(plaintextKey: Uint8Array, tweak: Uint8Array): Uint8Array {
     // 1. Rellenar el tweak a un múltiplo de 8 bytes.
     const paddedTweakSize = Math.ceil(tweak.length / 8) * 8
     const paddedTweak = new Uint8Array(paddedTweakSize)
     paddedTweak.set(tweak)
 
     // 2. Rellenar la clave de texto plano usando la lógica de KWP.
-    const plen = plaintextKey.length
-    const paddedPlaintextSize = Math.ceil((4 + plen) / 8) * 8
-    const paddedPlaintext = new Uint8Array(paddedPlaintextSize)
-    paddedPlaintext[0] = (plen >>> 24) & 0xff
-    paddedPlaintext[1] = (plen >>> 16) & 0xff
-    paddedPlaintext[2] = (plen >>> 8) & 0xff
-    paddedPlaintext[3] = plen & 0xff
-    paddedPlaintext.set(plaintextKey, 4)
+    const paddedPlaintext = this._padKey(plaintextKey)
 
     // 3. Concatenar los bloques rellenados.
     const dataToWrap = new Uint8Array(paddedTweak.length + paddedPlaintext.length)
@@ -80,12 +216,10 @@ export class ModeOfOperationTKW {
   }
 
   /**
-   * Desenvuelve (descifra) una clave simétrica, verificando el tweak.
-   * @param wrappedKey La clave envuelta (texto cifrado).
-   * @param tweak El mismo tweak usado durante la envoltura.
-   * @returns La clave de texto plano si la verificación es exitosa, o `null` si falla.
+   * Desenvuelve una clave en formato v1.
+   * @private
    */
-  unwrap(wrappedKey: Uint8Array, tweak: Uint8Array): Uint8Array | null {
+  private _unwrapV1(wrappedKey: Uint8Array, tweak: Uint8Array): Uint8Array | null {
     // 1. Usar el algoritmo KW estándar para desenvolver los datos.
     const unwrappedData = this.kw.unwrap(wrappedKey)
     if (unwrappedData === null) {
@@ -124,4 +258,25 @@ export class ModeOfOperationTKW {
 
     return paddedPlaintext.subarray(4, 4 + plen)
   }
+
+  /**
+   * Desenvuelve la clave igual que {@link unwrap}, pero devuelve un {@link DecryptResult}: la clave en `plaintext`,
+   * o el motivo del fallo en `reason` si la comprobación de integridad o la longitud de la entrada no son válidas.
+   */
+  tryDecrypt(wrappedKey: Uint8Array, tweak: Uint8Array): DecryptResult {
+    return toDecryptResult(this.name, "Fallo de integridad al desenvolver la clave en TKW", () => this.unwrap(wrappedKey, tweak))
+  }
+
+  /**
+   * Destruye la instancia KW interna, borrando la KEK.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    this.kw.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
+  }
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { AESOptions } from "../../aes"
+import { InvalidParameterError } from "../../errors"
+
+/**
+ * Opciones de los modos FPE. Además de las de {@link AESOptions}:
+ * - `segmentation`: unidad de los símbolos del alfabeto y del texto. `"code-point"` (por defecto) trata cada punto de
+ *   código como un símbolo, de modo que los caracteres astrales (emoji, CJK extensión B) cuentan como uno solo.
+ *   `"grapheme"` usa grupos de grafemas extendidos (`Intl.Segmenter`), para alfabetos con secuencias como "👍🏽" o "é"
+ *   formada por "e" y un acento combinante.
+ * - `normalization`: forma Unicode con la que se normalizan el alfabeto y cada texto antes de dividirlos, para que
+ *   "é" precompuesta y "e" + acento combinante sean el mismo símbolo. Sin ella, el texto se usa tal cual.
+ */
+export interface FPEOptions extends AESOptions {
+  segmentation?: "code-point" | "grapheme"
+  normalization?: "NFC" | "NFD" | "NFKC" | "NFKD"
+}
+
+/**
+ * Divide un texto en símbolos según las opciones de segmentación y normalización.
+ * @private
+ */
+export function splitSymbols(text: string, options: FPEOptions = {}): string[] {
+  const normalized = options.normalization ? text.normalize(options.normalization) : text
+  if (options.segmentation === "grapheme") {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(normalized), part => part.segment)
+  }
+  return Array.from(normalized)
+}
+
+/**
+ * Divide el alfabeto en símbolos y comprueba que su tamaño es válido y que no contiene símbolos repetidos.
+ * @param alphabet El alfabeto, como texto.
+ * @param options Opciones de segmentación y normalización.
+ * @param mode Nombre del modo, para los errores.
+ * @returns Los símbolos del alfabeto, en orden.
+ * @throws InvalidParameterError si el alfabeto tiene menos de 2 o más de 65536 símbolos, o algún símbolo repetido.
+ * @private
+ */
+export function parseAlphabet(alphabet: string, options: FPEOptions, mode: string): string[] {
+  const symbols = splitSymbols(alphabet, options)
+  if (symbols.length < 2 || symbols.length > 2 ** 16) {
+    throw new InvalidParameterError("El tamaño del alfabeto (radix) debe estar entre 2 y 65536.", { mode, parameter: "alphabet" })
+  }
+  const seen = new Set<string>()
+  for (const symbol of symbols) {
+    if (seen.has(symbol)) {
+      throw new InvalidParameterError(`El alfabeto contiene el símbolo '${symbol}' más de una vez.`, { mode, parameter: "alphabet" })
+    }
+    seen.add(symbol)
+  }
+  return symbols
+}
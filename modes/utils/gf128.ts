@@ -0,0 +1,349 @@
+import { wipe } from "../../dispose"
+
+/**
+ * Tamaño en bits de los trozos de las tablas de multiplicación: 8 bits (256 entradas, 4 KiB por clave) o 4 bits
+ * (16 entradas, 256 bytes por clave y el doble de pasos por bloque). Con 0 no se precalcula ninguna tabla: cada bloque
+ * se multiplica bit a bit en tiempo constante, varias veces más despacio.
+ */
+export type GF128TableBits = 0 | 4 | 8
+
+/**
+ * Orden de bits de un {@link GF128Hash}: `"ghash"` para GHASH (NIST SP 800-38D) o `"polyval"` para POLYVAL (RFC 8452).
+ */
+export type GF128Order = "ghash" | "polyval"
+
+// Multiplica por x el elemento (w0, w1, w2, w3) de GF(2^128), en el orden de bits de GHASH: desplazamiento de un bit
+// a la derecha y reducción con R = 0xe1 || 0^120.
+function mulXWords(w: Uint32Array, offset: number): void {
+  const lsb = w[offset + 3] & 1
+  w[offset + 3] = (w[offset + 3] >>> 1) | (w[offset + 2] << 31)
+  w[offset + 2] = (w[offset + 2] >>> 1) | (w[offset + 1] << 31)
+  w[offset + 1] = (w[offset + 1] >>> 1) | (w[offset] << 31)
+  w[offset] = (w[offset] >>> 1) ^ (lsb ? 0xe1000000 : 0)
+}
+
+function reductionTable(bits: number): Uint32Array {
+  const table = new Uint32Array(1 << bits)
+  const w = new Uint32Array(4)
+  for (let r = 0; r < table.length; r++) {
+    w.fill(0)
+    w[3] = r
+    for (let i = 0; i < bits; i++) {
+      mulXWords(w, 0)
+    }
+    // Los bits de r ya han salido y la reducción, desplazada como mucho 7 bits, solo alcanza la primera palabra
+    table[r] = w[0]
+  }
+  return table
+}
+
+/**
+ * Tablas de reducción de Shoup, independientes de la clave: `REDUCTION[bits][r]` es la palabra alta que se combina con
+ * Z al desplazarlo `bits` posiciones (Z·x^bits) cuando los bits que salen por la derecha valen r. Se calculan una vez.
+ */
+const REDUCTION: Record<4 | 8, Uint32Array> = { 4: reductionTable(4), 8: reductionTable(8) }
+
+/**
+ * `mulX_GHASH` de RFC 8452 (apéndice A): multiplica un bloque por x en el orden de bits de GHASH.
+ * `out` puede ser el propio `block`.
+ */
+export function mulXGHash(block: Uint8Array, out: Uint8Array<ArrayBuffer> = new Uint8Array(16)): Uint8Array<ArrayBuffer> {
+  const lsb = block[15] & 1
+  for (let i = 15; i > 0; i--) {
+    out[i] = (block[i] >>> 1) | ((block[i - 1] & 1) << 7)
+  }
+  out[0] = block[0] >>> 1
+  if (lsb) {
+    out[0] ^= 0xe1
+  }
+  return out
+}
+
+/**
+ * Duplica un bloque big-endian (el byte 0 es el más significativo) con el polinomio x^128 + x^7 + x^2 + x + 1: la
+ * operación `dbl` de CMAC, EAX, SIV, OCB y PMAC. `out` puede ser el propio `block`.
+ */
+export function doubleBE(block: Uint8Array, out: Uint8Array<ArrayBuffer> = new Uint8Array(16)): Uint8Array<ArrayBuffer> {
+  const msbSet = (block[0] & 0x80) !== 0
+  for (let i = 0; i < 15; i++) {
+    out[i] = ((block[i] << 1) | (block[i + 1] >>> 7)) & 0xff
+  }
+  out[15] = (block[15] << 1) & 0xff
+  if (msbSet) {
+    out[15] ^= 0x87
+  }
+  return out
+}
+
+/**
+ * Duplica un bloque little-endian (el byte 0 es el menos significativo), con el mismo polinomio que {@link doubleBE}:
+ * la multiplicación por α de los tweaks de XTS (IEEE 1619). `out` puede ser el propio `block`.
+ */
+export function doubleLE(block: Uint8Array, out: Uint8Array<ArrayBuffer> = new Uint8Array(16)): Uint8Array<ArrayBuffer> {
+  const msbSet = (block[15] & 0x80) !== 0
+  for (let i = 15; i > 0; i--) {
+    out[i] = ((block[i] << 1) | (block[i - 1] >>> 7)) & 0xff
+  }
+  out[0] = (block[0] << 1) & 0xff
+  if (msbSet) {
+    out[0] ^= 0x87
+  }
+  return out
+}
+
+/**
+ * Tabla de potencias de 2 de un bloque: `[L, L·2, L·2^2, ..., L·2^(count − 1)]`, con {@link doubleBE}. Son los valores
+ * L_i de los offsets de OCB y PMAC, que se precalculan por clave.
+ */
+export function doublings(L: Uint8Array, count: number): Uint8Array<ArrayBuffer>[] {
+  const table = [new Uint8Array(L)]
+  for (let i = 1; i < count; i++) {
+    table.push(doubleBE(table[i - 1]))
+  }
+  return table
+}
+
+/**
+ * Bloque de longitudes que cierra GHASH y POLYVAL: las longitudes de las dos secciones en bits, en 64 bits cada una,
+ * big-endian (GCM) o little-endian (POLYVAL y los hashes heredados).
+ */
+export function lengthBlock(firstLength: number, secondLength: number, littleEndian: boolean = false): Uint8Array {
+  const block = new Uint8Array(16)
+  const view = new DataView(block.buffer)
+  // Usamos división en lugar de >> porque los desplazamientos de 32 bits o más dan la vuelta en JavaScript.
+  const lengths = [firstLength, secondLength]
+  for (let i = 0; i < 2; i++) {
+    const high = Math.floor(lengths[i] / 2 ** 29)
+    const low = (lengths[i] * 8) >>> 0
+    view.setUint32(i * 8 + (littleEndian ? 4 : 0), high, littleEndian)
+    view.setUint32(i * 8 + (littleEndian ? 0 : 4), low, littleEndian)
+  }
+  return block
+}
+
+/**
+ * Hash universal en GF(2^128), GHASH o POLYVAL, con tablas de Shoup precalculadas a partir de la clave H.
+ *
+ * La tabla guarda H·p para cada polinomio p de `bits` bits, en palabras de 32 bits. Multiplicar Y·H se reduce entonces
+ * a recorrer Y en trozos de `bits` bits, del último al primero, con la regla de Horner: Z = Z·x^bits ⊕ T[trozo], donde
+ * Z·x^bits es un desplazamiento más una consulta a la tabla de reducción. Con 8 bits son 16 pasos por bloque en lugar
+ * de los 128 de la multiplicación bit a bit.
+ *
+ * POLYVAL no tiene multiplicación propia: por RFC 8452 (apéndice A), POLYVAL(H, X_1, ..., X_n) es
+ * ByteReverse(GHASH(mulX_GHASH(ByteReverse(H)), ByteReverse(X_1), ..., ByteReverse(X_n))). Las tablas se construyen
+ * con la clave convertida y los bloques se leen con los bytes invertidos, sin copiarlos.
+ *
+ * El acumulador admite los datos en trozos de cualquier tamaño: los bytes de un bloque incompleto esperan en `pending`
+ * hasta completarlo o hasta cerrar la sección con `flush()`, que lo rellena con ceros. Todo el estado se reutiliza
+ * entre mensajes con `reset()`, sin reservar memoria por bloque.
+ *
+ * Las consultas a las tablas dependen de H, igual que las del núcleo AES de tablas dependen de la clave, y pueden
+ * filtrarse por temporización de caché. La tabla de 4 bits ocupa menos líneas de caché, pero tampoco es de tiempo
+ * constante. Con `bits` = 0 no hay tablas: la multiplicación recorre los 128 bits de Y y combina H·x^i con máscaras,
+ * sin saltos ni accesos a memoria que dependan de H o de los datos.
+ * @private
+ */
+export class GF128Hash {
+  private readonly bits: GF128TableBits
+  private readonly reversed: boolean
+  // Con `bits` = 0, solo la clave (convertida, en POLYVAL) en cuatro palabras big-endian.
+  private readonly table: Uint32Array
+  // Acumulador Y, en palabras big-endian y en el orden de GHASH.
+  private readonly state = new Uint32Array(4)
+  private readonly pending = new Uint8Array(16)
+  private pendingLength = 0
+
+  /**
+   * @param H La clave de hash, de 16 bytes.
+   * @param order El orden de bits: `"ghash"` o `"polyval"`.
+   * @param bits El tamaño de los trozos de la tabla, 8 (por defecto) o 4 bits, o 0 para multiplicar sin tablas.
+   */
+  constructor(H: Uint8Array, order: GF128Order, bits: GF128TableBits = 8) {
+    this.bits = bits
+    this.reversed = order === "polyval"
+    const size = 1 << bits
+    const table = new Uint32Array(size * 4)
+
+    // El bit más significativo del trozo es x^0: T[size/2] = H, T[size/4] = H·x, ..., T[1] = H·x^(bits − 1)
+    const top = (size >>> 1) * 4
+    // En POLYVAL, la clave convertida mulX_GHASH(ByteReverse(H))
+    let key: Uint8Array = H
+    if (this.reversed) {
+      const reversedH = H.slice().reverse()
+      key = mulXGHash(reversedH, reversedH)
+    }
+    for (let j = 0; j < 4; j++) {
+      table[top + j] = (key[j * 4] << 24) | (key[j * 4 + 1] << 16) | (key[j * 4 + 2] << 8) | key[j * 4 + 3]
+    }
+    if (key !== H) {
+      wipe(key)
+    }
+    for (let i = size >>> 2; i >= 1; i >>>= 1) {
+      table.copyWithin(i * 4, i * 8, i * 8 + 4)
+      mulXWords(table, i * 4)
+    }
+    // El resto, por linealidad: T[a ⊕ b] = T[a] ⊕ T[b]
+    for (let i = 3; i < size; i++) {
+      const low = i & -i
+      if (low !== i) {
+        for (let j = 0; j < 4; j++) {
+          table[i * 4 + j] = table[low * 4 + j] ^ table[(i ^ low) * 4 + j]
+        }
+      }
+    }
+    this.table = table
+  }
+
+  /**
+   * Vacía el acumulador para empezar otro mensaje.
+   */
+  reset(): void {
+    this.state.fill(0)
+    this.pending.fill(0)
+    this.pendingLength = 0
+  }
+
+  /**
+   * Añade datos a la sección en curso (p. ej. datos asociados o texto cifrado).
+   */
+  update(data: Uint8Array): void {
+    let i = 0
+    // 1. Completar el bloque pendiente de la llamada anterior.
+    if (this.pendingLength > 0) {
+      while (i < data.length && this.pendingLength < 16) {
+        this.pending[this.pendingLength++] = data[i++]
+      }
+      if (this.pendingLength < 16) {
+        return
+      }
+      this.absorb(this.pending, 0)
+      this.pendingLength = 0
+    }
+
+    // 2. Bloques completos, directamente desde la entrada.
+    for (; data.length - i >= 16; i += 16) {
+      this.absorb(data, i)
+    }
+
+    // 3. Bloque final parcial: queda pendiente hasta la siguiente llamada o `flush()`.
+    while (i < data.length) {
+      this.pending[this.pendingLength++] = data[i++]
+    }
+  }
+
+  /**
+   * Cierra la sección en curso, rellenando con ceros su último bloque si está incompleto.
+   */
+  flush(): void {
+    if (this.pendingLength > 0) {
+      this.pending.fill(0, this.pendingLength)
+      this.absorb(this.pending, 0)
+      this.pendingLength = 0
+    }
+  }
+
+  /**
+   * Cierra la última sección, procesa el bloque de longitudes y devuelve el resultado del hash.
+   * @param lengths El bloque final de longitudes (ver {@link lengthBlock}).
+   */
+  digest(lengths: Uint8Array): Uint8Array {
+    this.flush()
+    this.absorb(lengths, 0)
+
+    const state = this.state
+    const result = new Uint8Array(16)
+    for (let i = 0; i < 16; i++) {
+      result[this.reversed ? 15 - i : i] = state[i >>> 2] >>> (24 - 8 * (i & 3))
+    }
+    return result
+  }
+
+  /**
+   * Borra la tabla y el estado acumulado.
+   */
+  clear(): void {
+    wipe(this.table, this.state, this.pending)
+    this.pendingLength = 0
+  }
+
+  // Y = (Y ⊕ bloque) · H. En POLYVAL, el bloque se lee con los bytes invertidos.
+  private absorb(block: Uint8Array, offset: number): void {
+    const state = this.state
+    if (this.reversed) {
+      for (let j = 0; j < 4; j++) {
+        const k = offset + 15 - j * 4
+        state[j] ^= (block[k] << 24) | (block[k - 1] << 16) | (block[k - 2] << 8) | block[k - 3]
+      }
+    } else {
+      for (let j = 0; j < 4; j++) {
+        const k = offset + j * 4
+        state[j] ^= (block[k] << 24) | (block[k + 1] << 16) | (block[k + 2] << 8) | block[k + 3]
+      }
+    }
+    this.multiply()
+  }
+
+  // Y = Y · H con la regla de Horner sobre los trozos de Y, del último al primero.
+  private multiply(): void {
+    if (this.bits === 0) {
+      this.multiplyConstantTime()
+      return
+    }
+    const state = this.state
+    const table = this.table
+    const bits = this.bits
+    const mask = (1 << bits) - 1
+    const reduction = REDUCTION[bits]
+    let z0 = 0, z1 = 0, z2 = 0, z3 = 0
+
+    for (let position = 128 - bits; position >= 0; position -= bits) {
+      // Z = Z · x^bits (en el primer paso Z es cero y no hace falta)
+      if (position !== 128 - bits) {
+        const r = z3 & mask
+        z3 = (z3 >>> bits) | (z2 << (32 - bits))
+        z2 = (z2 >>> bits) | (z1 << (32 - bits))
+        z1 = (z1 >>> bits) | (z0 << (32 - bits))
+        z0 = (z0 >>> bits) ^ reduction[r]
+      }
+      // Z ^= T[trozo], con el trozo que empieza en el bit `position` (contando desde el más significativo)
+      const t = ((state[position >>> 5] >>> (32 - bits - (position & 31))) & mask) * 4
+      z0 ^= table[t]
+      z1 ^= table[t + 1]
+      z2 ^= table[t + 2]
+      z3 ^= table[t + 3]
+    }
+
+    state[0] = z0
+    state[1] = z1
+    state[2] = z2
+    state[3] = z3
+  }
+
+  // Y = Y · H sin tablas: por cada bit i de Y, del primero al último, Z ^= V si el bit vale 1 y después V = V·x,
+  // empezando con V = H. La selección y la reducción de V·x usan máscaras de 0 o 32 unos en lugar de saltos.
+  private multiplyConstantTime(): void {
+    const state = this.state
+    const h = this.table
+    let v0 = h[0], v1 = h[1], v2 = h[2], v3 = h[3]
+    let z0 = 0, z1 = 0, z2 = 0, z3 = 0
+
+    for (let i = 0; i < 128; i++) {
+      const bit = -((state[i >>> 5] >>> (31 - (i & 31))) & 1)
+      z0 ^= v0 & bit
+      z1 ^= v1 & bit
+      z2 ^= v2 & bit
+      z3 ^= v3 & bit
+
+      const lsb = -(v3 & 1)
+      v3 = (v3 >>> 1) | (v2 << 31)
+      v2 = (v2 >>> 1) | (v1 << 31)
+      v1 = (v1 >>> 1) | (v0 << 31)
+      v0 = (v0 >>> 1) ^ (0xe1000000 & lsb)
+    }
+
+    state[0] = z0
+    state[1] = z1
+    state[2] = z2
+    state[3] = z3
+  }
+}
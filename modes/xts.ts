@@ -1,6 +1,25 @@
-import { AES } from "../aes"
+import { AESCore, AESOptions, createAES } from "../aes"
+import { NativeCrypto, resolveNativeBackend, runNativeCipher } from "../backend"
+import { assertNotDisposed, wipe } from "../dispose"
+import { InvalidKeyLengthError, InvalidLengthError, InvalidNonceError } from "../errors"
+import { doubleBE, doubleLE } from "./utils/gf128"
 import { xor } from "./utils/xor"
 
+// Número de bloques que se cifran juntos en cada llamada a `encryptBlocks`.
+const XTS_BATCH_BLOCKS = 64
+
+/**
+ * Opciones del modo XTS. Además de las de {@link AESOptions}:
+ * - `legacyFormat`: usa el formato de versiones anteriores de esta biblioteca, que duplicaba el tweak como un
+ *   entero big-endian en lugar del orden little-endian de IEEE 1619, intercambiaba los dos últimos bloques cuando
+ *   los datos eran múltiplo de 16 bytes y aplicaba los tweaks del robo de texto cifrado en otro orden. Solo el
+ *   primer bloque coincide con IEEE 1619. Solo debe activarse para descifrar datos antiguos y volver a cifrarlos
+ *   sin esta opción.
+ */
+export interface XTSOptions extends AESOptions {
+  legacyFormat?: boolean
+}
+
 /**
  * Implementación del modo de operación AES-XTS (XEX-based tweaked-codebook mode with ciphertext stealing).
  *
@@ -18,6 +37,10 @@ import { xor } from "./utils/xor"
  * 2. Cada bloque se cifra usando el tweak correspondiente a su posición.
  * 3. Se utiliza "ciphertext stealing" para manejar datos que no son múltiplos del tamaño de bloque.
  *
+ * Las versiones anteriores de esta biblioteca no seguían IEEE 1619 a partir del segundo bloque: para descifrar
+ * los datos que cifraron, use la opción `legacyFormat` (o `AesMode.XTS_LEGACY` en `HighLevelAES`). XTS no
+ * autentica, así que descifrar con el formato equivocado no falla: devuelve datos incorrectos.
+ *
  * @example
  * ```typescript
  * const key = new Uint8Array(64); // Clave de 512 bits (256 bits por cada subclave)
@@ -36,54 +59,201 @@ export class ModeOfOperationXTS {
   public readonly description = "XTS (for Block Storage)"
   public readonly name = "xts"
 
-  private readonly aes1: AES
-  private readonly aes2: AES
+  private readonly aes1: AESCore
+  private readonly aes2: AESCore
+  private readonly legacyFormat: boolean
+
+  private readonly key: Uint8Array
+  // Backend nativo (node:crypto) si está disponible y permitido por las opciones; null para el camino puro.
+  // OpenSSL rechaza claves cuyas dos mitades son iguales, que quedan siempre en el camino puro, igual que el
+  // formato heredado.
+  private readonly native: NativeCrypto | null
+  private readonly nativeAlgorithm: string
+  // Se activa con `dispose()`; a partir de entonces cualquier operación lanza un error.
+  private disposed = false
 
   /**
    * Inicializa el modo de operación XTS con una clave maestra.
    * @param key La clave maestra, que debe ser de 32 bytes (2x128 bits) o 64 bytes (2x256 bits).
+   * @param options Opciones de construcción (p. ej. `{ core: "constant-time" }` para usar el núcleo AES de tiempo constante,
+   *   o `{ legacyFormat: true }` para descifrar datos de versiones anteriores).
    */
-  constructor(key: Uint8Array) {
+  constructor(key: Uint8Array, options: XTSOptions = {}) {
     if (key.length !== 32 && key.length !== 64) {
-      throw new Error("Tamaño de clave inválido para XTS (debe ser 32 o 64 bytes)")
+      throw new InvalidKeyLengthError("Tamaño de clave inválido para XTS (debe ser 32 o 64 bytes)", { mode: this.name, expected: [32, 64], actual: key.length })
     }
     const keyLen = key.length / 2
-    this.aes1 = new AES(key.subarray(0, keyLen))
-    this.aes2 = new AES(key.subarray(keyLen))
-  }
+    this.aes1 = createAES(key.subarray(0, keyLen), options)
+    this.aes2 = createAES(key.subarray(keyLen), options)
+    this.legacyFormat = options.legacyFormat === true
 
-  private _double(block: Uint8Array): Uint8Array<ArrayBuffer> {
-    const doubled = new Uint8Array(16)
-    const msbSet = (block[0] & 0x80) !== 0
-    for (let i = 0; i < 15; i++) {
-      doubled[i] = ((block[i] << 1) | (block[i + 1] >>> 7)) & 0xff
+    let halvesDiffer = 0
+    for (let i = 0; i < keyLen; i++) {
+      halvesDiffer |= key[i] ^ key[keyLen + i]
     }
-    doubled[15] = (block[15] << 1) & 0xff
-    if (msbSet) {
-      doubled[15] ^= 0x87
+    this.key = new Uint8Array(key)
+    this.nativeAlgorithm = `aes-${keyLen * 8}-xts`
+    this.native = resolveNativeBackend(options, halvesDiffer !== 0 && !this.legacyFormat ? this.nativeAlgorithm : null)
+  }
+
+  /**
+   * Multiplica el tweak por α en GF(2^128) con el orden de bytes little-endian de IEEE 1619
+   * (el byte 0 es el menos significativo); el formato heredado lo trataba como big-endian.
+   * `out` puede ser el propio `block` para actualizar el tweak en el sitio.
+   */
+  private _double(block: Uint8Array, out: Uint8Array<ArrayBuffer> = new Uint8Array(16)): Uint8Array<ArrayBuffer> {
+    return this.legacyFormat ? doubleBE(block, out) : doubleLE(block, out)
+  }
+
+  /**
+   * Procesa los primeros `blockCount` bloques completos por lotes: enmascara cada bloque con su tweak,
+   * cifra (o descifra) el lote entero con `encryptBlocks` y vuelve a aplicar los tweaks.
+   * Al terminar, `tweak` contiene el tweak del siguiente bloque.
+   */
+  private _processBlocks(input: Uint8Array, output: Uint8Array, blockCount: number, tweak: Uint8Array<ArrayBuffer>, encrypt: boolean): void {
+    if (blockCount <= 0) return
+    const tweaks = new Uint8Array(Math.min(blockCount, XTS_BATCH_BLOCKS) * 16)
+
+    for (let start = 0; start < blockCount; start += XTS_BATCH_BLOCKS) {
+      const count = Math.min(XTS_BATCH_BLOCKS, blockCount - start)
+      const base = start * 16
+      const byteCount = count * 16
+
+      for (let offset = 0; offset < byteCount; offset += 16) {
+        for (let j = 0; j < 16; j++) {
+          tweaks[offset + j] = tweak[j]
+          output[base + offset + j] = input[base + offset + j] ^ tweak[j]
+        }
+        this._double(tweak, tweak)
+      }
+
+      const chunk = output.subarray(base, base + byteCount)
+      if (encrypt) {
+        this.aes1.encryptBlocks(chunk, chunk, count)
+      } else {
+        this.aes1.decryptBlocks(chunk, chunk, count)
+      }
+
+      for (let j = 0; j < byteCount; j++) {
+        output[base + j] ^= tweaks[j]
+      }
     }
-    return doubled
+  }
+
+  /**
+   * Cifra (o descifra) un único bloque con el tweak indicado: E(K1, P ^ T) ^ T.
+   */
+  private _processBlock(block: Uint8Array, tweak: Uint8Array, encrypt: boolean): Uint8Array {
+    const masked = xor(block, tweak)
+    return xor(encrypt ? this.aes1.encrypt(masked) : this.aes1.decrypt(masked), tweak)
   }
 
   encrypt(plaintext: Uint8Array, tweak: Uint8Array): Uint8Array {
-    if (plaintext.length < 16) throw new Error("Los datos para XTS deben ser >= 16 bytes.")
-    if (tweak.length !== 16) throw new Error("El tweak para XTS debe ser de 16 bytes.")
+    assertNotDisposed(this.disposed, this.name)
+    if (plaintext.length < 16) throw new InvalidLengthError("Los datos para XTS deben ser >= 16 bytes.", { mode: this.name, parameter: "plaintext", expected: { min: 16 }, actual: plaintext.length })
+    if (tweak.length !== 16) throw new InvalidNonceError("El tweak para XTS debe ser de 16 bytes.", { mode: this.name, parameter: "tweak", expected: [16], actual: tweak.length })
+
+    if (this.native) {
+      return runNativeCipher(this.native.createCipheriv(this.nativeAlgorithm, this.key, tweak), plaintext)
+    }
+    if (this.legacyFormat) {
+      return this._encryptLegacy(plaintext, tweak)
+    }
 
     const ciphertext = new Uint8Array(plaintext.length)
-    let currentTweak = this.aes2.encrypt(tweak)
+    const currentTweak = this.aes2.encrypt(tweak)
+
+    const numBlocks = Math.floor(plaintext.length / 16)
+    const finalBlockSize = plaintext.length % 16
+
+    // Procesar todos los bloques completos excepto el implicado en el robo de texto cifrado (CTS)
+    const iterationLimit = finalBlockSize === 0 ? numBlocks : numBlocks - 1
+    this._processBlocks(plaintext, ciphertext, iterationLimit, currentTweak, true)
+
+    if (finalBlockSize !== 0) {
+      // Hay un bloque parcial al final: se cifra el último bloque completo y se "roba"
+      // la cola de su texto cifrado para completar el bloque parcial.
+      const penultimateBlockP = plaintext.subarray((numBlocks - 1) * 16, numBlocks * 16)
+      const finalPartialBlockP = plaintext.subarray(numBlocks * 16)
+
+      const tweak_m_minus_1 = currentTweak
+      const tweak_m = doubleLE(tweak_m_minus_1)
+
+      const preCiphertext = this._processBlock(penultimateBlockP, tweak_m_minus_1, true)
+
+      // El bloque final del texto cifrado es el inicio del pre-texto cifrado
+      ciphertext.set(preCiphertext.subarray(0, finalBlockSize), numBlocks * 16)
+
+      // Construir el bloque para el penúltimo texto cifrado usando los datos robados
+      const blockForPenultimateC = new Uint8Array(16)
+      blockForPenultimateC.set(finalPartialBlockP)
+      blockForPenultimateC.set(preCiphertext.subarray(finalBlockSize), finalBlockSize)
+
+      ciphertext.set(this._processBlock(blockForPenultimateC, tweak_m, true), (numBlocks - 1) * 16)
+    }
+
+    return ciphertext
+  }
+
+  decrypt(ciphertext: Uint8Array, tweak: Uint8Array): Uint8Array {
+    assertNotDisposed(this.disposed, this.name)
+    if (ciphertext.length < 16) throw new InvalidLengthError("Los datos para XTS deben ser >= 16 bytes.", { mode: this.name, parameter: "ciphertext", expected: { min: 16 }, actual: ciphertext.length })
+    if (tweak.length !== 16) throw new InvalidNonceError("El tweak para XTS debe ser de 16 bytes.", { mode: this.name, parameter: "tweak", expected: [16], actual: tweak.length })
+
+    if (this.native) {
+      return runNativeCipher(this.native.createDecipheriv(this.nativeAlgorithm, this.key, tweak), ciphertext)
+    }
+    if (this.legacyFormat) {
+      return this._decryptLegacy(ciphertext, tweak)
+    }
+
+    const plaintext = new Uint8Array(ciphertext.length)
+    const currentTweak = this.aes2.encrypt(tweak)
+
+    const numBlocks = Math.floor(ciphertext.length / 16)
+    const finalBlockSize = ciphertext.length % 16
+
+    const iterationLimit = finalBlockSize === 0 ? numBlocks : numBlocks - 1
+    this._processBlocks(ciphertext, plaintext, iterationLimit, currentTweak, false)
+
+    if (finalBlockSize !== 0) {
+      // Con CTS, el último bloque completo se descifra con el tweak del bloque parcial (T_m).
+      const penultimateBlockC = ciphertext.subarray((numBlocks - 1) * 16, numBlocks * 16)
+      const finalPartialBlockC = ciphertext.subarray(numBlocks * 16)
+
+      const tweak_m_minus_1 = currentTweak
+      const tweak_m = doubleLE(tweak_m_minus_1)
+
+      const prePlaintext = this._processBlock(penultimateBlockC, tweak_m, false)
+
+      // El texto plano final es el inicio del pre-texto plano
+      plaintext.set(prePlaintext.subarray(0, finalBlockSize), numBlocks * 16)
+
+      // Reconstruir el pre-texto cifrado usando los datos robados
+      const preCiphertext = new Uint8Array(16)
+      preCiphertext.set(finalPartialBlockC)
+      preCiphertext.set(prePlaintext.subarray(finalBlockSize), finalBlockSize)
+
+      plaintext.set(this._processBlock(preCiphertext, tweak_m_minus_1, false), (numBlocks - 1) * 16)
+    }
+
+    return plaintext
+  }
+
+  /**
+   * Cifrado con el formato de versiones anteriores, que intercambiaba los dos últimos bloques cuando los datos
+   * son múltiplo del tamaño de bloque y aplicaba los tweaks del robo de texto cifrado en otro orden.
+   */
+  private _encryptLegacy(plaintext: Uint8Array, tweak: Uint8Array): Uint8Array {
+    const ciphertext = new Uint8Array(plaintext.length)
+    const currentTweak = this.aes2.encrypt(tweak)
 
     const numBlocks = Math.floor(plaintext.length / 16)
     const finalBlockSize = plaintext.length % 16
 
     // Procesar todos los bloques completos excepto los implicados en el CTS
     const iterationLimit = finalBlockSize === 0 ? numBlocks - 2 : numBlocks - 1
-    for (let i = 0; i < iterationLimit; i++) {
-      const from = i * 16
-      const block = plaintext.subarray(from, from + 16)
-      const encryptedBlock = this.aes1.encrypt(xor(block, currentTweak))
-      ciphertext.set(xor(encryptedBlock, currentTweak), from)
-      currentTweak = this._double(currentTweak)
-    }
+    this._processBlocks(plaintext, ciphertext, iterationLimit, currentTweak, true)
 
     if (finalBlockSize === 0) {
       // Caso 1: Los datos son un múltiplo del tamaño del bloque.
@@ -92,7 +262,7 @@ export class ModeOfOperationXTS {
       const lastBlockP = plaintext.subarray((numBlocks - 1) * 16)
 
       const tweak_m_minus_1 = new Uint8Array(currentTweak)
-      const tweak_m = this._double(tweak_m_minus_1)
+      const tweak_m = doubleBE(tweak_m_minus_1)
 
       const preCiphertext = this.aes1.encrypt(xor(penultimateBlockP, tweak_m_minus_1))
       const finalCiphertext = xor(this.aes1.encrypt(xor(lastBlockP, tweak_m)), tweak_m_minus_1)
@@ -105,7 +275,7 @@ export class ModeOfOperationXTS {
       const finalPartialBlockP = plaintext.subarray(numBlocks * 16)
 
       const tweak_m_minus_1 = new Uint8Array(currentTweak)
-      const tweak_m = this._double(tweak_m_minus_1)
+      const tweak_m = doubleBE(tweak_m_minus_1)
 
       // Cifrar el penúltimo bloque para obtener los datos a robar
       const preCiphertext = this.aes1.encrypt(xor(penultimateBlockP, tweak_m_minus_1))
@@ -127,24 +297,18 @@ export class ModeOfOperationXTS {
     return ciphertext
   }
 
-  decrypt(ciphertext: Uint8Array, tweak: Uint8Array): Uint8Array {
-    if (ciphertext.length < 16) throw new Error("Los datos para XTS deben ser >= 16 bytes.")
-    if (tweak.length !== 16) throw new Error("El tweak para XTS debe ser de 16 bytes.")
-
+  /**
+   * Descifrado con el formato de versiones anteriores; inverso de `_encryptLegacy`.
+   */
+  private _decryptLegacy(ciphertext: Uint8Array, tweak: Uint8Array): Uint8Array {
     const plaintext = new Uint8Array(ciphertext.length)
-    let currentTweak = this.aes2.encrypt(tweak)
+    const currentTweak = this.aes2.encrypt(tweak)
 
     const numBlocks = Math.floor(ciphertext.length / 16)
     const finalBlockSize = ciphertext.length % 16
 
     const iterationLimit = finalBlockSize === 0 ? numBlocks - 2 : numBlocks - 1
-    for (let i = 0; i < iterationLimit; i++) {
-      const from = i * 16
-      const block = ciphertext.subarray(from, from + 16)
-      const decryptedBlock = this.aes1.decrypt(xor(block, currentTweak))
-      plaintext.set(xor(decryptedBlock, currentTweak), from)
-      currentTweak = this._double(currentTweak)
-    }
+    this._processBlocks(ciphertext, plaintext, iterationLimit, currentTweak, false)
 
     if (finalBlockSize === 0) {
       // Caso 1: Los datos son un múltiplo del tamaño del bloque.
@@ -152,7 +316,7 @@ export class ModeOfOperationXTS {
       const lastBlockC = ciphertext.subarray((numBlocks - 1) * 16)
 
       const tweak_m_minus_1 = new Uint8Array(currentTweak)
-      const tweak_m = this._double(tweak_m_minus_1)
+      const tweak_m = doubleBE(tweak_m_minus_1)
 
       const prePlaintext = this.aes1.decrypt(xor(lastBlockC, tweak_m))
       const finalPlaintext = xor(this.aes1.decrypt(xor(penultimateBlockC, tweak_m_minus_1)), tweak_m)
@@ -165,7 +329,7 @@ export class ModeOfOperationXTS {
       const finalPartialBlockC = ciphertext.subarray(numBlocks * 16)
 
       const tweak_m_minus_1 = new Uint8Array(currentTweak)
-      const tweak_m = this._double(tweak_m_minus_1)
+      const tweak_m = doubleBE(tweak_m_minus_1)
 
       // Descifrar el penúltimo bloque para obtener el "pre-texto plano"
       const prePlaintext = xor(this.aes1.decrypt(xor(penultimateBlockC, tweak_m_minus_1)), tweak_m)
@@ -184,5 +348,21 @@ export class ModeOfOperationXTS {
     }
 
     return plaintext
+
+  }
+
+  /**
+   * Borra la copia de la clave y destruye los dos núcleos AES internos.
+   * Cualquier llamada posterior lanza un error; llamar a `dispose()` varias veces es seguro.
+   */
+  dispose(): void {
+    this.disposed = true
+    wipe(this.key)
+    this.aes1.dispose()
+    this.aes2.dispose()
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose()
   }
 }
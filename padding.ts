@@ -1,3 +1,5 @@
+import { InvalidPaddingError } from "./errors"
+
 /**
  * Añade relleno PKCS7 a los datos.
  * @param data - El Uint8Array al que se le añadirá el relleno.
@@ -22,11 +24,11 @@ export function pkcs7pad(data: Uint8Array, blockSize: number = 16): Uint8Array {
  * Elimina el relleno PKCS7 de los datos.
  * @param data - El Uint8Array del que se eliminará el relleno.
  * @returns Un nuevo Uint8Array sin el relleno.
- * @throws Si el relleno es inválido.
+ * @throws InvalidPaddingError si el relleno es inválido.
  */
 export function pkcs7strip(data: Uint8Array, blockSize: number = 16): Uint8Array {
   if (data.length === 0) {
-    throw new Error("PKCS#7: El array de entrada no puede estar vacío.")
+    throw new InvalidPaddingError("PKCS#7: El array de entrada no puede estar vacío.", { scheme: "pkcs7", blockSize })
   }
 
   const paddingValue = data[data.length - 1]
@@ -34,7 +36,7 @@ export function pkcs7strip(data: Uint8Array, blockSize: number = 16): Uint8Array
   // El valor de relleno debe ser entre 1 y 16 (o el tamaño del bloque máximo).
   // Y el array de entrada debe ser de al menos el tamaño del relleno.
   if (paddingValue === 0 || paddingValue > blockSize || data.length < paddingValue) {
-    throw new Error("PKCS#7: byte de relleno fuera de rango o longitud inválida.")
+    throw new InvalidPaddingError("PKCS#7: byte de relleno fuera de rango o longitud inválida.", { scheme: "pkcs7", blockSize })
   }
 
   const length = data.length - paddingValue
@@ -42,7 +44,7 @@ export function pkcs7strip(data: Uint8Array, blockSize: number = 16): Uint8Array
   // Verifica que todos los bytes de relleno sean iguales al valor de relleno.
   for (let i = 0; i < paddingValue; i++) {
     if (data[length + i] !== paddingValue) {
-      throw new Error("PKCS#7: byte de relleno inválido.")
+      throw new InvalidPaddingError("PKCS#7: byte de relleno inválido.", { scheme: "pkcs7", blockSize })
     }
   }
 
@@ -0,0 +1,239 @@
+import { BlockCipher } from "./aes"
+import { RCON, S, SI, T1, T2, T3, T4, T5, T6, T7, T8, U1, U2, U3, U4 } from "./constants"
+import { assertNotDisposed, wipe } from "./dispose"
+import { InvalidKeyLengthError, InvalidLengthError, InvalidParameterError } from "./errors"
+
+// Tamaños de bloque y de clave admitidos por Rijndael, en bytes (de 128 a 256 bits en pasos de 32).
+const RIJNDAEL_SIZES = [16, 20, 24, 28, 32]
+
+// Desplazamientos de ShiftRows de las filas 1, 2 y 3 según el número de columnas del bloque.
+const SHIFT_OFFSETS: { [columns: number]: [number, number, number] } = {
+  4: [1, 2, 3],
+  5: [1, 2, 3],
+  6: [1, 2, 3],
+  7: [1, 2, 4],
+  8: [1, 3, 4]
+}
+
+/**
+ * Rijndael con tamaño de bloque variable.
+ *
+ * AES es el subconjunto de Rijndael con bloque de 128 bits. Esta clase admite además bloques de 160, 192, 224 y
+ * 256 bits, con claves de 128 a 256 bits en pasos de 32, y comparte las tablas T/U y las S-box de `constants.ts`
+ * con {@link AES}. Sirve para interoperar con sistemas heredados, como los datos cifrados con
+ * `MCRYPT_RIJNDAEL_256` de PHP mcrypt (bloque de 256 bits). Con bloque de 128 bits produce los mismos resultados
+ * que AES, pero para ese caso conviene usar {@link AES} directamente.
+ *
+ * Los modos ECB y CBC lo usan cuando se indica `blockSize` en sus opciones.
+ *
+ * @example
+ * ```typescript
+ * const rijndael = new Rijndael(key, 32); // Bloque de 256 bits
+ * const ciphertext = rijndael.encrypt(block32);
+ *
+ * // Descifrar datos de MCRYPT_RIJNDAEL_256 en modo CBC
+ * const cbc = new ModeOfOperationCBC(key, iv32, { blockSize: 32 });
+ * ```
+ */
+export class Rijndael implements BlockCipher {
+  public readonly blockSize: number
+  private readonly columns: number
+  private readonly rounds: number
+  // Claves de ronda en palabras de 32 bits: la ronda r ocupa los índices [r * columns, (r + 1) * columns).
+  private readonly _Ke: Uint32Array
+  private readonly _Kd: Uint32Array
+  // Columna de origen de las filas 1, 2 y 3 tras ShiftRows (cifrado) e InvShiftRows (descifrado).
+  private readonly encryptShifts: Uint8Array
+  private readonly decryptShifts: Uint8Array
+  // Estado de trabajo reutilizado entre bloques para no reservar memoria.
+  private readonly state: Uint32Array
+  private readonly nextState: Uint32Array
+  private disposed = false
+
+  /**
+   * @param key La clave, de 16, 20, 24, 28 o 32 bytes.
+   * @param blockSize Tamaño de bloque en bytes: 16, 20, 24, 28 o 32. Por defecto, 16 (AES).
+   */
+  constructor(key: Uint8Array, blockSize: number = 16) {
+    if (!RIJNDAEL_SIZES.includes(key.length)) {
+      throw new InvalidKeyLengthError("Tamaño de clave inválido para Rijndael (debe ser 16, 20, 24, 28 o 32 bytes)", { mode: "Rijndael", expected: RIJNDAEL_SIZES, actual: key.length })
+    }
+    if (!RIJNDAEL_SIZES.includes(blockSize)) {
+      throw new InvalidParameterError("Tamaño de bloque inválido para Rijndael (debe ser 16, 20, 24, 28 o 32 bytes)", { mode: "Rijndael", parameter: "blockSize" })
+    }
+    this.blockSize = blockSize
+    const columns = blockSize / 4
+    this.columns = columns
+    this.rounds = Math.max(columns, key.length / 4) + 6
+
+    this.encryptShifts = new Uint8Array(columns * 3)
+    this.decryptShifts = new Uint8Array(columns * 3)
+    const offsets = SHIFT_OFFSETS[columns]
+    for (let row = 0; row < 3; row++) {
+      for (let c = 0; c < columns; c++) {
+        this.encryptShifts[row * columns + c] = (c + offsets[row]) % columns
+        this.decryptShifts[row * columns + c] = (c - offsets[row] + columns) % columns
+      }
+    }
+
+    this.state = new Uint32Array(columns)
+    this.nextState = new Uint32Array(columns)
+    this._Ke = new Uint32Array((this.rounds + 1) * columns)
+    this._Kd = new Uint32Array((this.rounds + 1) * columns)
+    this.prepare(key)
+  }
+
+  // Expansión de clave de Rijndael para cualquier combinación de Nb y Nk, más las claves de descifrado
+  // con InvMixColumns ya aplicado (cifrado inverso equivalente), igual que en AES.
+  private prepare(key: Uint8Array): void {
+    const Ke = this._Ke
+    const Kd = this._Kd
+    const columns = this.columns
+    const rounds = this.rounds
+    const KC = key.length / 4
+
+    for (let i = 0; i < KC; i++) {
+      const j = i * 4
+      Ke[i] = (key[j] << 24) | (key[j + 1] << 16) | (key[j + 2] << 8) | key[j + 3]
+    }
+    for (let i = KC; i < Ke.length; i++) {
+      let tt = Ke[i - 1]
+      if (i % KC === 0) {
+        tt = (S[(tt >>> 16) & 0xff] << 24) ^ (S[(tt >>> 8) & 0xff] << 16) ^ (S[tt & 0xff] << 8) ^ S[tt >>> 24] ^ (RCON[i / KC - 1] << 24)
+      } else if (KC > 6 && i % KC === 4) {
+        tt = (S[tt >>> 24] << 24) ^ (S[(tt >>> 16) & 0xff] << 16) ^ (S[(tt >>> 8) & 0xff] << 8) ^ S[tt & 0xff]
+      }
+      Ke[i] = Ke[i - KC] ^ tt
+    }
+
+    for (let r = 0; r <= rounds; r++) {
+      for (let c = 0; c < columns; c++) {
+        const tt = Ke[(rounds - r) * columns + c]
+        Kd[r * columns + c] = r === 0 || r === rounds ? tt : U1[tt >>> 24] ^ U2[(tt >>> 16) & 0xff] ^ U3[(tt >>> 8) & 0xff] ^ U4[tt & 0xff]
+      }
+    }
+  }
+
+  public encrypt(plaintext: Uint8Array): Uint8Array<ArrayBuffer> {
+    if (plaintext.length !== this.blockSize) {
+      throw new InvalidLengthError(`Tamaño de texto plano inválido (debe ser ${this.blockSize} bytes)`, { mode: "Rijndael", parameter: "plaintext", expected: { min: this.blockSize, max: this.blockSize }, actual: plaintext.length })
+    }
+
+    const result = new Uint8Array(this.blockSize)
+    this.encryptBlockInto(plaintext, 0, result, 0)
+    return result
+  }
+
+  public decrypt(ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
+    if (ciphertext.length !== this.blockSize) {
+      throw new InvalidLengthError(`Tamaño de texto cifrado inválido (debe ser ${this.blockSize} bytes)`, { mode: "Rijndael", parameter: "ciphertext", expected: { min: this.blockSize, max: this.blockSize }, actual: ciphertext.length })
+    }
+
+    const result = new Uint8Array(this.blockSize)
+    this.decryptBlockInto(ciphertext, 0, result, 0)
+    return result
+  }
+
+  /**
+   * Cifra el bloque de `blockSize` bytes que empieza en `src[srcOffset]` y escribe el resultado en `dst[dstOffset]`.
+   * `src` y `dst` pueden ser el mismo array. Los límites no se comprueban.
+   */
+  public encryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void {
+    assertNotDisposed(this.disposed, "Rijndael")
+    this.transform(src, srcOffset, dst, dstOffset, this._Ke, this.encryptShifts, T1, T2, T3, T4, S)
+  }
+
+  /**
+   * Descifra el bloque de `blockSize` bytes que empieza en `src[srcOffset]` y escribe el resultado en `dst[dstOffset]`.
+   * `src` y `dst` pueden ser el mismo array. Los límites no se comprueban.
+   */
+  public decryptBlockInto(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): void {
+    assertNotDisposed(this.disposed, "Rijndael")
+    this.transform(src, srcOffset, dst, dstOffset, this._Kd, this.decryptShifts, T5, T6, T7, T8, SI)
+  }
+
+  /**
+   * Cifra `blockCount` bloques consecutivos de `input` en `output`. Ambos pueden ser el mismo array.
+   */
+  public encryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void {
+    this.checkBlocks(input, output, blockCount)
+    for (let i = 0; i < blockCount * this.blockSize; i += this.blockSize) {
+      this.encryptBlockInto(input, i, output, i)
+    }
+  }
+
+  /**
+   * Descifra `blockCount` bloques consecutivos de `input` en `output`. Ambos pueden ser el mismo array.
+   */
+  public decryptBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void {
+    this.checkBlocks(input, output, blockCount)
+    for (let i = 0; i < blockCount * this.blockSize; i += this.blockSize) {
+      this.decryptBlockInto(input, i, output, i)
+    }
+  }
+
+  private checkBlocks(input: Uint8Array, output: Uint8Array, blockCount: number): void {
+    if (input.length < blockCount * this.blockSize || output.length < blockCount * this.blockSize) {
+      throw new InvalidLengthError("Tamaño de búfer insuficiente para el número de bloques indicado", { mode: "Rijndael", parameter: "buffer", expected: { min: blockCount * this.blockSize }, actual: Math.min(input.length, output.length) })
+    }
+  }
+
+  // Una pasada completa de cifrado o descifrado: las dos direcciones solo difieren en las claves de ronda,
+  // las tablas y el sentido de ShiftRows.
+  private transform(
+    src: Uint8Array,
+    srcOffset: number,
+    dst: Uint8Array,
+    dstOffset: number,
+    K: Uint32Array,
+    shifts: Uint8Array,
+    A1: Uint32Array,
+    A2: Uint32Array,
+    A3: Uint32Array,
+    A4: Uint32Array,
+    box: Uint8Array
+  ): void {
+    const columns = this.columns
+    const rounds = this.rounds
+    let t = this.state
+    let a = this.nextState
+
+    for (let c = 0; c < columns; c++) {
+      const i = srcOffset + c * 4
+      t[c] = ((src[i] << 24) | (src[i + 1] << 16) | (src[i + 2] << 8) | src[i + 3]) ^ K[c]
+    }
+
+    let k = columns
+    for (let r = 1; r < rounds; r++) {
+      for (let c = 0; c < columns; c++) {
+        a[c] = A1[t[c] >>> 24] ^ A2[(t[shifts[c]] >>> 16) & 0xff] ^ A3[(t[shifts[columns + c]] >>> 8) & 0xff] ^ A4[t[shifts[2 * columns + c]] & 0xff] ^ K[k + c]
+      }
+      const swap = t
+      t = a
+      a = swap
+      k += columns
+    }
+
+    for (let c = 0; c < columns; c++) {
+      const tt = K[k + c]
+      const o = dstOffset + c * 4
+      dst[o] = box[t[c] >>> 24] ^ (tt >>> 24)
+      dst[o + 1] = box[(t[shifts[c]] >>> 16) & 0xff] ^ (tt >>> 16)
+      dst[o + 2] = box[(t[shifts[columns + c]] >>> 8) & 0xff] ^ (tt >>> 8)
+      dst[o + 3] = box[t[shifts[2 * columns + c]] & 0xff] ^ tt
+    }
+  }
+
+  /**
+   * Sobrescribe con ceros las claves de ronda y el estado de trabajo. A partir de aquí cualquier operación lanza un
+   * error. Llamar varias veces es seguro.
+   */
+  public dispose(): void {
+    this.disposed = true
+    wipe(this._Ke, this._Kd, this.state, this.nextState)
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
+}